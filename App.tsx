@@ -1,90 +1,487 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Section } from './components/Section';
-import { LotterySet, GeneratorMode, PastDraw, GuruStat } from './types';
-import { generateLuckyNumbersAI, getNextDrawDate, getLatestDrawResults, getGuruStats } from './services/geminiService';
-import { SparklesIcon, ArrowPathIcon, CpuChipIcon, BoltIcon, ChartBarIcon, FireIcon, CalendarDaysIcon, TagIcon, CheckBadgeIcon, LinkIcon, TrophyIcon, StarIcon } from '@heroicons/react/24/solid';
+import { TicketChecker } from './components/TicketChecker';
+import { DrawArchive } from './components/DrawArchive';
+import { PredictionHistory } from './components/PredictionHistory';
+import { BacktestPanel } from './components/BacktestPanel';
+import { GuruCard } from './components/GuruCard';
+import { DreamDictionary } from './components/DreamDictionary';
+import { NumerologyProfiles } from './components/NumerologyProfiles';
+import { SeedVerifier } from './components/SeedVerifier';
+import { ConstraintPanel } from './components/ConstraintPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { ConsensusPanel } from './components/ConsensusPanel';
+import { PermutationTool } from './components/PermutationTool';
+import { TicketLedger } from './components/TicketLedger';
+import { PoolManager } from './components/PoolManager';
+import { DrawCountdown } from './components/DrawCountdown';
+import { GameSelector } from './components/GameSelector';
+import { PromptSettings } from './components/PromptSettings';
+import { GuruRegistry } from './components/GuruRegistry';
+import { LotterySet, GeneratorMode, PastDraw, GuruStat, GuruMeasuredStats, NumerologyProfile, NumberConstraints, PlayNumber, NotificationSettings, GameId, PromptTemplate } from './types';
+import { generateLuckyNumbersAI, generateDreamSet, generateNumerologySet, latestDrawResource, guruStatsResource, ApiError, TimeoutError, GenerateOptions, TIMEOUT_CHOICES, loadTimeoutSeconds, saveTimeoutSeconds, listPromptTemplates } from './services/lottoApi';
+import { CacheEntry } from './services/cache';
+import { getNextDraw, getPreviousDraw } from './services/drawCalendar';
+import { hasCompleteResults, isPollingWindow, nextPollDelay, salesCloseInstant, salesReminderInstant } from './services/drawWatch';
+import { loadNotificationSettings, saveNotificationSettings, shouldNotify, notifyResults, notifySalesClosing, notifyWins } from './services/notifications';
+import { parseThaiDate } from './services/thaiDate';
+import { archiveFetchedDraw, listDraws } from './services/drawStore';
+import { InsufficientHistoryError } from './services/statsEngine';
+import { NoDreamMatchError } from './services/dreamEngine';
+import { InsecureContextError, createSeed, buildSeededSet } from './services/seededRng';
+import { DEFAULT_CONSTRAINTS, ImpossibleConstraintsError, hasConstraints, recentNumbers, retargetConstraints } from './services/constraints';
+import { DEFAULT_GAME, GAMES, gameOf, loadSelectedGame, placeholderNumbers, saveSelectedGame } from './services/games';
+import { savePrediction } from './services/predictionHistory';
+import { mergePlayNumbers } from './services/permutations';
+import { scorePendingPredictions } from './services/backtest';
+import { checkPendingLedgerEntries } from './services/ledger';
+import { recordGuruPredictions, verifyGuruPredictions, loadMeasuredStats, guruKey } from './services/guruTracker';
+import { SparklesIcon, ArrowPathIcon, CpuChipIcon, BoltIcon, ChartBarIcon, FireIcon, TagIcon, CheckBadgeIcon, LinkIcon, TrophyIcon, MoonIcon, BookOpenIcon, CalculatorIcon, ShieldCheckIcon, ClipboardDocumentIcon, StopIcon, ClockIcon, CommandLineIcon } from '@heroicons/react/24/solid';
 
-const getRandomDigit = () => Math.floor(Math.random() * 10).toString();
+const formatUpdatedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('th-TH', { dateStyle: 'medium', timeStyle: 'short' });
 
-const generateString = (length: number) => {
-  return Array.from({ length }, getRandomDigit).join('');
-};
-
-const initialSet: LotterySet = {
-  prize1: '------',
-  front3: ['---', '---'],
-  rear3: ['---', '---'],
-  rear2: '--',
-  source: 'RNG',
-  drawDate: getNextDrawDate(),
-  timestamp: Date.now()
+// Dashes in the game's layout until the first set is generated
+const placeholderSet = (game: GameId): LotterySet => {
+  const draw = getNextDraw(new Date(), game);
+  return {
+    ...placeholderNumbers(game),
+    game,
+    source: 'RNG',
+    drawDate: draw.label,
+    drawIsoDate: draw.isoDate,
+    timestamp: Date.now()
+  };
 };
 
 const App: React.FC = () => {
-  const [currentSet, setCurrentSet] = useState<LotterySet>(initialSet);
+  // The lottery game every mode, lookup and check works on
+  const [game, setGame] = useState<GameId>(loadSelectedGame);
+  // Lookups resolve asynchronously; results for a game that is no longer selected are dropped
+  const gameRef = useRef(game);
+
+  const [currentSet, setCurrentSet] = useState<LotterySet>(() => placeholderSet(game));
   const [isRolling, setIsRolling] = useState(false);
   const [mode, setMode] = useState<GeneratorMode>(GeneratorMode.RNG);
   const [error, setError] = useState<string | null>(null);
+
+  // The generation in flight, if any. Only its own response may update the screen.
+  const generation = useRef<AbortController | null>(null);
+  // AI, HISTORY and GURU reasoning as it streams in, and how long to wait for the model
+  const [streamingReasoning, setStreamingReasoning] = useState<string | null>(null);
+  const [timeoutSeconds, setTimeoutSeconds] = useState(loadTimeoutSeconds);
+
+  // RNG mode: optional user seed, number constraints, and the seeded set being verified
+  const [rngSeed, setRngSeed] = useState('');
+  const [rngConstraints, setRngConstraints] = useState<NumberConstraints>(() => retargetConstraints(DEFAULT_CONSTRAINTS, DEFAULT_GAME, game));
+  const [showConstraints, setShowConstraints] = useState(false);
+  const [verifyTarget, setVerifyTarget] = useState<LotterySet | null>(null);
+
+  // DREAM mode input
+  const [dreamText, setDreamText] = useState('');
+  const [dreamEnrich, setDreamEnrich] = useState(false);
+  const [showDreamDictionary, setShowDreamDictionary] = useState(false);
+
+  // NUMEROLOGY mode input
+  const [numerologyProfile, setNumerologyProfile] = useState<NumerologyProfile | null>(null);
+
+  // Prompt templates from the API server; CUSTOM mode generates from the selected custom one
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [customTemplateId, setCustomTemplateId] = useState<string | null>(null);
   
   // State for Past Results
   const [pastDraw, setPastDraw] = useState<PastDraw | null>(null);
   const [loadingPast, setLoadingPast] = useState<boolean>(true);
+  const [pastUpdatedAt, setPastUpdatedAt] = useState<number | null>(null);
 
   // State for Guru Stats
   const [guruStats, setGuruStats] = useState<GuruStat[]>([]);
   const [loadingGuru, setLoadingGuru] = useState<boolean>(true);
+  const [guruMeasured, setGuruMeasured] = useState<Record<string, GuruMeasuredStats>>({});
+  const [guruUpdatedAt, setGuruUpdatedAt] = useState<number | null>(null);
+
+  // Background refresh of the cached lookups
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Bumped whenever the local draw archive changes
+  const [archiveVersion, setArchiveVersion] = useState(0);
+
+  // Bumped whenever a generated set is saved to history
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  // Bumped whenever ledger entries or pools change, including checks against new results
+  const [ledgerVersion, setLedgerVersion] = useState(0);
+
+  // Bumped whenever a prompt template or custom mode is saved
+  const [templatesVersion, setTemplatesVersion] = useState(0);
+
+  // Opt-in browser notifications around the draw
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(loadNotificationSettings);
+
+  // Play numbers collected for export, and numbers handed to the permutation tools
+  const [playNumbers, setPlayNumbers] = useState<PlayNumber[]>([]);
+  const [expandPreset, setExpandPreset] = useState<string[] | null>(null);
+
+  // Apply a latest-results cache entry for `forGame` and archive it
+  const applyPastEntry = useCallback((entry: CacheEntry<PastDraw>, forGame: GameId) => {
+    // Keep every successfully fetched draw in the local archive, whichever game is shown
+    if (!entry.data.degraded) {
+      archiveFetchedDraw(entry.data, forGame)
+        .then(saved => {
+          if (!saved) return;
+          setArchiveVersion(v => v + 1);
+          // Results newly archived around draw time are the ones worth announcing
+          const drawIsoDate = parseThaiDate(entry.data.date);
+          const now = new Date();
+          if (drawIsoDate === getPreviousDraw(now, forGame).isoDate && isPollingWindow(now, forGame) && shouldNotify('results')) {
+            notifyResults(drawIsoDate, entry.data, forGame);
+          }
+        })
+        .catch(e => console.error("Failed to archive latest draw", e));
+    }
+
+    if (gameRef.current !== forGame) return;
+    // A failed lookup never replaces valid results already on screen
+    if (entry.data.degraded) {
+      setPastDraw(prev => prev && !prev.degraded ? prev : entry.data);
+      return;
+    }
+    setPastDraw(entry.data);
+    setPastUpdatedAt(entry.fetchedAt);
+  }, []);
+
+  const applyGuruEntry = useCallback((entry: CacheEntry<GuruStat[]>, forGame: GameId) => {
+    if (entry.data.every(g => g.degraded)) {
+      if (gameRef.current === forGame) setGuruStats(prev => prev.some(g => !g.degraded) ? prev : entry.data);
+      return;
+    }
+    // Track what each guru published so it can be verified after the draw
+    recordGuruPredictions(entry.data, entry.period, forGame)
+      .catch(e => console.error("Failed to record guru predictions", e));
 
-  // Fetch past results and guru stats on mount
+    if (gameRef.current !== forGame) return;
+    setGuruStats(entry.data);
+    setGuruUpdatedAt(entry.fetchedAt);
+  }, []);
+
+  // Revalidate both lookups; cached entries are reused unless stale or `force` is set
+  const loadData = useCallback(async (force: boolean) => {
+    const forGame = game;
+    setRefreshing(true);
+    await Promise.all([
+      latestDrawResource(forGame).get({ force })
+        .then(entry => applyPastEntry(entry, forGame))
+        .catch(e => console.error("Error fetching latest results", e))
+        .finally(() => gameRef.current === forGame && setLoadingPast(false)),
+      guruStatsResource(forGame).get({ force })
+        .then(entry => applyGuruEntry(entry, forGame))
+        .catch(e => console.error("Error fetching guru stats", e))
+        .finally(() => gameRef.current === forGame && setLoadingGuru(false)),
+    ]);
+    if (gameRef.current === forGame) setRefreshing(false);
+  }, [game, applyPastEntry, applyGuruEntry]);
+
+  // Registry edits and typed-in numbers are merged on the server, so re-read the cards
+  // without a new AI lookup. The old entry is dropped in case the new one is not cacheable.
+  const reloadGuruCards = useCallback(() => {
+    const forGame = game;
+    const resource = guruStatsResource(forGame);
+    resource.clear();
+    resource.refresh(false)
+      .then(entry => {
+        applyGuruEntry(entry, forGame);
+        if (gameRef.current === forGame) setGuruStats(entry.data);
+      })
+      .catch(e => console.error("Error fetching guru stats", e));
+  }, [game, applyGuruEntry]);
+
+  // Show cached data instantly on mount and on every game switch, then revalidate in the background
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        const [pastData, guruData] = await Promise.all([
-            getLatestDrawResults(),
-            getGuruStats()
-        ]);
-        setPastDraw(pastData);
-        setGuruStats(guruData);
-      } catch (e) {
-        console.error("Error fetching data", e);
-      } finally {
-        setLoadingPast(false);
-        setLoadingGuru(false);
+    gameRef.current = game;
+    setPastDraw(null);
+    setPastUpdatedAt(null);
+    setGuruStats([]);
+    setGuruUpdatedAt(null);
+    setLoadingPast(true);
+    setLoadingGuru(true);
+
+    const cachedPast = latestDrawResource(game).peek();
+    if (cachedPast) {
+      applyPastEntry(cachedPast, game);
+      setLoadingPast(false);
+    }
+    const cachedGuru = guruStatsResource(game).peek();
+    if (cachedGuru) {
+      applyGuruEntry(cachedGuru, game);
+      setLoadingGuru(false);
+    }
+    loadData(false);
+  }, [game, loadData, applyPastEntry, applyGuruEntry]);
+
+  // Poll for the latest results only around draw time, until the full results are in
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    const resource = latestDrawResource(game);
+    const schedule = () => {
+      timer = setTimeout(poll, nextPollDelay(resource.peek()?.data || null, game));
+    };
+    const poll = () => {
+      const latest = resource.peek()?.data || null;
+      const now = new Date();
+      if (!isPollingWindow(now, game) || hasCompleteResults(latest, getPreviousDraw(now, game).isoDate, game)) {
+        schedule();
+        return;
       }
+      resource.refresh()
+        .then(entry => applyPastEntry(entry, game))
+        .catch(e => console.error("Error polling latest results", e))
+        .finally(schedule);
     };
-    fetchData();
+    schedule();
+    return () => clearTimeout(timer);
+  }, [game, applyPastEntry]);
+
+  // Remind before ticket sales close, then wait for the following draw
+  useEffect(() => {
+    if (!notificationSettings.enabled || !notificationSettings.salesReminder) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      const now = Date.now();
+      const draw = getNextDraw(new Date(now), game);
+      const closesAt = salesCloseInstant(draw);
+      const remindAt = salesReminderInstant(draw, notificationSettings.reminderLeadHours).getTime();
+      if (now < remindAt) {
+        timer = setTimeout(schedule, remindAt - now);
+        return;
+      }
+      if (now < closesAt.getTime()) notifySalesClosing(draw.isoDate, closesAt, game);
+      timer = setTimeout(schedule, draw.at.getTime() - now + 1000);
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, [game, notificationSettings]);
+
+  // Abort the generation in flight; anything it still returns is ignored
+  const cancelGeneration = useCallback(() => {
+    generation.current?.abort();
+    generation.current = null;
+    setIsRolling(false);
+    setStreamingReasoning(null);
+  }, []);
+
+  // A response for the previous mode must never land on the new one
+  const selectMode = useCallback((next: GeneratorMode) => {
+    if (next !== mode) cancelGeneration();
+    setMode(next);
+  }, [mode, cancelGeneration]);
+
+  const selectCustomMode = useCallback((id: string) => {
+    if (mode !== GeneratorMode.CUSTOM || id !== customTemplateId) cancelGeneration();
+    setMode(GeneratorMode.CUSTOM);
+    setCustomTemplateId(id);
+  }, [mode, customTemplateId, cancelGeneration]);
+
+  const handleTimeoutChange = useCallback((seconds: number) => {
+    setTimeoutSeconds(seconds);
+    saveTimeoutSeconds(seconds);
+  }, []);
+
+  // Constraints, the display and the set on screen all follow the game's layout
+  const handleGameChange = useCallback((next: GameId) => {
+    if (next === gameRef.current) return;
+    cancelGeneration();
+    saveSelectedGame(next);
+    setRngConstraints(c => retargetConstraints(c, gameRef.current, next));
+    setCurrentSet(set => (gameOf(set) === next ? set : placeholderSet(next)));
+    setError(null);
+    setGame(next);
+  }, [cancelGeneration]);
+
+  const handleNotificationSettings = useCallback((settings: NotificationSettings) => {
+    setNotificationSettings(settings);
+    saveNotificationSettings(settings);
   }, []);
 
-  const handleGenerate = useCallback(async () => {
+  useEffect(() => {
+    listPromptTemplates()
+      .then(setPromptTemplates)
+      .catch(e => console.error("Failed to load prompt templates", e));
+  }, [templatesVersion]);
+
+  const customModes = promptTemplates.filter(t => t.custom);
+  const customTemplate = customModes.find(t => t.id === customTemplateId);
+
+  // Score saved predictions, check bought tickets and verify guru picks whenever new draw results land in the archive
+  useEffect(() => {
+    Promise.all([
+      scorePendingPredictions().then(scored => {
+        if (scored.length > 0) setHistoryVersion(v => v + 1);
+        return scored;
+      }),
+      checkPendingLedgerEntries().then(checked => {
+        if (checked.length > 0) setLedgerVersion(v => v + 1);
+        return checked;
+      }),
+    ])
+      .then(([scored, checked]) => {
+        if (shouldNotify('results')) notifyWins(checked, scored);
+      })
+      .catch(e => console.error("Failed to check predictions and tickets", e));
+
+    verifyGuruPredictions()
+      .then(() => loadMeasuredStats(game))
+      .then(setGuruMeasured)
+      .catch(e => console.error("Failed to verify guru predictions", e));
+  }, [archiveVersion, game]);
+
+  // Show a new set and keep it in the prediction history
+  const recordSet = useCallback((set: LotterySet) => {
+    setCurrentSet(set);
+    savePrediction(set)
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(e => console.error("Failed to save prediction", e));
+  }, []);
+
+  // Input a mode still needs before it can generate, as a message for the user
+  const missingInput = useCallback((targetMode: GeneratorMode): string | null => {
+    if (targetMode === GeneratorMode.DREAM && !dreamText.trim()) return 'กรุณาเล่าความฝันของคุณก่อนทำนาย';
+    if (targetMode === GeneratorMode.NUMEROLOGY && !numerologyProfile) return 'กรุณาบันทึกหรือเลือกโปรไฟล์ก่อนคำนวณเลขศาสตร์';
+    if (targetMode === GeneratorMode.CUSTOM && !customTemplate) return 'กรุณาเลือกโหมดที่สร้างเอง หรือสร้างโหมดใหม่ในตั้งค่าพรอมต์ AI';
+    return null;
+  }, [dreamText, numerologyProfile, customTemplate]);
+
+  // One set for a mode using the current inputs. In a batch, `batchIndex` gives a
+  // user seed a numbered suffix so every seeded set differs and stays verifiable.
+  const createSet = useCallback(async (
+    targetMode: GeneratorMode,
+    batchIndex?: number,
+    targetGame: GameId = game,
+    options: GenerateOptions = {}
+  ): Promise<LotterySet> => {
+    // A template given with the request, e.g. when regenerating a saved set, stands in for the selected one
+    const missing = options.templateId ? null : missingInput(targetMode);
+    if (missing) throw new Error(missing);
+
+    switch (targetMode) {
+      case GeneratorMode.RNG: {
+        const userSeed = rngSeed.trim();
+        const seed = !userSeed ? createSeed() : batchIndex === undefined ? userSeed : `${userSeed}-${batchIndex + 1}`;
+        const gameConstraints = retargetConstraints(rngConstraints, game, targetGame);
+        // Recent draws are resolved now and stored with the set, so verification does not depend on the archive
+        const constraints = gameConstraints.avoidRecentDraws > 0
+          ? { ...gameConstraints, avoidNumbers: recentNumbers(await listDraws(targetGame), gameConstraints.avoidRecentDraws) }
+          : gameConstraints;
+        return buildSeededSet(seed, getNextDraw(new Date(), targetGame), constraints);
+      }
+      case GeneratorMode.DREAM:
+        return generateDreamSet(dreamText, dreamEnrich, targetGame);
+      case GeneratorMode.NUMEROLOGY:
+        return generateNumerologySet(numerologyProfile!, targetGame);
+      case GeneratorMode.CUSTOM:
+        return generateLuckyNumbersAI(targetMode, targetGame, { timeoutSeconds, ...options, templateId: options.templateId || customTemplate!.id });
+      default:
+        return generateLuckyNumbersAI(targetMode, targetGame, { timeoutSeconds, ...options });
+    }
+  }, [game, missingInput, rngSeed, rngConstraints, dreamText, dreamEnrich, numerologyProfile, customTemplate, timeoutSeconds]);
+
+  const generate = useCallback(async (targetMode: GeneratorMode, targetGame: GameId = game, templateId?: string) => {
+    const missing = templateId ? null : missingInput(targetMode);
+    if (missing) {
+      setError(missing);
+      return;
+    }
+    // A new request replaces the one in flight
+    generation.current?.abort();
+    const controller = new AbortController();
+    generation.current = controller;
+    const current = () => generation.current === controller;
+
     setIsRolling(true);
     setError(null);
-    const nextDate = getNextDrawDate();
-    
-    // Artificial delay for RNG visualization
-    if (mode === GeneratorMode.RNG) {
-      setTimeout(() => {
-        setCurrentSet({
-          prize1: generateString(6),
-          front3: [generateString(3), generateString(3)],
-          rear3: [generateString(3), generateString(3)],
-          rear2: generateString(2),
-          source: 'RNG',
-          drawDate: nextDate,
-          timestamp: Date.now()
-        });
-        setIsRolling(false);
-      }, 800);
-    } else {
-      // AI, History, or Guru Mode
-      try {
-        const aiSet = await generateLuckyNumbersAI(mode);
-        setCurrentSet(aiSet);
-      } catch (err) {
+    setStreamingReasoning(null);
+
+    try {
+      // Artificial delay for RNG visualization
+      const [set] = await Promise.all([
+        createSet(targetMode, undefined, targetGame, {
+          templateId,
+          signal: controller.signal,
+          onReasoning: text => current() && setStreamingReasoning(text),
+        }),
+        new Promise(resolve => setTimeout(resolve, targetMode === GeneratorMode.RNG ? 800 : 0)),
+      ]);
+      if (current()) recordSet(set);
+    } catch (err) {
+      if (!current()) return;
+      if (
+        err instanceof ImpossibleConstraintsError ||
+        err instanceof InsecureContextError ||
+        err instanceof InsufficientHistoryError ||
+        err instanceof NoDreamMatchError ||
+        err instanceof TimeoutError ||
+        (err instanceof ApiError && (err.status === 404 || err.status === 502 || err.status === 504))
+      ) {
+        setError(err.message);
+      } else {
         setError("The service is currently unreachable. Please try again or switch to Standard Random.");
-      } finally {
+      }
+    } finally {
+      if (current()) {
+        generation.current = null;
         setIsRolling(false);
+        setStreamingReasoning(null);
       }
     }
-  }, [mode]);
+  }, [game, missingInput, createSet, recordSet]);
+
+  const handleGenerate = useCallback(() => generate(mode), [generate, mode]);
+
+  const handleRegenerate = useCallback((targetMode: GeneratorMode, targetGame: GameId, templateId?: string) => {
+    handleGameChange(targetGame);
+    setMode(targetMode);
+    if (targetMode !== GeneratorMode.CUSTOM) {
+      generate(targetMode, targetGame);
+      return;
+    }
+    setCustomTemplateId(templateId || null);
+    generate(targetMode, targetGame, templateId);
+  }, [generate, handleGameChange]);
+
+  const handleVerify = useCallback((set: LotterySet) => {
+    setVerifyTarget(set);
+    document.getElementById('seed-verifier')?.scrollIntoView({ behavior: 'smooth' });
+  }, []);
+
+  const handleExpand = useCallback((numbers: string[]) => {
+    setExpandPreset(numbers);
+    document.getElementById('permutation-tool')?.scrollIntoView({ behavior: 'smooth' });
+  }, []);
+
+  const handleSendPlayNumbers = useCallback((numbers: PlayNumber[]) => {
+    setPlayNumbers(list => mergePlayNumbers(list, numbers));
+  }, []);
+
+  // Seed and draw date together are enough for anyone to regenerate the set
+  const handleCopySeed = useCallback((set: LotterySet) => {
+    navigator.clipboard?.writeText(`seed ${set.seed} งวด ${set.drawDate}`)
+      .catch(e => console.error("Failed to copy seed", e));
+  }, []);
+
+  const handleSelectSaved = useCallback((set: LotterySet) => {
+    cancelGeneration();
+    handleGameChange(gameOf(set));
+    setMode(set.source as GeneratorMode);
+    if (set.source === 'CUSTOM') setCustomTemplateId(set.promptTemplate?.id || null);
+    setCurrentSet(set);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }, [handleGameChange, cancelGeneration]);
+
+  // While generating, the panel follows the streamed text instead of the set on screen
+  const reasoning = isRolling ? streamingReasoning : currentSet.reasoning;
+  const modelMode = mode === GeneratorMode.AI || mode === GeneratorMode.HISTORY || mode === GeneratorMode.GURU || mode === GeneratorMode.CUSTOM;
+
+  const setGameDef = GAMES[gameOf(currentSet)];
+  const pastGameDef = GAMES[game];
 
   return (
     <div className="min-h-screen bg-slate-900 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-slate-800 via-slate-900 to-black text-white p-4 md:p-8 flex flex-col items-center">
@@ -98,13 +495,11 @@ const App: React.FC = () => {
           ทำนายเลขเด็ดงวดถัดไป ด้วยระบบ AI และสถิติ
         </p>
         
-        {/* Draw Date Badge */}
-        <div className="inline-flex items-center gap-2 px-4 py-2 bg-slate-800/80 rounded-full border border-slate-700 shadow-lg mt-2">
-          <CalendarDaysIcon className="w-5 h-5 text-thai-gold" />
-          <span className="text-white font-semibold tracking-wide">
-            งวดวันที่: <span className="text-yellow-300">{currentSet.drawDate}</span>
-          </span>
+        {/* Game and Draw Countdown */}
+        <div>
+          <GameSelector value={game} onChange={handleGameChange} disabled={isRolling} />
         </div>
+        <DrawCountdown game={game} settings={notificationSettings} onSettingsChange={handleNotificationSettings} />
       </header>
 
       {/* Main Content Layout: 1 Column Mobile, 2 Columns (Main + Sidebar) on LG */}
@@ -119,7 +514,7 @@ const App: React.FC = () => {
             {/* Mode Switcher */}
             <div className="flex flex-wrap justify-center bg-slate-950 p-1.5 rounded-xl gap-1">
               <button
-                onClick={() => setMode(GeneratorMode.RNG)}
+                onClick={() => selectMode(GeneratorMode.RNG)}
                 className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-all text-xs md:text-sm font-medium ${
                   mode === GeneratorMode.RNG 
                     ? 'bg-slate-700 text-white shadow-md' 
@@ -131,7 +526,7 @@ const App: React.FC = () => {
               </button>
               
               <button
-                onClick={() => setMode(GeneratorMode.AI)}
+                onClick={() => selectMode(GeneratorMode.AI)}
                 className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-all text-xs md:text-sm font-medium ${
                   mode === GeneratorMode.AI 
                     ? 'bg-purple-700 text-white shadow-md shadow-purple-900/50' 
@@ -143,7 +538,7 @@ const App: React.FC = () => {
               </button>
 
               <button
-                onClick={() => setMode(GeneratorMode.HISTORY)}
+                onClick={() => selectMode(GeneratorMode.HISTORY)}
                 className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-all text-xs md:text-sm font-medium ${
                   mode === GeneratorMode.HISTORY 
                     ? 'bg-cyan-700 text-white shadow-md shadow-cyan-900/50' 
@@ -155,7 +550,7 @@ const App: React.FC = () => {
               </button>
 
               <button
-                onClick={() => setMode(GeneratorMode.GURU)}
+                onClick={() => selectMode(GeneratorMode.GURU)}
                 className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-all text-xs md:text-sm font-medium ${
                   mode === GeneratorMode.GURU 
                     ? 'bg-orange-700 text-white shadow-md shadow-orange-900/50' 
@@ -165,6 +560,46 @@ const App: React.FC = () => {
                 <FireIcon className="w-4 h-4 text-orange-300" />
                 <span>รวมเลขสำนักดัง</span>
               </button>
+
+              <button
+                onClick={() => selectMode(GeneratorMode.DREAM)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-all text-xs md:text-sm font-medium ${
+                  mode === GeneratorMode.DREAM 
+                    ? 'bg-pink-700 text-white shadow-md shadow-pink-900/50' 
+                    : 'text-slate-400 hover:text-white hover:bg-white/5'
+                }`}
+              >
+                <MoonIcon className="w-4 h-4 text-pink-300" />
+                <span>ทำนายฝัน</span>
+              </button>
+
+              <button
+                onClick={() => selectMode(GeneratorMode.NUMEROLOGY)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-all text-xs md:text-sm font-medium ${
+                  mode === GeneratorMode.NUMEROLOGY 
+                    ? 'bg-amber-700 text-white shadow-md shadow-amber-900/50' 
+                    : 'text-slate-400 hover:text-white hover:bg-white/5'
+                }`}
+              >
+                <CalculatorIcon className="w-4 h-4 text-amber-300" />
+                <span>เลขศาสตร์</span>
+              </button>
+
+              {customModes.map(template => (
+                <button
+                  key={template.id}
+                  onClick={() => selectCustomMode(template.id)}
+                  title={template.description}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-all text-xs md:text-sm font-medium ${
+                    mode === GeneratorMode.CUSTOM && customTemplateId === template.id
+                      ? 'bg-sky-700 text-white shadow-md shadow-sky-900/50'
+                      : 'text-slate-400 hover:text-white hover:bg-white/5'
+                  }`}
+                >
+                  <CommandLineIcon className="w-4 h-4 text-sky-300" />
+                  <span>{template.label}</span>
+                </button>
+              ))}
             </div>
 
             {/* Generate Button */}
@@ -179,7 +614,13 @@ const App: React.FC = () => {
                     ? 'bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white ring-2 ring-cyan-400/50'
                     : mode === GeneratorMode.GURU
                       ? 'bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-500 hover:to-red-500 text-white ring-2 ring-orange-400/50'
-                      : 'bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-400 hover:to-teal-400 text-white ring-2 ring-emerald-400/50'}
+                      : mode === GeneratorMode.DREAM
+                        ? 'bg-gradient-to-r from-pink-600 to-fuchsia-600 hover:from-pink-500 hover:to-fuchsia-500 text-white ring-2 ring-pink-400/50'
+                        : mode === GeneratorMode.NUMEROLOGY
+                          ? 'bg-gradient-to-r from-amber-600 to-yellow-600 hover:from-amber-500 hover:to-yellow-500 text-white ring-2 ring-amber-400/50'
+                          : mode === GeneratorMode.CUSTOM
+                            ? 'bg-gradient-to-r from-sky-600 to-indigo-600 hover:from-sky-500 hover:to-indigo-500 text-white ring-2 ring-sky-400/50'
+                            : 'bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-400 hover:to-teal-400 text-white ring-2 ring-emerald-400/50'}
                 ${isRolling ? 'opacity-70 cursor-wait' : ''}
               `}
             >
@@ -193,6 +634,12 @@ const App: React.FC = () => {
                   <ChartBarIcon className="w-5 h-5" />
                 ) : mode === GeneratorMode.GURU ? (
                   <FireIcon className="w-5 h-5" />
+                ) : mode === GeneratorMode.DREAM ? (
+                  <MoonIcon className="w-5 h-5" />
+                ) : mode === GeneratorMode.NUMEROLOGY ? (
+                  <CalculatorIcon className="w-5 h-5" />
+                ) : mode === GeneratorMode.CUSTOM ? (
+                  <CommandLineIcon className="w-5 h-5" />
                 ) : (
                   <BoltIcon className="w-5 h-5" />
                 )}
@@ -200,11 +647,102 @@ const App: React.FC = () => {
                  mode === GeneratorMode.AI ? 'ขอพร AI' : 
                  mode === GeneratorMode.HISTORY ? 'วิเคราะห์สถิติ' : 
                  mode === GeneratorMode.GURU ? 'รวมพลังเลขดัง' :
+                 mode === GeneratorMode.DREAM ? 'ทำนายฝัน' :
+                 mode === GeneratorMode.NUMEROLOGY ? 'คำนวณเลขศาสตร์' :
+                 mode === GeneratorMode.CUSTOM ? `สร้างด้วย${customTemplate?.label || 'โหมดกำหนดเอง'}` :
                  'สุ่มเลข'}
               </span>
             </button>
+
+            {isRolling && modelMode && (
+              <button
+                onClick={cancelGeneration}
+                className="flex items-center gap-1 px-4 py-3 rounded-xl text-sm font-medium bg-red-800 hover:bg-red-700 text-white"
+              >
+                <StopIcon className="w-4 h-4" />
+                ยกเลิก
+              </button>
+            )}
           </div>
 
+          {/* Model wait limit */}
+          {modelMode && (
+            <label className="w-full -mt-6 mb-8 flex items-center justify-end gap-2 text-xs text-slate-400">
+              <ClockIcon className="w-4 h-4" />
+              รอคำตอบ AI ไม่เกิน
+              <select
+                value={timeoutSeconds}
+                onChange={e => handleTimeoutChange(+e.target.value)}
+                className="bg-slate-800 border border-white/10 rounded px-1 py-0.5 text-white"
+              >
+                {TIMEOUT_CHOICES.map(s => <option key={s} value={s}>{s} วินาที</option>)}
+              </select>
+            </label>
+          )}
+
+          {/* Dream Input */}
+          {mode === GeneratorMode.DREAM && (
+            <div className="w-full mb-8 glass-panel p-4 rounded-xl border border-pink-500/20 space-y-3">
+              <label className="block text-sm font-bold text-pink-300">เล่าความฝันของคุณ (ไทยหรืออังกฤษ)</label>
+              <textarea
+                value={dreamText}
+                onChange={e => setDreamText(e.target.value)}
+                rows={3}
+                placeholder="เช่น ฝันเห็นงูใหญ่เลื้อยเข้าบ้าน แล้วยายที่เสียชีวิตไปแล้วมาหา"
+                className="w-full bg-slate-900 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-pink-500"
+              />
+              <div className="flex flex-wrap justify-between items-center gap-2 text-xs">
+                <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+                  <input type="checkbox" checked={dreamEnrich} onChange={e => setDreamEnrich(e.target.checked)} className="accent-pink-500" />
+                  ให้ AI ช่วยตีความเพิ่ม (ต้องเชื่อมต่ออินเทอร์เน็ต)
+                </label>
+                <button
+                  onClick={() => setShowDreamDictionary(v => !v)}
+                  className="flex items-center gap-1 text-pink-300 hover:text-pink-200"
+                >
+                  <BookOpenIcon className="w-4 h-4" />
+                  {showDreamDictionary ? 'ซ่อนพจนานุกรมความฝัน' : 'แก้ไขพจนานุกรมความฝัน'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {mode === GeneratorMode.DREAM && showDreamDictionary && (
+            <div className="w-full mb-8">
+              <DreamDictionary />
+            </div>
+          )}
+
+          {/* RNG Seed */}
+          {mode === GeneratorMode.RNG && (
+            <div className="w-full mb-8 glass-panel p-4 rounded-xl border border-emerald-500/20 flex flex-col md:flex-row md:items-center gap-2 text-xs">
+              <label className="text-sm font-bold text-emerald-300 whitespace-nowrap">Seed (ไม่บังคับ)</label>
+              <input
+                value={rngSeed}
+                onChange={e => setRngSeed(e.target.value)}
+                placeholder="เว้นว่างเพื่อสุ่ม seed ใหม่ทุกครั้ง"
+                className="flex-1 bg-slate-900 border border-white/10 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-emerald-500"
+              />
+              <button
+                onClick={() => setShowConstraints(s => !s)}
+                className={`px-3 py-2 rounded-lg whitespace-nowrap transition-all ${hasConstraints(rngConstraints) ? 'bg-emerald-700 text-white' : 'text-emerald-300 hover:bg-white/5'}`}
+              >
+                {showConstraints ? 'ซ่อนเงื่อนไข' : hasConstraints(rngConstraints) ? 'เงื่อนไข (ใช้งานอยู่)' : 'ตั้งเงื่อนไข'}
+              </button>
+            </div>
+          )}
+
+          {mode === GeneratorMode.RNG && showConstraints && (
+            <div className="w-full mb-8 glass-panel p-4 rounded-xl border border-emerald-500/20">
+              <ConstraintPanel game={game} value={rngConstraints} onChange={setRngConstraints} />
+            </div>
+          )}
+
+          {/* Numerology Profiles */}
+          {mode === GeneratorMode.NUMEROLOGY && (
+            <NumerologyProfiles selected={numerologyProfile} onSelect={setNumerologyProfile} />
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="mb-6 p-4 bg-red-900/50 border border-red-500/50 text-red-200 rounded-lg max-w-2xl w-full text-center">
@@ -213,30 +751,42 @@ const App: React.FC = () => {
           )}
 
           {/* AI Reasoning / Analysis */}
-          {(mode !== GeneratorMode.RNG) && currentSet.reasoning && !isRolling && (
+          {(mode !== GeneratorMode.RNG) && reasoning && (
             <div className="mb-8 w-full animate-bounce-short">
               <div className={`glass-panel p-6 rounded-xl border-l-4 ${
                 mode === GeneratorMode.HISTORY ? 'border-cyan-500' : 
                 mode === GeneratorMode.GURU ? 'border-orange-500' :
+                mode === GeneratorMode.DREAM ? 'border-pink-500' :
+                mode === GeneratorMode.NUMEROLOGY ? 'border-amber-500' :
+                mode === GeneratorMode.CUSTOM ? 'border-sky-500' :
                 'border-purple-500'
               }`}>
                  <div className="flex flex-col md:flex-row justify-between items-start mb-2 gap-2">
                    <h4 className={`flex items-center gap-2 font-bold ${
                      mode === GeneratorMode.HISTORY ? 'text-cyan-300' : 
                      mode === GeneratorMode.GURU ? 'text-orange-300' :
+                     mode === GeneratorMode.DREAM ? 'text-pink-300' :
+                     mode === GeneratorMode.NUMEROLOGY ? 'text-amber-300' :
+                     mode === GeneratorMode.CUSTOM ? 'text-sky-300' :
                      'text-purple-300'
                    }`}>
                      {mode === GeneratorMode.HISTORY ? <ChartBarIcon className="w-5 h-5"/> : 
                       mode === GeneratorMode.GURU ? <FireIcon className="w-5 h-5"/> :
+                      mode === GeneratorMode.DREAM ? <MoonIcon className="w-5 h-5"/> :
+                      mode === GeneratorMode.NUMEROLOGY ? <CalculatorIcon className="w-5 h-5"/> :
+                      mode === GeneratorMode.CUSTOM ? <CommandLineIcon className="w-5 h-5"/> :
                       <SparklesIcon className="w-5 h-5" />} 
                      
                      {mode === GeneratorMode.HISTORY ? 'บทวิเคราะห์สถิติ' : 
                       mode === GeneratorMode.GURU ? 'สรุปจากสำนักดัง' :
+                      mode === GeneratorMode.DREAM ? 'คำทำนายฝัน' :
+                      mode === GeneratorMode.NUMEROLOGY ? 'ขั้นตอนคำนวณเลขศาสตร์' :
+                      mode === GeneratorMode.CUSTOM ? `คำทำนายจาก${currentSet.promptTemplate?.label || customTemplate?.label || 'โหมดกำหนดเอง'}` :
                       "คำทำนายจาก AI"}
                    </h4>
 
                    {/* Confidence Badge */}
-                   {currentSet.confidence !== undefined && (
+                   {!isRolling && currentSet.confidence !== undefined && (
                      <div className={`px-3 py-1 rounded-full text-sm font-bold border ${
                        currentSet.confidence > 75 ? 'bg-green-900/50 border-green-500 text-green-300' :
                        currentSet.confidence > 50 ? 'bg-yellow-900/50 border-yellow-500 text-yellow-300' :
@@ -247,10 +797,16 @@ const App: React.FC = () => {
                    )}
                  </div>
                  
-                 <p className="text-gray-200 italic leading-relaxed mt-2 md:mt-0">"{currentSet.reasoning}"</p>
+                 <p className="text-gray-200 italic leading-relaxed mt-2 md:mt-0 whitespace-pre-line">
+                   "{reasoning}{isRolling && <span className="not-italic animate-pulse">▍</span>}"
+                 </p>
+
+                 {!isRolling && currentSet.promptTemplate && (
+                   <p className="mt-2 text-[10px] text-slate-500">พรอมต์: {currentSet.promptTemplate.label} เวอร์ชัน {currentSet.promptTemplate.version}</p>
+                 )}
 
                  {/* Sources List */}
-                 {currentSet.sources && currentSet.sources.length > 0 && (
+                 {!isRolling && currentSet.sources && currentSet.sources.length > 0 && (
                   <div className="mt-4 pt-3 border-t border-white/10">
                     <div className="flex items-center gap-2 text-xs text-gray-400 mb-2 font-bold uppercase tracking-wider">
                       <TagIcon className="w-3 h-3" />
@@ -266,7 +822,11 @@ const App: React.FC = () => {
                               ? 'bg-orange-900/30 border-orange-500/30 text-orange-200' 
                               : mode === GeneratorMode.HISTORY
                                 ? 'bg-cyan-900/30 border-cyan-500/30 text-cyan-200'
-                                : 'bg-purple-900/30 border-purple-500/30 text-purple-200'
+                                : mode === GeneratorMode.DREAM
+                                  ? 'bg-pink-900/30 border-pink-500/30 text-pink-200'
+                                  : mode === GeneratorMode.NUMEROLOGY
+                                    ? 'bg-amber-900/30 border-amber-500/30 text-amber-200'
+                                    : 'bg-purple-900/30 border-purple-500/30 text-purple-200'
                             }
                           `}
                         >
@@ -286,35 +846,37 @@ const App: React.FC = () => {
             {/* Prize 1: Spans full width */}
             <div className="md:col-span-2">
               <Section 
-                title="รางวัลที่ 1" 
-                subtitle="6 หลัก"
+                title={setGameDef.prize1.label} 
+                subtitle={`${setGameDef.prize1.digits} หลัก`}
                 numbers={[currentSet.prize1]}
                 isRolling={isRolling}
               />
             </div>
 
-            {/* 3 Digits Front */}
-            <Section 
-              title="เลขหน้า 3 ตัว" 
-              subtitle="2 รางวัล"
-              numbers={currentSet.front3}
-              isRolling={isRolling}
-              cols={2}
-            />
+            {/* 3 Digits Front (THAI only) */}
+            {setGameDef.front3 && (
+              <Section 
+                title={setGameDef.front3.label} 
+                subtitle={`${setGameDef.front3.count} รางวัล`}
+                numbers={currentSet.front3}
+                isRolling={isRolling}
+                cols={2}
+              />
+            )}
 
-            {/* 3 Digits Rear */}
+            {/* 3 Digits Rear, or 3 ตัวบน from prize 1 */}
             <Section 
-              title="เลขท้าย 3 ตัว" 
-              subtitle="2 รางวัล"
+              title={setGameDef.rear3.label} 
+              subtitle={setGameDef.rear3.fromPrize1 ? `3 หลักท้ายของ${setGameDef.prize1.label}` : `${setGameDef.rear3.count} รางวัล`}
               numbers={currentSet.rear3}
               isRolling={isRolling}
-              cols={2}
+              cols={setGameDef.rear3.count}
             />
 
-            {/* 2 Digits - Center aligned in last row */}
-            <div className="md:col-span-2 md:w-1/2 md:mx-auto">
+            {/* 2 Digits - Center aligned in last row, or beside 3 ตัวบน */}
+            <div className={setGameDef.front3 ? 'md:col-span-2 md:w-1/2 md:mx-auto' : ''}>
               <Section 
-                title="เลขท้าย 2 ตัว" 
+                title={setGameDef.rear2.label} 
                 subtitle="1 รางวัล"
                 numbers={[currentSet.rear2]}
                 isRolling={isRolling}
@@ -322,6 +884,21 @@ const App: React.FC = () => {
             </div>
 
           </div>
+
+          {/* Seed of the current RNG set */}
+          {currentSet.seed && !isRolling && (
+            <div className="mt-6 flex flex-wrap justify-center items-center gap-3 text-xs text-slate-400">
+              <span>Seed: <span className="font-mono text-emerald-300">{currentSet.seed}</span></span>
+              <button onClick={() => handleCopySeed(currentSet)} className="flex items-center gap-1 hover:text-white">
+                <ClipboardDocumentIcon className="w-4 h-4" />
+                คัดลอก
+              </button>
+              <button onClick={() => handleVerify(currentSet)} className="flex items-center gap-1 hover:text-white">
+                <ShieldCheckIcon className="w-4 h-4" />
+                ตรวจสอบ
+              </button>
+            </div>
+          )}
         </div>
 
         {/* RIGHT: Latest Results Sidebar */}
@@ -333,7 +910,20 @@ const App: React.FC = () => {
                
                <div className="flex items-center gap-2 mb-6 border-b border-white/10 pb-4">
                  <CheckBadgeIcon className="w-6 h-6 text-green-400" />
-                 <h3 className="text-xl font-bold text-white">ผลรางวัลล่าสุด</h3>
+                 <div className="flex-1">
+                   <h3 className="text-xl font-bold text-white">ผล{pastGameDef.shortName}ล่าสุด</h3>
+                   {pastUpdatedAt && (
+                     <div className="text-[10px] text-slate-500">อัปเดตล่าสุด {formatUpdatedAt(pastUpdatedAt)}</div>
+                   )}
+                 </div>
+                 <button
+                   onClick={() => loadData(true)}
+                   disabled={refreshing}
+                   title="โหลดข้อมูลใหม่"
+                   className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-white/5 disabled:opacity-50 transition-all"
+                 >
+                   <ArrowPathIcon className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
+                 </button>
                </div>
 
                {loadingPast ? (
@@ -341,7 +931,7 @@ const App: React.FC = () => {
                    <ArrowPathIcon className="w-8 h-8 text-slate-500 animate-spin" />
                    <p className="text-slate-500 text-sm">กำลังโหลดข้อมูล...</p>
                  </div>
-               ) : pastDraw ? (
+               ) : pastDraw && !pastDraw.degraded ? (
                  <div className="space-y-6">
                     <div className="text-center">
                       <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">งวดประจำวันที่</div>
@@ -349,43 +939,50 @@ const App: React.FC = () => {
                     </div>
 
                     <div className="bg-slate-800/50 p-4 rounded-lg text-center border border-white/5">
-                      <div className="text-slate-400 text-xs mb-1">รางวัลที่ 1</div>
+                      <div className="text-slate-400 text-xs mb-1">{pastGameDef.prize1.label}</div>
                       <div className="text-3xl font-mono font-bold text-white tracking-widest">{pastDraw.prize1}</div>
                     </div>
 
-                    <div className="grid grid-cols-2 gap-3">
-                      <div className="bg-slate-800/30 p-3 rounded-lg text-center">
-                         <div className="text-slate-500 text-[10px] mb-1">เลขหน้า 3 ตัว</div>
-                         <div className="font-mono font-bold text-cyan-300">{pastDraw.front3.join('  ')}</div>
-                      </div>
+                    <div className={`grid gap-3 ${pastGameDef.front3 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                      {pastGameDef.front3 && (
+                        <div className="bg-slate-800/30 p-3 rounded-lg text-center">
+                           <div className="text-slate-500 text-[10px] mb-1">{pastGameDef.front3.label}</div>
+                           <div className="font-mono font-bold text-cyan-300">{pastDraw.front3.join('  ')}</div>
+                        </div>
+                      )}
                       <div className="bg-slate-800/30 p-3 rounded-lg text-center">
-                         <div className="text-slate-500 text-[10px] mb-1">เลขท้าย 3 ตัว</div>
+                         <div className="text-slate-500 text-[10px] mb-1">{pastGameDef.rear3.label}</div>
                          <div className="font-mono font-bold text-pink-300">{pastDraw.rear3.join('  ')}</div>
                       </div>
                     </div>
 
                     <div className="bg-slate-800/50 p-4 rounded-lg text-center border border-white/5 relative overflow-hidden">
                       <div className="absolute inset-0 bg-yellow-500/5"></div>
-                      <div className="text-slate-400 text-xs mb-1 relative">เลขท้าย 2 ตัว</div>
+                      <div className="text-slate-400 text-xs mb-1 relative">{pastGameDef.rear2.label}</div>
                       <div className="text-4xl font-mono font-bold text-yellow-400 relative">{pastDraw.rear2}</div>
                     </div>
                     
                     {pastDraw.sourceUrl && (
                        <a href={pastDraw.sourceUrl} target="_blank" rel="noopener noreferrer" className="flex items-center justify-center gap-1 text-xs text-blue-400 hover:text-blue-300 mt-4 transition-colors">
                          <LinkIcon className="w-3 h-3" />
-                         ตรวจสอบจากกองสลาก
+                         ตรวจสอบจาก{pastGameDef.officialSource}
                        </a>
                     )}
                  </div>
                ) : (
-                 <div className="text-center text-red-400 py-4">ไม่สามารถโหลดข้อมูลได้</div>
+                 <div className="text-center text-red-400 py-4">
+                   {pastDraw?.degraded ? 'ผลรางวัลที่ได้รับไม่ผ่านการตรวจสอบ กรุณาโหลดใหม่อีกครั้ง' : 'ไม่สามารถโหลดข้อมูลได้'}
+                 </div>
                )}
             </div>
           </div>
 
+          {/* Ticket Checker */}
+          <TicketChecker draw={pastDraw} game={game} />
+
           <div className="bg-slate-900/50 rounded-xl p-4 border border-white/5 text-center">
             <p className="text-xs text-slate-500 leading-relaxed">
-              ผลรางวัลถูกค้นหาโดย AI โปรดตรวจสอบกับสำนักงานสลากกินแบ่งรัฐบาลเพื่อความถูกต้อง
+              ผลรางวัลถูกค้นหาโดย AI โปรดตรวจสอบกับ{pastGameDef.officialSource}เพื่อความถูกต้อง
             </p>
           </div>
         </div>
@@ -398,6 +995,9 @@ const App: React.FC = () => {
             <div>
                <h2 className="text-2xl font-bold text-white">เลขเด็ดสำนักดัง & สถิติ</h2>
                <p className="text-slate-400 text-sm">แยกรายสำนัก: แนวทางเลขเด็ดงวดปัจจุบัน และประวัติความแม่นยำ</p>
+               {guruUpdatedAt && (
+                 <p className="text-slate-500 text-xs">อัปเดตล่าสุด {formatUpdatedAt(guruUpdatedAt)}</p>
+               )}
             </div>
         </div>
 
@@ -409,69 +1009,104 @@ const App: React.FC = () => {
         ) : (
            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
               {guruStats.map((guru) => (
-                  <div key={guru.id} className="glass-panel p-5 rounded-xl border border-white/5 hover:border-white/20 transition-all flex flex-col h-full bg-slate-900/40 relative overflow-hidden group">
-                      
-                      {/* Highlight Background Effect */}
-                      <div className="absolute top-0 right-0 p-3 opacity-10 group-hover:opacity-20 transition-opacity">
-                         <FireIcon className="w-20 h-20 text-white transform rotate-12"/>
-                      </div>
+                  <GuruCard
+                    key={guru.id}
+                    guru={guru}
+                    drawDate={currentSet.drawDate}
+                    measured={guruMeasured[guruKey(guru)]}
+                    onExpand={handleExpand}
+                  />
+              ))}
+           </div>
+        )}
 
-                      {/* Header */}
-                      <div className="flex justify-between items-start mb-4 relative z-10">
-                         <div>
-                            <h3 className="font-bold text-lg text-white">{guru.name}</h3>
-                            <span className="text-xs text-slate-400 bg-slate-800 px-2 py-0.5 rounded">{guru.alias}</span>
-                         </div>
-                         <div className="flex flex-col items-end">
-                            <div className="text-xl font-bold text-green-400">{guru.accuracy}%</div>
-                            <div className="text-[10px] text-slate-500">ความแม่นยำ</div>
-                         </div>
-                      </div>
+        <div className="mt-6">
+          <GuruRegistry game={game} onChange={reloadGuruCards} />
+        </div>
+      </div>
 
-                      {/* CURRENT PREDICTION BIG DISPLAY */}
-                      <div className="bg-gradient-to-br from-slate-800/80 to-slate-900/80 p-4 rounded-lg border border-yellow-500/20 mb-4 text-center relative z-10 shadow-inner">
-                         <div className="text-[10px] text-yellow-400 uppercase tracking-wider mb-2 font-bold">เลขเด็ดงวดนี้ ({currentSet.drawDate})</div>
-                         
-                         <div className="flex justify-center items-baseline gap-3">
-                           {/* Top Pick */}
-                           <div className="relative">
-                             <div className="text-3xl font-bold text-white drop-shadow-md">{guru.nextDrawPrediction?.topPick || "?"}</div>
-                             <div className="text-[8px] text-slate-500 absolute -bottom-3 w-full text-center">เด่นสุด</div>
-                           </div>
-                           
-                           {/* Secondary Picks */}
-                           {guru.nextDrawPrediction?.secondary?.slice(0, 2).map((num, i) => (
-                              <div key={i} className="text-xl font-semibold text-slate-400">{num}</div>
-                           ))}
-                         </div>
-                      </div>
+      {/* Consensus Ranking */}
+      <div className="w-full max-w-7xl mt-12">
+        <ConsensusPanel
+          game={game}
+          gurus={guruStats}
+          measured={guruMeasured}
+          refreshKey={historyVersion}
+          create={createSet}
+          onSaved={() => setHistoryVersion(v => v + 1)}
+          onSend={handleSendPlayNumbers}
+          disabled={isRolling}
+        />
+      </div>
 
-                      <p className="text-xs text-slate-300 mb-4 flex-grow line-clamp-2 min-h-[2.5em]">{guru.description}</p>
+      {/* Permutation Tools */}
+      <div className="w-full max-w-7xl mt-12">
+        <PermutationTool currentSet={currentSet} gurus={guruStats} preset={expandPreset} onSend={handleSendPlayNumbers} />
+      </div>
 
-                      {/* Recent Wins List */}
-                      <div className="mt-auto relative z-10">
-                        <div className="text-[10px] uppercase tracking-wider text-slate-500 font-bold mb-2 flex items-center gap-1">
-                            <StarIcon className="w-3 h-3 text-yellow-500" />
-                            ผลงานย้อนหลัง
-                        </div>
-                        <div className="space-y-2">
-                           {guru.wins.length > 0 ? guru.wins.map((win, idx) => (
-                               <div key={idx} className="flex justify-between items-center bg-slate-800/50 p-2 rounded text-xs border border-white/5">
-                                   <div className="text-slate-400">{win.date}</div>
-                                   <div className="flex items-center gap-2">
-                                       <span className="text-yellow-500 bg-yellow-500/10 px-1.5 py-0.5 rounded">{win.number}</span>
-                                       <span className="text-slate-500 text-[10px]">{win.prize}</span>
-                                   </div>
-                               </div>
-                           )) : (
-                               <div className="text-xs text-slate-600 text-center py-2">ไม่มีข้อมูลการถูกรางวัลเร็วๆ นี้</div>
-                           )}
-                        </div>
-                      </div>
-                  </div>
-              ))}
-           </div>
-        )}
+      {/* Batch Generation */}
+      <div className="w-full max-w-7xl mt-12">
+        <BatchPanel
+          game={game}
+          create={createSet}
+          defaultMode={mode}
+          onSaved={() => setHistoryVersion(v => v + 1)}
+          playNumbers={playNumbers}
+          onPlayNumbersChange={setPlayNumbers}
+        />
+      </div>
+
+      {/* Ticket Ledger */}
+      <div className="w-full max-w-7xl mt-12">
+        <TicketLedger refreshKey={ledgerVersion} onChange={() => setLedgerVersion(v => v + 1)} />
+      </div>
+
+      {/* Group Pools */}
+      <div className="w-full max-w-7xl mt-12">
+        <PoolManager refreshKey={ledgerVersion} onChange={() => setLedgerVersion(v => v + 1)} />
+      </div>
+
+      {/* Prediction History */}
+      <div className="w-full max-w-7xl mt-12">
+        <PredictionHistory
+          refreshKey={historyVersion}
+          onSelect={handleSelectSaved}
+          onRegenerate={handleRegenerate}
+          onVerify={handleVerify}
+          disabled={isRolling}
+        />
+      </div>
+
+      {/* Prompt Templates */}
+      <div className="w-full max-w-7xl mt-12">
+        <PromptSettings
+          game={game}
+          templates={promptTemplates}
+          onChange={() => setTemplatesVersion(v => v + 1)}
+          onUseMode={id => {
+            selectCustomMode(id);
+            window.scrollTo({ top: 0, behavior: 'smooth' });
+          }}
+        />
+      </div>
+
+      {/* Seed Verification */}
+      <div className="w-full max-w-7xl mt-12">
+        <SeedVerifier target={verifyTarget} />
+      </div>
+
+      {/* Backtesting */}
+      <div className="w-full max-w-7xl mt-12">
+        <BacktestPanel game={game} refreshKey={historyVersion} />
+      </div>
+
+      {/* Local Draw Archive */}
+      <div className="w-full max-w-7xl mt-12">
+        <DrawArchive
+          game={game}
+          refreshKey={archiveVersion}
+          onChange={() => setArchiveVersion(v => v + 1)}
+        />
       </div>
 
       {/* Footer */}
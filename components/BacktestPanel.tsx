@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { GameId, ModeBacktest } from '../types';
+import { listPredictions } from '../services/predictionHistory';
+import { summarizeMode, randomBaseline } from '../services/backtest';
+import { GAMES, gameOf } from '../services/games';
+import { MODE_LABELS } from '../constants';
+import { BeakerIcon } from '@heroicons/react/24/solid';
+
+interface BacktestPanelProps {
+  game: GameId;        // Only sets of this game are compared, against its own random baseline
+  refreshKey?: number; // Bump after predictions are scored
+}
+
+const percent = (value: number, digits = 1) => `${(value * 100).toFixed(digits)}%`;
+
+export const BacktestPanel: React.FC<BacktestPanelProps> = ({ game, refreshKey = 0 }) => {
+  const [rows, setRows] = useState<ModeBacktest[]>([]);
+  const g = GAMES[game];
+  const baseline = randomBaseline(game);
+
+  useEffect(() => {
+    listPredictions()
+      .then(predictions => {
+        const forGame = predictions.filter(p => gameOf(p) === game);
+        setRows(Object.keys(MODE_LABELS).map(mode => summarizeMode(mode, forGame)));
+      })
+      .catch(e => console.error("Failed to load backtest data", e));
+  }, [game, refreshKey]);
+
+  const totalScored = rows.reduce((sum, r) => sum + r.sets, 0);
+
+  // Highlight modes that beat the random expectation on a metric
+  const cell = (value: number, baseline: number, sets: number, format: (v: number) => string) => (
+    <td className={`px-3 py-2 text-right font-mono ${
+      sets === 0 ? 'text-slate-600' : value > baseline ? 'text-green-300' : 'text-slate-300'
+    }`}>
+      {sets === 0 ? '-' : format(value)}
+    </td>
+  );
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20">
+      <div className="flex items-center gap-2 mb-4">
+        <BeakerIcon className="w-6 h-6 text-emerald-300" />
+        <div>
+          <h3 className="text-xl font-bold text-white">ทดสอบย้อนหลัง (Backtest)</h3>
+          <p className="text-slate-400 text-xs">
+            เทียบชุดเลข{g.name}ที่บันทึกไว้กับผลรางวัลจริงในคลัง ตรวจแล้ว {totalScored} ชุด
+          </p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-400 border-b border-white/10">
+              <th className="px-3 py-2 text-left">โหมด</th>
+              <th className="px-3 py-2 text-right">ชุด</th>
+              <th className="px-3 py-2 text-right">งวด</th>
+              <th className="px-3 py-2 text-right">{g.betting ? 'ถูกรางวัล (แทงตามชุด)' : `ถูกรางวัล (${g.prize1.label}เป็นสลาก)`}</th>
+              <th className="px-3 py-2 text-right">ถูก 2 ตัวท้าย</th>
+              <th className="px-3 py-2 text-right">ถูก 3 ตัว / ชุด</th>
+              <th className="px-3 py-2 text-right">ตรงรายหลัก / {g.prize1.digits}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.mode} className="border-b border-white/5">
+                <td className="px-3 py-2 text-white">{MODE_LABELS[row.mode]}</td>
+                <td className="px-3 py-2 text-right font-mono text-slate-300">{row.sets}</td>
+                <td className="px-3 py-2 text-right font-mono text-slate-300">{row.draws}</td>
+                {cell(row.prizeHitRate, baseline.prizeHitRate, row.sets, v => percent(v, 2))}
+                {cell(row.rear2HitRate, baseline.rear2HitRate, row.sets, v => percent(v))}
+                {cell(row.threeDigitHitsPerSet, baseline.threeDigitHitsPerSet, row.sets, v => v.toFixed(3))}
+                {cell(row.avgDigitMatches, baseline.avgDigitMatches, row.sets, v => v.toFixed(2))}
+              </tr>
+            ))}
+            <tr className="text-slate-500 italic">
+              <td className="px-3 py-2">ค่าคาดหมายของการสุ่ม</td>
+              <td className="px-3 py-2 text-right">-</td>
+              <td className="px-3 py-2 text-right">-</td>
+              <td className="px-3 py-2 text-right font-mono">{percent(baseline.prizeHitRate, 2)}</td>
+              <td className="px-3 py-2 text-right font-mono">{percent(baseline.rear2HitRate)}</td>
+              <td className="px-3 py-2 text-right font-mono">{baseline.threeDigitHitsPerSet.toFixed(3)}</td>
+              <td className="px-3 py-2 text-right font-mono">{baseline.avgDigitMatches.toFixed(2)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-4 text-[10px] text-slate-500 leading-relaxed">
+        ตัวเลขสีเขียวคือสูงกว่าค่าคาดหมายของการสุ่ม จำนวนชุดที่น้อยทำให้ผลแกว่งได้มาก ควรดูร่วมกับจำนวนงวดที่ตรวจแล้ว
+      </p>
+    </div>
+  );
+};
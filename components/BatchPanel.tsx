@@ -0,0 +1,346 @@
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { GameId, GeneratorMode, LotterySet, PlayNumber } from '../types';
+import { MODE_LABELS } from '../constants';
+import { BATCH_MAX, BATCH_MIN, BatchProgress, BatchResult, DedupeRule, clampBatchCount, generateBatch } from '../services/batch';
+import { ExportTable, downloadCsv, downloadJson, printTable } from '../services/exporter';
+import { savePrediction } from '../services/predictionHistory';
+import { GAMES } from '../services/games';
+import { QueueListIcon, ArrowDownTrayIcon, PrinterIcon, ChevronUpIcon, ChevronDownIcon, StopIcon, BookmarkIcon, XMarkIcon } from '@heroicons/react/24/solid';
+
+interface BatchPanelProps {
+  game: GameId;    // The game `create` builds sets for; sets the column labels
+  create: (mode: GeneratorMode, index: number) => Promise<LotterySet>;
+  defaultMode: GeneratorMode;
+  onSaved: () => void;   // Called after the batch is added to the prediction history
+  playNumbers: PlayNumber[];   // 2 and 3 digit numbers sent from the permutation tools
+  onPlayNumbersChange: (numbers: PlayNumber[]) => void;
+}
+
+type SortKey = 'index' | 'source' | 'prize1' | 'front3' | 'rear3' | 'rear2';
+
+interface Row extends LotterySet {
+  index: number;   // 1-based order of generation
+}
+
+const DEDUPE_OPTIONS: { value: DedupeRule; label: string }[] = [
+  { value: 'TICKET', label: 'ไม่ให้รางวัลที่ 1 ซ้ำกัน' },
+  { value: 'SET', label: 'ไม่ให้ทั้งชุดซ้ำกัน' },
+  { value: 'OFF', label: 'ไม่ตัดตัวซ้ำ' },
+];
+
+// Number columns follow the game's slots; THAI has all four
+const numberColumns = (game: GameId): { key: 'prize1' | 'front3' | 'rear3' | 'rear2'; label: string }[] => {
+  const g = GAMES[game];
+  return [
+    { key: 'prize1', label: g.prize1.label },
+    ...(g.front3 ? [{ key: 'front3' as const, label: g.front3.label }] : []),
+    { key: 'rear3', label: g.rear3.label },
+    { key: 'rear2', label: g.rear2.label },
+  ];
+};
+
+const columns = (game: GameId): { key: SortKey; label: string }[] => [
+  { key: 'index', label: '#' },
+  { key: 'source', label: 'โหมด' },
+  ...numberColumns(game),
+];
+
+const cellText = (row: Row, key: 'prize1' | 'front3' | 'rear3' | 'rear2'): string =>
+  key === 'front3' || key === 'rear3' ? row[key].join(' ') : row[key];
+
+const sortValue = (row: Row, key: SortKey): string | number =>
+  key === 'index' ? row.index : key === 'front3' || key === 'rear3' ? row[key].join(' ') : row[key];
+
+const toTable = (rows: Row[], game: GameId): ExportTable => ({
+  title: `ชุดเลข${GAMES[game].name} ${rows.length} ชุด งวด ${rows[0]?.drawDate || '-'}`,
+  headers: ['#', 'โหมด', 'งวด', ...numberColumns(game).map(c => c.label), 'seed'],
+  rows: rows.map(r => [
+    r.index,
+    MODE_LABELS[r.source] || r.source,
+    r.drawDate || '',
+    ...numberColumns(game).map(c => cellText(r, c.key)),
+    r.seed || '',
+  ]),
+});
+
+const playTable = (numbers: PlayNumber[]): ExportTable => ({
+  title: `เลขเล่น ${numbers.length} ตัว`,
+  headers: ['เลข', 'ประเภท', 'ที่มา'],
+  rows: numbers.map(n => [n.number, `${n.number.length} ตัว`, n.origin]),
+});
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({ game, create, defaultMode, onSaved, playNumbers, onPlayNumbersChange }) => {
+  const [count, setCount] = useState(20);
+  const [modes, setModes] = useState<GeneratorMode[]>([defaultMode]);
+  const [dedupe, setDedupe] = useState<DedupeRule>('TICKET');
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [result, setResult] = useState<BatchResult | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'index', desc: false });
+  const [saved, setSaved] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+  const savedCount = useRef(0);   // Sets of the current batch already in the history
+
+  // Stop a running batch when the panel closes
+  useEffect(() => () => abort.current?.abort(), []);
+
+  // Sets of the previous game no longer match the columns or the draw
+  useEffect(() => {
+    abort.current?.abort();
+    abort.current = null;
+    setResult(null);
+    setProgress(null);
+  }, [game]);
+
+  const running = progress !== null;
+
+  const rows = useMemo<Row[]>(() => {
+    const list = (result?.sets || []).map((set, i) => ({ ...set, index: i + 1 }));
+    const dir = sort.desc ? -1 : 1;
+    return list.sort((a, b) => {
+      const x = sortValue(a, sort.key);
+      const y = sortValue(b, sort.key);
+      return (x < y ? -1 : x > y ? 1 : a.index - b.index) * dir;
+    });
+  }, [result, sort]);
+
+  const toggleMode = (mode: GeneratorMode) =>
+    setModes(modes.includes(mode) ? modes.filter(m => m !== mode) : [...modes, mode]);
+
+  const handleSort = (key: SortKey) =>
+    setSort(s => ({ key, desc: s.key === key ? !s.desc : false }));
+
+  const handleRun = async () => {
+    if (modes.length === 0) return setMessage('เลือกอย่างน้อยหนึ่งโหมด');
+    const controller = new AbortController();
+    abort.current = controller;
+    setMessage(null);
+    setResult(null);
+    setSaved(false);
+    savedCount.current = 0;
+    setProgress({ done: 0, total: clampBatchCount(count) });
+
+    const batch = await generateBatch({ count, modes, dedupe }, create, setProgress, controller.signal);
+    if (abort.current === controller) {
+      setResult(batch);
+      setProgress(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!result) return;
+    setMessage(null);
+    // A retry after a failure continues where the last attempt stopped, so no set is saved twice
+    try {
+      for (; savedCount.current < result.sets.length; savedCount.current++) {
+        await savePrediction(result.sets[savedCount.current]);
+      }
+    } catch (e) {
+      console.error("Failed to save batch", e);
+      setMessage(`บันทึกลงประวัติไม่สำเร็จ (บันทึกแล้ว ${savedCount.current} จาก ${result.sets.length} ชุด) กดบันทึกอีกครั้งเพื่อบันทึกส่วนที่เหลือ`);
+      if (savedCount.current > 0) onSaved();
+      return;
+    }
+    setSaved(true);
+    onSaved();
+  };
+
+  const handlePrint = (table: ExportTable) => {
+    if (!printTable(table, `สร้างเมื่อ ${new Date().toLocaleString('th-TH')}`)) {
+      setMessage('เบราว์เซอร์บล็อกหน้าต่างพิมพ์ กรุณาอนุญาต popup');
+    }
+  };
+
+  const fileName = `lotto-sets-${rows[0]?.drawIsoDate || 'batch'}`;
+  const inputClass = "bg-slate-900 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-thai-gold";
+  const buttonClass = "flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-300 hover:text-white hover:bg-white/5 disabled:opacity-30";
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20">
+      <div className="flex items-center gap-2 mb-4">
+        <QueueListIcon className="w-6 h-6 text-thai-gold" />
+        <div>
+          <h3 className="text-xl font-bold text-white">สร้างหลายชุดพร้อมกัน</h3>
+          <p className="text-slate-400 text-xs">สร้าง {BATCH_MIN}-{BATCH_MAX} ชุด จากโหมดเดียวหรือหลายโหมดสลับกัน ใช้ค่าที่ตั้งไว้ของแต่ละโหมด</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 text-xs text-slate-400">
+        <label className="flex flex-col gap-1">
+          จำนวนชุด
+          <input
+            type="number"
+            min={BATCH_MIN}
+            max={BATCH_MAX}
+            value={count}
+            onChange={e => setCount(+e.target.value)}
+            onBlur={() => setCount(clampBatchCount(count))}
+            className={`${inputClass} w-24`}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          ตัดตัวซ้ำ
+          <select value={dedupe} onChange={e => setDedupe(e.target.value as DedupeRule)} className={inputClass}>
+            {DEDUPE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </label>
+        <div className="flex flex-col gap-1">
+          โหมด
+          <div className="flex flex-wrap gap-1">
+            {Object.values(GeneratorMode).map(mode => (
+              <button
+                key={mode}
+                onClick={() => toggleMode(mode)}
+                className={`px-2 py-1.5 rounded-lg border transition-all ${
+                  modes.includes(mode) ? 'bg-yellow-900/40 border-yellow-500/50 text-yellow-300' : 'border-slate-700 text-slate-400'
+                }`}
+              >
+                {MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+        </div>
+        {running ? (
+          <button
+            onClick={() => abort.current?.abort()}
+            className="flex items-center gap-1 px-4 py-2 rounded-lg text-sm font-medium bg-red-800 hover:bg-red-700 text-white"
+          >
+            <StopIcon className="w-4 h-4" />
+            หยุด
+          </button>
+        ) : (
+          <button onClick={handleRun} className="px-4 py-2 rounded-lg text-sm font-medium bg-yellow-700 hover:bg-yellow-600 text-white">
+            สร้าง {clampBatchCount(count)} ชุด
+          </button>
+        )}
+      </div>
+
+      {message && <div className="mt-3 text-xs text-red-300">{message}</div>}
+
+      {progress && (
+        <div className="mt-4 space-y-1 text-xs text-slate-400">
+          <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+            <div className="h-full bg-thai-gold transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+          </div>
+          <div>
+            {progress.done}/{progress.total} ชุด
+            {progress.waitingSeconds && ` · เซิร์ฟเวอร์จำกัดจำนวนครั้ง รอ ${progress.waitingSeconds} วินาที`}
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-wrap justify-between items-center gap-2 text-xs">
+            <div className="text-slate-400">
+              ได้ {result.sets.length} ชุด
+              {result.duplicates > 0 && ` · ตัดตัวซ้ำ ${result.duplicates} ชุด`}
+              {result.cancelled && ' · หยุดก่อนครบ'}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => downloadCsv(`${fileName}.csv`, toTable(rows, game))} disabled={rows.length === 0} className={buttonClass}>
+                <ArrowDownTrayIcon className="w-3 h-3" />
+                CSV
+              </button>
+              <button onClick={() => downloadJson(`${fileName}.json`, result.sets)} disabled={rows.length === 0} className={buttonClass}>
+                <ArrowDownTrayIcon className="w-3 h-3" />
+                JSON
+              </button>
+              <button onClick={() => handlePrint(toTable(rows, game))} disabled={rows.length === 0} className={buttonClass}>
+                <PrinterIcon className="w-3 h-3" />
+                พิมพ์
+              </button>
+              <button onClick={handleSave} disabled={rows.length === 0 || saved} className={buttonClass}>
+                <BookmarkIcon className="w-3 h-3" />
+                {saved ? 'บันทึกแล้ว' : 'บันทึกลงประวัติ'}
+              </button>
+            </div>
+          </div>
+
+          {result.dropped.length > 0 && (
+            <ul className="p-3 bg-yellow-900/20 border border-yellow-500/30 rounded-lg text-xs text-yellow-200 space-y-1">
+              {result.dropped.map(({ mode, reason }) => (
+                <li key={mode}>หยุดใช้โหมด{MODE_LABELS[mode]}: {reason}</li>
+              ))}
+            </ul>
+          )}
+
+          {rows.length > 0 && (
+            <div className="max-h-[32rem] overflow-auto">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-slate-900">
+                  <tr className="text-slate-400 border-b border-white/10">
+                    {columns(game).map(({ key, label }) => (
+                      <th key={key} className="px-3 py-2 text-left">
+                        <button onClick={() => handleSort(key)} className="flex items-center gap-1 hover:text-white">
+                          {label}
+                          {sort.key === key && (sort.desc ? <ChevronDownIcon className="w-3 h-3" /> : <ChevronUpIcon className="w-3 h-3" />)}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.index} className="border-b border-white/5 font-mono">
+                      <td className="px-3 py-1.5 text-slate-500">{row.index}</td>
+                      <td className="px-3 py-1.5 font-sans text-slate-300">{MODE_LABELS[row.source] || row.source}</td>
+                      <td className="px-3 py-1.5 font-bold text-white tracking-widest">{row.prize1}</td>
+                      {GAMES[game].front3 && <td className="px-3 py-1.5 text-cyan-300">{row.front3.join(' ')}</td>}
+                      <td className="px-3 py-1.5 text-pink-300">{row.rear3.join(' ')}</td>
+                      <td className="px-3 py-1.5 font-bold text-yellow-400">{row.rear2}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {playNumbers.length > 0 && (
+        <div className="mt-6 pt-4 border-t border-white/10 space-y-3 text-xs">
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <div className="text-slate-300 font-bold">
+              เลขเล่น 2-3 ตัว {playNumbers.length} ตัว
+              <span className="ml-2 font-normal text-slate-500">
+                (2 ตัว {playNumbers.filter(n => n.number.length === 2).length} · 3 ตัว {playNumbers.filter(n => n.number.length === 3).length})
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => downloadCsv('lotto-play-numbers.csv', playTable(playNumbers))} className={buttonClass}>
+                <ArrowDownTrayIcon className="w-3 h-3" />
+                CSV
+              </button>
+              <button onClick={() => downloadJson('lotto-play-numbers.json', playNumbers)} className={buttonClass}>
+                <ArrowDownTrayIcon className="w-3 h-3" />
+                JSON
+              </button>
+              <button onClick={() => handlePrint(playTable(playNumbers))} className={buttonClass}>
+                <PrinterIcon className="w-3 h-3" />
+                พิมพ์
+              </button>
+              <button onClick={() => onPlayNumbersChange([])} className={buttonClass}>
+                <XMarkIcon className="w-3 h-3" />
+                ล้างรายการ
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-1 max-h-60 overflow-y-auto">
+            {playNumbers.map(n => (
+              <span key={n.number} title={n.origin} className="flex items-center gap-1 font-mono bg-slate-800 text-white pl-1.5 pr-1 py-0.5 rounded">
+                {n.number}
+                <button
+                  onClick={() => onPlayNumbersChange(playNumbers.filter(p => p.number !== n.number))}
+                  className="text-slate-500 hover:text-red-400"
+                >
+                  <XMarkIcon className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
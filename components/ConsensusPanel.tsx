@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ConsensusEntry, ConsensusMode, ConsensusSettings, GameId, GeneratorMode, GuruMeasuredStats, GuruStat, LotterySet, PlayNumber, SavedPrediction } from '../types';
+import { MODE_LABELS } from '../constants';
+import {
+  CONSENSUS_MODES, DEFAULT_CONSENSUS_SETTINGS, SECONDARY_STRENGTH, buildConsensus, buildConsensusSources,
+  consensusLabels, latestModeSets, loadConsensusSettings, saveConsensusSettings,
+} from '../services/consensus';
+import { listPredictions, savePrediction } from '../services/predictionHistory';
+import { getNextDraw } from '../services/drawCalendar';
+import { ScaleIcon, ArrowPathIcon, PaperAirplaneIcon } from '@heroicons/react/24/solid';
+
+interface ConsensusPanelProps {
+  game: GameId;
+  gurus: GuruStat[];
+  measured: Record<string, GuruMeasuredStats>;
+  refreshKey?: number;   // Bump when the prediction history changes
+  create: (mode: GeneratorMode) => Promise<LotterySet>;
+  onSaved: () => void;   // Called after missing sets are generated and saved
+  onSend: (numbers: PlayNumber[]) => void;
+  disabled?: boolean;
+}
+
+const WEIGHTS = [0, 0.5, 1, 1.5, 2, 3];
+const SHOWN = 10;
+const SENT = 5;
+
+const RankedList: React.FC<{ title: string; entries: ConsensusEntry[] }> = ({ title, entries }) => {
+  const top = entries[0]?.score || 1;
+  return (
+    <div>
+      <h4 className="text-sm font-bold text-white mb-2">{title}</h4>
+      {entries.length === 0 ? (
+        <p className="text-xs text-slate-500">ยังไม่มีเลขจากแหล่งใด</p>
+      ) : (
+        <ol className="space-y-2">
+          {entries.slice(0, SHOWN).map((entry, i) => (
+            <li key={entry.number} className="bg-slate-900/50 rounded-lg p-2 border border-white/5">
+              <div className="flex items-center gap-3">
+                <span className="w-5 text-right text-xs text-slate-500">{i + 1}</span>
+                <span className="font-mono text-xl font-bold text-white tracking-widest">{entry.number}</span>
+                <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-thai-gold" style={{ width: `${(entry.score / top) * 100}%` }} />
+                </div>
+                <span className="font-mono text-xs text-slate-300" title="คะแนนรวม / สัดส่วนของน้ำหนักทั้งหมด">
+                  {entry.score.toFixed(2)} ({(entry.share * 100).toFixed(0)}%)
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-1 mt-1.5 pl-8">
+                {entry.backers.map(b => (
+                  <span
+                    key={b.sourceId}
+                    className={`text-[10px] px-1.5 py-0.5 rounded ${b.kind === 'GURU' ? 'bg-purple-900/40 text-purple-200' : 'bg-cyan-900/40 text-cyan-200'}`}
+                  >
+                    {b.label} +{b.contribution.toFixed(2)}
+                  </span>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export const ConsensusPanel: React.FC<ConsensusPanelProps> = ({ game, gurus, measured, refreshKey = 0, create, onSaved, onSend, disabled }) => {
+  const [settings, setSettings] = useState<ConsensusSettings>(loadConsensusSettings);
+  const [history, setHistory] = useState<SavedPrediction[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    listPredictions()
+      .then(setHistory)
+      .catch(e => console.error("Failed to load predictions for consensus", e));
+  }, [refreshKey]);
+
+  const draw = getNextDraw(new Date(), game);
+  const sets = useMemo(() => latestModeSets(history, game, draw.isoDate), [history, game, draw.isoDate]);
+  const sources = useMemo(
+    () => buildConsensusSources(sets, gurus, settings, history, measured),
+    [sets, gurus, settings, history, measured]
+  );
+  const ranking = useMemo(() => buildConsensus(sources), [sources]);
+  const missing = CONSENSUS_MODES.filter(mode => !sets[mode]);
+  const labels = consensusLabels(game);
+
+  const update = (changes: Partial<ConsensusSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveConsensusSettings(next);
+  };
+
+  const setModeWeight = (mode: ConsensusMode, weight: number) =>
+    update({ modeWeights: { ...settings.modeWeights, [mode]: weight } });
+
+  // Modes without a set for this draw are generated once and kept in the history
+  const handleGenerateMissing = async () => {
+    setGenerating(true);
+    setMessage(null);
+    const failed: string[] = [];
+    for (const mode of missing) {
+      try {
+        await savePrediction(await create(mode as GeneratorMode));
+      } catch (e) {
+        console.error(`Failed to generate ${mode} set for consensus`, e);
+        failed.push(MODE_LABELS[mode]);
+      }
+    }
+    setGenerating(false);
+    if (failed.length > 0) setMessage(`สร้างไม่สำเร็จ: ${failed.join(', ')}`);
+    onSaved();
+  };
+
+  const handleSend = () => {
+    const pick = (entries: ConsensusEntry[]) =>
+      entries.slice(0, SENT).map((e, i) => ({ number: e.number, origin: `ฉันทามติ อันดับ ${i + 1}` }));
+    onSend([...pick(ranking.three), ...pick(ranking.two)]);
+  };
+
+  const sourceOf = (id: string) => sources.find(s => s.id === id);
+  const selectClass = "bg-slate-800 border border-white/10 rounded px-1 py-0.5 text-white";
+  const buttonClass = "flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-300 hover:text-white hover:bg-white/5 disabled:opacity-30";
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20">
+      <div className="flex items-center gap-2 mb-4">
+        <ScaleIcon className="w-6 h-6 text-thai-gold" />
+        <div>
+          <h3 className="text-xl font-bold text-white">จัดอันดับเลขฉันทามติ</h3>
+          <p className="text-slate-400 text-xs">
+            รวมคะแนนจากชุดล่าสุดของแต่ละโหมดและเลขเด็ดทุกสำนัก งวด {draw.label} ตามน้ำหนักที่ตั้งไว้
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400 mb-4">
+        {CONSENSUS_MODES.map(mode => {
+          const source = sourceOf(mode);
+          return (
+            <label key={mode} className={`flex items-center gap-1 px-2 py-1 rounded-lg border ${sets[mode] ? 'border-slate-700' : 'border-dashed border-slate-700 opacity-60'}`}>
+              <span className="text-slate-300">{MODE_LABELS[mode]}</span>
+              <select
+                value={settings.modeWeights[mode]}
+                onChange={e => setModeWeight(mode, +e.target.value)}
+                className={selectClass}
+              >
+                {WEIGHTS.map(w => <option key={w} value={w}>×{w}</option>)}
+              </select>
+              {!sets[mode] && <span className="text-slate-500">ยังไม่มีชุด</span>}
+              {settings.byAccuracy && source && (
+                <span className="text-emerald-300" title="ตัวคูณจากความแม่นยำที่วัดได้">×{source.accuracyFactor.toFixed(2)}</span>
+              )}
+            </label>
+          );
+        })}
+        <label className="flex items-center gap-1 px-2 py-1 rounded-lg border border-slate-700">
+          <span className="text-slate-300">สำนักดัง (ต่อสำนัก)</span>
+          <select value={settings.guruWeight} onChange={e => update({ guruWeight: +e.target.value })} className={selectClass}>
+            {WEIGHTS.map(w => <option key={w} value={w}>×{w}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.byAccuracy}
+            onChange={e => update({ byAccuracy: e.target.checked })}
+            className="accent-yellow-500"
+          />
+          ถ่วงตามความแม่นยำที่วัดได้จริง
+        </label>
+        <button onClick={() => update(DEFAULT_CONSENSUS_SETTINGS)} className="text-slate-500 hover:text-white">
+          ค่าเริ่มต้น
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {missing.length > 0 && (
+          <button onClick={handleGenerateMissing} disabled={disabled || generating} className={buttonClass}>
+            <ArrowPathIcon className={`w-4 h-4 ${generating ? 'animate-spin' : ''}`} />
+            สร้างชุดที่ยังขาด ({missing.map(m => MODE_LABELS[m]).join(', ')})
+          </button>
+        )}
+        <button onClick={handleSend} disabled={ranking.three.length + ranking.two.length === 0} className={buttonClass}>
+          <PaperAirplaneIcon className="w-4 h-4" />
+          ส่ง {SENT} อันดับแรกไปเลขเล่น
+        </button>
+      </div>
+      {message && <p className="text-xs text-red-300 mb-4">{message}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <RankedList title={labels.three} entries={ranking.three} />
+        <RankedList title={labels.two} entries={ranking.two} />
+      </div>
+
+      <p className="mt-4 text-[10px] text-slate-500 leading-relaxed">
+        ชุดเลขของแต่ละโหมดให้คะแนนเต็มน้ำหนักกับทุกเลขในชุด สำนักดังให้เต็มน้ำหนักกับเลขเด่นและ {SECONDARY_STRENGTH * 100}% กับเลขรอง
+        การถ่วงตามความแม่นยำเทียบอัตราถูกที่ตรวจแล้วกับค่าคาดหมายของการสุ่ม (โหมด) หรือค่าเฉลี่ยทุกสำนัก (สำนักดัง) ข้อมูลน้อยจะใกล้ ×1
+      </p>
+    </div>
+  );
+};
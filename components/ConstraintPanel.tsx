@@ -0,0 +1,159 @@
+import React from 'react';
+import { GameId, NumberConstraints, RepeatRule } from '../types';
+import { DEFAULT_CONSTRAINTS, PLACE_LABELS, explainConstraints, hasConstraints, numberLengths, retargetConstraints } from '../services/constraints';
+import { DEFAULT_GAME } from '../services/games';
+import { AdjustmentsHorizontalIcon, ExclamationTriangleIcon } from '@heroicons/react/24/solid';
+
+interface ConstraintPanelProps {
+  game: GameId;
+  value: NumberConstraints;
+  onChange: (value: NumberConstraints) => void;
+}
+
+const DIGITS = Array.from({ length: 10 }, (_, d) => d);
+
+const REPEAT_OPTIONS: { value: RepeatRule; label: string }[] = [
+  { value: 'ANY', label: 'ไม่กำหนด' },
+  { value: 'NO_REPEAT', label: 'ห้ามซ้ำ' },
+  { value: 'DOUBLES', label: 'เลขเบิ้ลเท่านั้น' },
+];
+
+const toggle = (list: number[], item: number) =>
+  list.includes(item) ? list.filter(i => i !== item) : [...list, item].sort((a, b) => a - b);
+
+const parseSum = (text: string): number | null => (text.trim() === '' ? null : Math.max(0, Math.floor(+text) || 0));
+
+export const ConstraintPanel: React.FC<ConstraintPanelProps> = ({ game, value, onChange }) => {
+  const set = (changes: Partial<NumberConstraints>) => onChange({ ...value, ...changes });
+  const problems = explainConstraints(value, game);
+
+  const digitRow = (label: string, selected: number[], onToggle: (d: number) => void, activeClass: string) => (
+    <div className="flex flex-wrap items-center gap-1">
+      <span className="w-20 text-slate-400">{label}</span>
+      {DIGITS.map(d => (
+        <button
+          key={d}
+          onClick={() => onToggle(d)}
+          className={`w-7 h-7 rounded font-mono font-bold transition-all ${selected.includes(d) ? activeClass : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+        >
+          {d}
+        </button>
+      ))}
+    </div>
+  );
+
+  const inputClass = "bg-slate-900 border border-white/10 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-emerald-500";
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="flex items-center gap-2 text-sm font-bold text-emerald-300">
+          <AdjustmentsHorizontalIcon className="w-4 h-4" />
+          เงื่อนไขตัวเลข
+        </div>
+        {hasConstraints(value) && (
+          <button onClick={() => onChange(retargetConstraints(DEFAULT_CONSTRAINTS, DEFAULT_GAME, game))} className="text-slate-400 hover:text-white">ล้างเงื่อนไข</button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="w-20 text-slate-400">ใช้กับ</span>
+        {numberLengths(game).map(({ length, label }) => (
+          <label key={length} className="flex items-center gap-1 text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={value.appliesTo.includes(length)}
+              onChange={() => set({ appliesTo: toggle(value.appliesTo, length) })}
+              className="accent-emerald-500"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      {digitRow('ไม่เอาเลข', value.excludeDigits, d => set({ excludeDigits: toggle(value.excludeDigits, d) }), 'bg-red-700 text-white')}
+      {digitRow('ต้องมีเลข', value.includeDigits, d => set({ includeDigits: toggle(value.includeDigits, d) }), 'bg-emerald-700 text-white')}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="w-20 text-slate-400">ปักหลัก</span>
+        {[2, 1, 0].map(place => (
+          <label key={place} className="flex items-center gap-1 text-slate-300">
+            {PLACE_LABELS[place]}
+            <select
+              value={value.pinned[place] ?? ''}
+              onChange={e => {
+                const pinned = [...value.pinned];
+                pinned[place] = e.target.value === '' ? null : +e.target.value;
+                set({ pinned });
+              }}
+              className={inputClass}
+            >
+              <option value="">-</option>
+              {DIGITS.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="w-20 text-slate-400">เลขซ้ำ</span>
+        {REPEAT_OPTIONS.map(option => (
+          <label key={option.value} className="flex items-center gap-1 text-slate-300 cursor-pointer">
+            <input
+              type="radio"
+              checked={value.repeat === option.value}
+              onChange={() => set({ repeat: option.value })}
+              className="accent-emerald-500"
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="w-20 text-slate-400">ผลรวมหลัก</span>
+        <input
+          type="number"
+          min={0}
+          value={value.sumMin ?? ''}
+          onChange={e => set({ sumMin: parseSum(e.target.value) })}
+          placeholder="ต่ำสุด"
+          className={`${inputClass} w-20`}
+        />
+        <span className="text-slate-500">ถึง</span>
+        <input
+          type="number"
+          min={0}
+          value={value.sumMax ?? ''}
+          onChange={e => set({ sumMax: parseSum(e.target.value) })}
+          placeholder="สูงสุด"
+          className={`${inputClass} w-20`}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="w-20 text-slate-400">เลี่ยงเลขที่ออก</span>
+        <input
+          type="number"
+          min={0}
+          value={value.avoidRecentDraws || ''}
+          onChange={e => set({ avoidRecentDraws: Math.max(0, Math.floor(+e.target.value) || 0) })}
+          placeholder="0"
+          className={`${inputClass} w-20`}
+        />
+        <span className="text-slate-500">งวดล่าสุดในคลังผลรางวัล</span>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="p-3 bg-red-900/30 border border-red-500/30 rounded-lg text-red-200 space-y-1">
+          {problems.map((problem, i) => (
+            <li key={i} className="flex items-start gap-1">
+              <ExclamationTriangleIcon className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              {problem}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { GameId, StoredDraw, ImportSummary } from '../types';
+import { listDraws, importDrawFile, deleteDraw } from '../services/drawStore';
+import { GAMES } from '../services/games';
+import { ArchiveBoxIcon, ArrowUpTrayIcon, TrashIcon, ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/solid';
+
+interface DrawArchiveProps {
+  game: GameId;            // Only this game's draws are listed and imported
+  refreshKey?: number;     // Bump to reload after draws are saved elsewhere
+  onChange?: () => void;   // Called after an import or delete
+}
+
+const PAGE_SIZE = 10;
+
+const PRIZE_LISTS: { field: keyof Pick<StoredDraw, 'adjacent1' | 'prize2' | 'prize3' | 'prize4' | 'prize5'>; label: string }[] = [
+  { field: 'adjacent1', label: 'ข้างเคียงรางวัลที่ 1' },
+  { field: 'prize2', label: 'รางวัลที่ 2' },
+  { field: 'prize3', label: 'รางวัลที่ 3' },
+  { field: 'prize4', label: 'รางวัลที่ 4' },
+  { field: 'prize5', label: 'รางวัลที่ 5' },
+];
+
+export const DrawArchive: React.FC<DrawArchiveProps> = ({ game, refreshKey = 0, onChange }) => {
+  const [draws, setDraws] = useState<StoredDraw[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setDraws(await listDraws(game));
+    } catch (e) {
+      console.error("Failed to load draw archive", e);
+      setError('โหลดคลังผลรางวัลไม่สำเร็จ');
+    } finally {
+      setLoading(false);
+    }
+  }, [game]);
+
+  useEffect(() => {
+    reload();
+  }, [reload, refreshKey]);
+
+  useEffect(() => {
+    setPage(0);
+    setSummary(null);
+    setError(null);
+  }, [game]);
+
+  const g = GAMES[game];
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setError(null);
+    const total: ImportSummary = { added: 0, updated: 0, skipped: 0, errors: [] };
+    try {
+      for (const file of files) {
+        const result = await importDrawFile(file, game);
+        total.added += result.added;
+        total.updated += result.updated;
+        total.skipped += result.skipped;
+        total.errors.push(...result.errors);
+      }
+    } catch (e) {
+      console.error("Failed to import draws", e);
+      setError('บันทึกผลรางวัลที่นำเข้าลงเครื่องไม่สำเร็จ');
+    }
+    // Files saved before a failure still count
+    setSummary(total);
+    await reload();
+    onChange?.();
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+    try {
+      await deleteDraw(id);
+    } catch (e) {
+      console.error("Failed to delete draw", e);
+      setError('ลบงวดนี้ไม่สำเร็จ');
+      return;
+    }
+    await reload();
+    onChange?.();
+  };
+
+  const pageCount = Math.max(1, Math.ceil(draws.length / PAGE_SIZE));
+  const visible = draws.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <ArchiveBoxIcon className="w-6 h-6 text-cyan-300" />
+          <div>
+            <h3 className="text-xl font-bold text-white">คลังผลรางวัลย้อนหลัง</h3>
+            <p className="text-slate-400 text-xs">{g.name} · เก็บในเครื่อง {draws.length} งวด</p>
+          </div>
+        </div>
+
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-cyan-700 hover:bg-cyan-600 text-white transition-all"
+        >
+          <ArrowUpTrayIcon className="w-4 h-4" />
+          นำเข้า CSV / JSON
+        </button>
+        <input ref={fileInput} type="file" accept=".csv,.json" multiple hidden onChange={handleImport} />
+      </div>
+
+      {summary && (
+        <div className="mb-4 p-3 bg-slate-800/50 border border-white/5 rounded-lg text-xs text-slate-300">
+          <div>
+            เพิ่มใหม่ {summary.added} งวด · อัปเดต {summary.updated} งวด · ซ้ำ {summary.skipped} งวด
+          </div>
+          {summary.errors.length > 0 && (
+            <ul className="mt-2 max-h-24 overflow-y-auto text-red-300 space-y-1">
+              {summary.errors.map((err, i) => <li key={i}>{err}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mb-3 text-xs text-red-300">{error}</p>}
+
+      {loading ? (
+        <div className="text-center text-slate-500 text-sm py-6">กำลังโหลดข้อมูล...</div>
+      ) : draws.length === 0 ? (
+        <div className="text-center text-slate-500 text-sm py-6">
+          ยังไม่มีข้อมูล นำเข้าไฟล์ผลรางวัล หรือรอระบบบันทึกผลงวดล่าสุดอัตโนมัติ
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {visible.map((draw) => (
+              <div key={draw.id} className="bg-slate-800/50 rounded-lg border border-white/5 text-xs">
+                <div className="flex items-center justify-between p-3 gap-2">
+                  <button
+                    onClick={() => setExpanded(expanded === draw.id ? null : draw.id)}
+                    className="flex-1 flex flex-wrap items-center gap-x-4 gap-y-1 text-left"
+                  >
+                    <span className="text-thai-gold font-bold w-36">{draw.date}</span>
+                    <span className="font-mono font-bold text-white tracking-widest">{draw.prize1}</span>
+                    {g.front3 && <span className="font-mono text-cyan-300">{draw.front3.join(' ')}</span>}
+                    {!g.rear3.fromPrize1 && <span className="font-mono text-pink-300">{draw.rear3.join(' ')}</span>}
+                    <span className="font-mono font-bold text-yellow-400">{draw.rear2}</span>
+                  </button>
+                  <span className="text-[10px] text-slate-500">{draw.origin === 'FETCH' ? 'AI' : 'ไฟล์'}</span>
+                  {g.fullTable && (expanded === draw.id
+                    ? <ChevronUpIcon className="w-4 h-4 text-slate-500" />
+                    : <ChevronDownIcon className="w-4 h-4 text-slate-500" />)}
+                  <button onClick={() => handleDelete(draw.id)} className="text-slate-500 hover:text-red-400">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {expanded === draw.id && g.fullTable && (
+                  <div className="px-3 pb-3 space-y-2 border-t border-white/5 pt-2">
+                    {PRIZE_LISTS.map(({ field, label }) => (
+                      <div key={field}>
+                        <div className="text-slate-500 text-[10px] mb-0.5">{label}</div>
+                        <div className="font-mono text-slate-300 break-words">
+                          {draw[field].length > 0 ? draw[field].join(' ') : '-'}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {pageCount > 1 && (
+            <div className="flex justify-center items-center gap-4 mt-4 text-xs text-slate-400">
+              <button disabled={page === 0} onClick={() => setPage(page - 1)} className="disabled:opacity-30">ก่อนหน้า</button>
+              <span>{page + 1} / {pageCount}</span>
+              <button disabled={page >= pageCount - 1} onClick={() => setPage(page + 1)} className="disabled:opacity-30">ถัดไป</button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { GameId, NotificationSettings } from '../types';
+import { getNextDraw } from '../services/drawCalendar';
+import { GAMES } from '../services/games';
+import { countdownTo, salesCloseInstant } from '../services/drawWatch';
+import { notificationPermission, requestNotificationPermission } from '../services/notifications';
+import { CalendarDaysIcon, BellIcon, BellSlashIcon } from '@heroicons/react/24/solid';
+
+interface DrawCountdownProps {
+  game: GameId;
+  settings: NotificationSettings;
+  onSettingsChange: (settings: NotificationSettings) => void;
+}
+
+const LEAD_HOURS = [1, 3, 6, 12, 24];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatCountdown = (target: Date, now: Date) => {
+  const { days, hours, minutes, seconds } = countdownTo(target, now);
+  return `${days > 0 ? `${days} วัน ` : ''}${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+export const DrawCountdown: React.FC<DrawCountdownProps> = ({ game, settings, onSettingsChange }) => {
+  const [now, setNow] = useState(() => new Date());
+  const [showSettings, setShowSettings] = useState(false);
+  const [permission, setPermission] = useState(notificationPermission);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // The next draw rolls over on its own once the draw time passes
+  const g = GAMES[game];
+  const draw = getNextDraw(now, game);
+  const salesClose = salesCloseInstant(draw);
+  const salesOpen = now < salesClose;
+  const drawTime = `${pad(g.drawTime.hour)}:${pad(g.drawTime.minute)} น.`;
+
+  const set = (changes: Partial<NotificationSettings>) => onSettingsChange({ ...settings, ...changes });
+
+  const toggleEnabled = async () => {
+    if (settings.enabled) {
+      set({ enabled: false });
+      return;
+    }
+    const granted = await requestNotificationPermission();
+    setPermission(notificationPermission());
+    if (granted) set({ enabled: true });
+  };
+
+  const active = settings.enabled && permission === 'granted';
+
+  return (
+    <div className="relative inline-flex flex-col items-center mt-2">
+      <div className="inline-flex items-center gap-3 px-4 py-2 bg-slate-800/80 rounded-full border border-slate-700 shadow-lg">
+        <CalendarDaysIcon className="w-5 h-5 text-thai-gold" />
+        <span className="text-white font-semibold tracking-wide">
+          งวดวันที่: <span className="text-yellow-300">{draw.label}</span>
+        </span>
+        <span className="font-mono text-sm text-slate-200" title={`นับถอยหลังถึงเวลาออกรางวัล ${drawTime}`}>
+          {formatCountdown(draw.at, now)}
+        </span>
+        <button
+          onClick={() => setShowSettings(s => !s)}
+          className={`p-1 rounded-full transition-colors ${active ? 'text-thai-gold hover:bg-white/10' : 'text-slate-500 hover:text-white hover:bg-white/10'}`}
+          title="ตั้งค่าการแจ้งเตือน"
+        >
+          {active ? <BellIcon className="w-4 h-4" /> : <BellSlashIcon className="w-4 h-4" />}
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 mt-1">
+        {salesOpen
+          ? <>{g.salesCloseLabel}ในอีก <span className="font-mono text-slate-300">{formatCountdown(salesClose, now)}</span></>
+          : `${g.salesCloseLabel}งวดนี้แล้ว รอลุ้นผล ${drawTime}`}
+      </p>
+
+      {showSettings && (
+        <div className="absolute top-full mt-8 z-20 w-72 text-left text-xs glass-panel bg-slate-900/95 rounded-xl p-4 space-y-3 shadow-xl">
+          <label className="flex items-center justify-between gap-2 text-sm font-bold text-white cursor-pointer">
+            การแจ้งเตือนบนเบราว์เซอร์
+            <input type="checkbox" checked={settings.enabled} onChange={toggleEnabled} className="accent-yellow-500" />
+          </label>
+          {permission === 'unsupported' && <p className="text-red-300">เบราว์เซอร์นี้ไม่รองรับการแจ้งเตือน</p>}
+          {permission === 'denied' && <p className="text-red-300">การแจ้งเตือนถูกปิดกั้น กรุณาอนุญาตในการตั้งค่าเบราว์เซอร์</p>}
+
+          <div className={`space-y-2 ${settings.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+            <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.salesReminder}
+                onChange={e => set({ salesReminder: e.target.checked })}
+                className="accent-yellow-500"
+              />
+              เตือนก่อน{g.salesCloseLabel}
+              <select
+                value={settings.reminderLeadHours}
+                onChange={e => set({ reminderLeadHours: +e.target.value })}
+                className="bg-slate-800 border border-white/10 rounded px-1 py-0.5 text-white"
+              >
+                {LEAD_HOURS.map(h => <option key={h} value={h}>{h} ชม.</option>)}
+              </select>
+            </label>
+            <label className="flex items-start gap-2 text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.results}
+                onChange={e => set({ results: e.target.checked })}
+                className="accent-yellow-500 mt-0.5"
+              />
+              <span>แจ้งเมื่อผลรางวัลออก และตรวจสลากที่บันทึกไว้กับเลขที่ติดดาวให้อัตโนมัติ</span>
+            </label>
+          </div>
+          <p className="text-slate-500">ตรวจผลใหม่เฉพาะช่วงเวลาออกรางวัล ขณะที่หน้านี้เปิดอยู่</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { DreamEntry } from '../types';
+import { listDreamEntries, saveDreamEntry, deleteDreamEntry, restoreDefaultDreamEntries, validateDreamEntry } from '../services/dreamDictionary';
+import { BookOpenIcon, PlusIcon, PencilSquareIcon, TrashIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/solid';
+
+interface Draft {
+  id?: string;
+  symbol: string;
+  keywords: string;
+  numbers: string;
+  meaning: string;
+}
+
+const EMPTY_DRAFT: Draft = { symbol: '', keywords: '', numbers: '', meaning: '' };
+
+const toDraft = (entry: DreamEntry): Draft => ({
+  id: entry.id,
+  symbol: entry.symbol,
+  keywords: entry.keywords.join(', '),
+  numbers: entry.numbers.join(', '),
+  meaning: entry.meaning,
+});
+
+const splitList = (value: string) => value.split(/[,\s]+/).map(v => v.trim()).filter(Boolean);
+
+export const DreamDictionary: React.FC = () => {
+  const [entries, setEntries] = useState<DreamEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);   // Problems with the draft
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setEntries(await listDreamEntries());
+    } catch (e) {
+      console.error("Failed to load dream dictionary", e);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    // Keywords may contain spaces ("dead relative"), so they are split on commas only
+    const entry = {
+      id: draft.id,
+      symbol: draft.symbol.trim(),
+      keywords: draft.keywords.split(',').map(k => k.trim()).filter(Boolean),
+      numbers: splitList(draft.numbers),
+      meaning: draft.meaning.trim(),
+    };
+    const problems = validateDreamEntry(entry);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    try {
+      await saveDreamEntry(entry);
+    } catch (e) {
+      console.error("Failed to save dream entry", e);
+      setErrors(['บันทึกสัญลักษณ์ไม่สำเร็จ ลองบันทึกอีกครั้ง']);
+      return;
+    }
+    setDraft(null);
+    await reload();
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+    try {
+      await deleteDreamEntry(id);
+    } catch (e) {
+      console.error("Failed to delete dream entry", e);
+      setError('ลบสัญลักษณ์ไม่สำเร็จ');
+    }
+    await reload();
+  };
+
+  const handleRestore = async () => {
+    if (!window.confirm('คืนค่าสัญลักษณ์เริ่มต้นทั้งหมด? การแก้ไขสัญลักษณ์เริ่มต้นจะถูกเขียนทับ')) return;
+    setError(null);
+    try {
+      await restoreDefaultDreamEntries();
+    } catch (e) {
+      console.error("Failed to restore default dream entries", e);
+      setError('คืนค่าสัญลักษณ์เริ่มต้นไม่สำเร็จ');
+    }
+    await reload();
+  };
+
+  const edit = (next: Draft | null) => {
+    setDraft(next);
+    setErrors([]);
+  };
+
+  const needle = query.trim().toLowerCase();
+  const visible = needle
+    ? entries.filter(e => e.symbol.includes(needle) || e.keywords.some(k => k.toLowerCase().includes(needle)) || e.numbers.includes(needle))
+    : entries;
+
+  const field = (key: keyof Omit<Draft, 'id'>, label: string, placeholder: string) => (
+    <label className="flex flex-col gap-1 text-xs text-slate-400">
+      {label}
+      <input
+        value={draft![key]}
+        onChange={e => setDraft({ ...draft!, [key]: e.target.value })}
+        placeholder={placeholder}
+        className="bg-slate-900 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-pink-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <BookOpenIcon className="w-6 h-6 text-pink-300" />
+          <div>
+            <h3 className="text-xl font-bold text-white">พจนานุกรมความฝัน</h3>
+            <p className="text-slate-400 text-xs">{entries.length} สัญลักษณ์ · แก้ไขได้ เก็บในเครื่อง</p>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => edit({ ...EMPTY_DRAFT })}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-pink-700 hover:bg-pink-600 text-white transition-all"
+          >
+            <PlusIcon className="w-4 h-4" />
+            เพิ่มสัญลักษณ์
+          </button>
+          <button
+            onClick={handleRestore}
+            title="คืนค่าสัญลักษณ์เริ่มต้น"
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-white/5 transition-all"
+          >
+            <ArrowUturnLeftIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {draft && (
+        <div className="mb-4 p-4 bg-slate-800/50 border border-pink-500/30 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {field('symbol', 'สัญลักษณ์', 'เช่น งู')}
+            {field('numbers', 'เลข (2 หรือ 3 หลัก)', 'เช่น 56, 65, 356')}
+            {field('keywords', 'คำค้น (คั่นด้วย ,)', 'เช่น งู, snake')}
+            {field('meaning', 'ความหมาย', 'เช่น เนื้อคู่กำลังจะเข้ามา')}
+          </div>
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-300 space-y-1">
+              {errors.map((err, i) => <li key={i}>{err}</li>)}
+            </ul>
+          )}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => edit(null)} className="px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-white hover:bg-white/5">ยกเลิก</button>
+            <button onClick={handleSave} className="px-3 py-1.5 rounded-lg text-xs font-medium bg-pink-700 hover:bg-pink-600 text-white">บันทึก</button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mb-3 text-xs text-red-300">{error}</p>}
+
+      <input
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder="ค้นหาสัญลักษณ์ คำค้น หรือเลข"
+        className="w-full mb-3 bg-slate-900 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-pink-500"
+      />
+
+      {loading ? (
+        <div className="text-center text-slate-500 text-sm py-6">กำลังโหลดข้อมูล...</div>
+      ) : visible.length === 0 ? (
+        <div className="text-center text-slate-500 text-sm py-6">ไม่พบสัญลักษณ์</div>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+          {visible.map(entry => (
+            <div key={entry.id} className="flex items-start justify-between gap-2 p-3 bg-slate-800/50 rounded-lg border border-white/5 text-xs">
+              <div className="flex-1 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-white font-bold text-sm">{entry.symbol}</span>
+                  {entry.numbers.map(n => (
+                    <span key={n} className="font-mono text-yellow-400 bg-yellow-500/10 px-1.5 py-0.5 rounded">{n}</span>
+                  ))}
+                  {entry.custom && <span className="text-[10px] text-pink-300 bg-pink-900/30 px-1.5 py-0.5 rounded">แก้ไขเอง</span>}
+                </div>
+                <div className="text-slate-400">{entry.meaning}</div>
+                <div className="text-slate-600">คำค้น: {entry.keywords.join(', ')}</div>
+              </div>
+              <div className="flex gap-1">
+                <button onClick={() => edit(toDraft(entry))} title="แก้ไข" className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-white/5">
+                  <PencilSquareIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(entry.id)} title="ลบ" className="p-1.5 rounded text-slate-500 hover:text-red-400 hover:bg-white/5">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
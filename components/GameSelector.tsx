@@ -0,0 +1,31 @@
+import React from 'react';
+import { GameId } from '../types';
+import { GAMES, GAME_IDS } from '../services/games';
+
+interface GameSelectorProps {
+  value: GameId;
+  onChange: (game: GameId) => void;
+  disabled?: boolean;
+}
+
+export const GameSelector: React.FC<GameSelectorProps> = ({ value, onChange, disabled }) => {
+  return (
+    <div className="inline-flex flex-wrap justify-center bg-slate-950 p-1 rounded-xl gap-1 mt-2">
+      {GAME_IDS.map(id => (
+        <button
+          key={id}
+          onClick={() => onChange(id)}
+          disabled={disabled}
+          title={GAMES[id].name}
+          className={`px-3 py-1.5 rounded-lg text-xs md:text-sm font-medium transition-all disabled:cursor-wait ${
+            value === id
+              ? 'bg-thai-gold text-slate-900 shadow-md'
+              : 'text-slate-400 hover:text-white hover:bg-white/5'
+          }`}
+        >
+          {GAMES[id].shortName}
+        </button>
+      ))}
+    </div>
+  );
+};
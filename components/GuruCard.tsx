@@ -0,0 +1,148 @@
+import React from 'react';
+import { GuruMeasuredStats, GuruStat, GuruHitType } from '../types';
+import { GURU_HIT_LABELS } from '../services/guruTracker';
+import { FireIcon, StarIcon, CheckBadgeIcon, ExclamationTriangleIcon, ArrowsRightLeftIcon } from '@heroicons/react/24/solid';
+
+interface GuruCardProps {
+  guru: GuruStat;
+  drawDate?: string;
+  measured?: GuruMeasuredStats;
+  onExpand?: (numbers: string[]) => void;   // Opens the permutation tools with every number of the guru
+}
+
+export const GuruCard: React.FC<GuruCardProps> = ({ guru, drawDate, measured, onExpand }) => {
+  const hasMeasured = !!measured && measured.attempts > 0;
+  const numbers = guru.nextDrawPrediction?.topPick
+    ? [guru.nextDrawPrediction.topPick, ...(guru.nextDrawPrediction.secondary || [])]
+    : [];
+  const hidden = (guru.nextDrawPrediction?.secondary?.length || 0) - 2;
+
+  return (
+    <div className="glass-panel p-5 rounded-xl border border-white/5 hover:border-white/20 transition-all flex flex-col h-full bg-slate-900/40 relative overflow-hidden group">
+
+        {/* Highlight Background Effect */}
+        <div className="absolute top-0 right-0 p-3 opacity-10 group-hover:opacity-20 transition-opacity">
+           <FireIcon className="w-20 h-20 text-white transform rotate-12"/>
+        </div>
+
+        {/* Header */}
+        <div className="flex justify-between items-start mb-4 relative z-10">
+           <div>
+              <h3 className="font-bold text-lg text-white">{guru.name}</h3>
+              <span className="text-xs text-slate-400 bg-slate-800 px-2 py-0.5 rounded">{guru.alias}</span>
+              {guru.degraded && (
+                <span className="ml-1 text-[10px] text-red-300 bg-red-900/30 px-2 py-0.5 rounded">ไม่มีข้อมูล</span>
+              )}
+              {guru.manual && (
+                <span className="ml-1 text-[10px] text-emerald-200 bg-emerald-900/40 px-2 py-0.5 rounded" title="เลขที่กรอกเองจากแหล่งที่สำนักประกาศ">กรอกเอง</span>
+              )}
+           </div>
+           <div className="flex flex-col items-end">
+              {hasMeasured ? (
+                <>
+                  <div className="text-xl font-bold text-green-400">{measured!.accuracy!.toFixed(0)}%</div>
+                  <div className="text-[10px] text-slate-500">
+                    วัดจริง {measured!.hits}/{measured!.attempts} งวด
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="text-xl font-bold text-slate-500">-</div>
+                  <div className="text-[10px] text-slate-500">ยังไม่มีผลตรวจจริง</div>
+                </>
+              )}
+              {guru.accuracy > 0 && (
+                <div className="text-[10px] text-slate-600 mt-0.5" title="ตัวเลขที่อ้างโดยแหล่งข่าว ยังไม่ได้ตรวจสอบ">
+                  อ้างเอง {guru.accuracy}% (ไม่ยืนยัน)
+                </div>
+              )}
+           </div>
+        </div>
+
+        {/* CURRENT PREDICTION BIG DISPLAY */}
+        <div className="bg-gradient-to-br from-slate-800/80 to-slate-900/80 p-4 rounded-lg border border-yellow-500/20 mb-4 text-center relative z-10 shadow-inner">
+           <div className="text-[10px] text-yellow-400 uppercase tracking-wider mb-2 font-bold">เลขเด็ดงวดนี้ ({drawDate})</div>
+
+           <div className="flex justify-center items-baseline gap-3">
+             {/* Top Pick */}
+             <div className="relative">
+               <div className="text-3xl font-bold text-white drop-shadow-md">{guru.nextDrawPrediction?.topPick || "?"}</div>
+               <div className="text-[8px] text-slate-500 absolute -bottom-3 w-full text-center">เด่นสุด</div>
+             </div>
+
+             {/* Secondary Picks */}
+             {guru.nextDrawPrediction?.secondary?.slice(0, 2).map((num, i) => (
+                <div key={i} className="text-xl font-semibold text-slate-400">{num}</div>
+             ))}
+           </div>
+
+           {onExpand && numbers.length > 0 && (
+             <button
+               onClick={() => onExpand(numbers)}
+               className="mt-4 inline-flex items-center gap-1 text-[10px] text-slate-400 hover:text-yellow-300"
+             >
+               <ArrowsRightLeftIcon className="w-3 h-3" />
+               กลับเลข / รูดเลข{hidden > 0 && ` (รวมอีก ${hidden} ตัว)`}
+             </button>
+           )}
+        </div>
+
+        <p className="text-xs text-slate-300 mb-4 flex-grow line-clamp-2 min-h-[2.5em]">{guru.description}</p>
+
+        {/* Measured breakdown */}
+        {hasMeasured && (
+          <div className="mb-4 relative z-10 text-[10px] text-slate-400 space-y-1">
+            <div className="flex flex-wrap gap-1">
+              {(Object.keys(GURU_HIT_LABELS) as GuruHitType[])
+                .filter(type => measured!.byType[type] > 0)
+                .map(type => (
+                  <span key={type} className="bg-slate-800 px-1.5 py-0.5 rounded">
+                    {GURU_HIT_LABELS[type]} {measured!.byType[type]}
+                  </span>
+                ))}
+            </div>
+            <div>เข้าติดกัน {measured!.currentStreak} งวด · สูงสุด {measured!.bestStreak} งวด</div>
+          </div>
+        )}
+
+        {/* Recent Wins List */}
+        <div className="mt-auto relative z-10">
+          <div className="text-[10px] uppercase tracking-wider text-slate-500 font-bold mb-2 flex items-center gap-1">
+              <StarIcon className="w-3 h-3 text-yellow-500" />
+              ผลงานย้อนหลัง
+          </div>
+          <div className="space-y-2">
+             {hasMeasured && measured!.wins.slice(0, 3).map((win, idx) => (
+                 <div key={`v-${idx}`} className="flex justify-between items-center bg-green-900/20 p-2 rounded text-xs border border-green-500/20">
+                     <div className="flex items-center gap-1 text-slate-300">
+                         <CheckBadgeIcon className="w-3 h-3 text-green-400" />
+                         {win.date}
+                     </div>
+                     <div className="flex items-center gap-2">
+                         <span className="text-yellow-500 bg-yellow-500/10 px-1.5 py-0.5 rounded">{win.number}</span>
+                         <span className="text-slate-500 text-[10px]">{win.prize}</span>
+                     </div>
+                 </div>
+             ))}
+             {guru.wins.length > 0 ? guru.wins.map((win, idx) => (
+                 <div key={idx} className="flex justify-between items-center bg-slate-800/50 p-2 rounded text-xs border border-white/5">
+                     <div className="flex items-center gap-1 text-slate-400">
+                         <ExclamationTriangleIcon className="w-3 h-3 text-slate-600" title="อ้างอิงจาก AI ยังไม่ได้ตรวจสอบ" />
+                         {win.date}
+                     </div>
+                     <div className="flex items-center gap-2">
+                         <span className="text-yellow-500 bg-yellow-500/10 px-1.5 py-0.5 rounded">{win.number}</span>
+                         <span className="text-slate-500 text-[10px]">{win.prize}</span>
+                     </div>
+                 </div>
+             )) : !hasMeasured && (
+                 <div className="text-xs text-slate-600 text-center py-2">ไม่มีข้อมูลการถูกรางวัลเร็วๆ นี้</div>
+             )}
+          </div>
+          {guru.wins.length > 0 && (
+            <div className="text-[9px] text-slate-600 mt-2">รายการที่มีเครื่องหมาย ! มาจาก AI และยังไม่ได้ตรวจสอบกับผลจริง</div>
+          )}
+        </div>
+    </div>
+  );
+};
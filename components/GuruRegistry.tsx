@@ -0,0 +1,219 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { GameId, GuruProfile, ManualGuruPrediction } from '../types';
+import {
+  GuruFields, addGuru, clearManualGuruPrediction, deleteGuru, getGuruRegistry, reorderGurus, saveManualGuruPrediction, updateGuru, withAdminToken,
+} from '../services/lottoApi';
+import { getNextDraw } from '../services/drawCalendar';
+import { UserGroupIcon, PlusIcon, PencilSquareIcon, TrashIcon, ChevronUpIcon, ChevronDownIcon } from '@heroicons/react/24/solid';
+
+interface GuruRegistryProps {
+  game: GameId;          // Typed-in numbers are for this game's next draw
+  onChange: () => void;  // Called after the registry or a typed-in prediction changes
+}
+
+interface Draft extends GuruFields {
+  id?: string;
+}
+
+interface Picks {
+  topPick: string;
+  secondary: string;
+}
+
+const EMPTY_DRAFT: Draft = { name: '', alias: '', description: '', lookup: true };
+
+const splitList = (value: string) => value.split(/[,\s]+/).map(v => v.trim()).filter(Boolean);
+
+export const GuruRegistry: React.FC<GuruRegistryProps> = ({ game, onChange }) => {
+  const [gurus, setGurus] = useState<GuruProfile[]>([]);
+  const [manual, setManual] = useState<ManualGuruPrediction[]>([]);
+  const [picks, setPicks] = useState<Record<string, Picks>>({});
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const draw = getNextDraw(new Date(), game);
+
+  const reload = useCallback(async () => {
+    try {
+      const registry = await getGuruRegistry(game);
+      setGurus(registry.gurus);
+      setManual(registry.manual);
+      setPicks(Object.fromEntries(registry.manual.map(m => [
+        m.guruId,
+        { topPick: m.prediction.topPick, secondary: m.prediction.secondary.join(', ') },
+      ])));
+    } catch (e) {
+      console.error("Failed to load guru registry", e);
+      setError('โหลดรายชื่อสำนักไม่สำเร็จ ตรวจสอบว่าเซิร์ฟเวอร์ API ทำงานอยู่');
+    } finally {
+      setLoading(false);
+    }
+  }, [game]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Runs a change on the server, then reloads; the server's message is shown on failure
+  const submit = async (change: () => Promise<unknown>): Promise<boolean> => {
+    setError(null);
+    try {
+      await withAdminToken(change);
+      await reload();
+      onChange();
+      return true;
+    } catch (e) {
+      setError((e as Error).message);
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const { id, ...fields } = draft;
+    if (await submit(() => (id ? updateGuru(id, fields) : addGuru(fields)))) setDraft(null);
+  };
+
+  const handleDelete = (guru: GuruProfile) => {
+    if (!window.confirm(`ลบ ${guru.name} ออกจากรายชื่อ? สถิติที่ตรวจแล้วยังเก็บไว้ในเครื่อง`)) return;
+    submit(() => deleteGuru(guru.id));
+  };
+
+  const move = (index: number, offset: number) => {
+    const ids = gurus.map(g => g.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    submit(() => reorderGurus(ids));
+  };
+
+  const handleSavePicks = (guru: GuruProfile) => {
+    const entry = picks[guru.id] || { topPick: '', secondary: '' };
+    submit(() => saveManualGuruPrediction(guru.id, game, draw.isoDate, entry.topPick.trim(), splitList(entry.secondary)));
+  };
+
+  const setPick = (id: string, changes: Partial<Picks>) =>
+    setPicks({ ...picks, [id]: { topPick: '', secondary: '', ...picks[id], ...changes } });
+
+  const inputClass = "bg-slate-900 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-yellow-500";
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <UserGroupIcon className="w-6 h-6 text-thai-gold" />
+          <div>
+            <h3 className="text-xl font-bold text-white">จัดการสำนัก</h3>
+            <p className="text-slate-400 text-xs">
+              สำนักที่ติดตาม ใช้ทั้งการค้นหาเลขเด็ดและโหมดรวมเลขสำนักดัง · กรอกเลขเองสำหรับงวด {draw.label} ได้ทุกสำนัก
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setDraft({ ...EMPTY_DRAFT })}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-yellow-700 hover:bg-yellow-600 text-white transition-all"
+        >
+          <PlusIcon className="w-4 h-4" />
+          เพิ่มสำนัก
+        </button>
+      </div>
+
+      {draft && (
+        <div className="mb-4 p-4 bg-slate-800/50 border border-yellow-500/30 rounded-lg space-y-3 text-xs text-slate-400">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="flex flex-col gap-1">
+              ชื่อสำนัก
+              <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="เช่น แม่น้ำหนึ่ง" className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              ฉายา / แนวทาง
+              <input value={draft.alias} onChange={e => setDraft({ ...draft, alias: e.target.value })} placeholder="เช่น ธูปปู่" className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              คำอธิบาย
+              <input value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} placeholder="ไม่บังคับ" className={inputClass} />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={draft.lookup} onChange={e => setDraft({ ...draft, lookup: e.target.checked })} className="accent-yellow-500" />
+            ให้ AI ค้นหาเลขของสำนักนี้ (ปิดไว้ถ้าจะกรอกเลขเองเท่านั้น)
+          </label>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-white hover:bg-white/5">ยกเลิก</button>
+            <button onClick={handleSave} className="px-3 py-1.5 rounded-lg text-xs font-medium bg-yellow-700 hover:bg-yellow-600 text-white">บันทึก</button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mb-3 text-xs text-red-300">{error}</p>}
+
+      {loading ? (
+        <div className="text-center text-slate-500 text-sm py-6">กำลังโหลดข้อมูล...</div>
+      ) : gurus.length === 0 ? (
+        <div className="text-center text-slate-500 text-sm py-6">ยังไม่มีสำนักที่ติดตาม</div>
+      ) : (
+        <ol className="space-y-2">
+          {gurus.map((guru, i) => {
+            const typed = manual.find(m => m.guruId === guru.id);
+            return (
+              <li key={guru.id} className="flex flex-col md:flex-row md:items-center gap-3 p-3 bg-slate-800/50 rounded-lg border border-white/5 text-xs">
+                <div className="flex md:flex-col gap-1">
+                  <button onClick={() => move(i, -1)} disabled={i === 0} title="เลื่อนขึ้น" className="text-slate-500 hover:text-white disabled:opacity-20">
+                    <ChevronUpIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => move(i, 1)} disabled={i === gurus.length - 1} title="เลื่อนลง" className="text-slate-500 hover:text-white disabled:opacity-20">
+                    <ChevronDownIcon className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div className="flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-white font-bold text-sm">{guru.name}</span>
+                    {guru.alias && <span className="text-slate-400 bg-slate-800 px-2 py-0.5 rounded">{guru.alias}</span>}
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded ${guru.lookup ? 'bg-purple-900/40 text-purple-200' : 'bg-slate-700 text-slate-300'}`}>
+                      {guru.lookup ? 'AI ค้นหา' : 'กรอกเองเท่านั้น'}
+                    </span>
+                    {typed && <span className="text-[10px] px-1.5 py-0.5 rounded bg-emerald-900/40 text-emerald-200">กรอกเลขงวดนี้แล้ว</span>}
+                  </div>
+                  {guru.description && <div className="text-slate-500">{guru.description}</div>}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    value={picks[guru.id]?.topPick || ''}
+                    onChange={e => setPick(guru.id, { topPick: e.target.value })}
+                    placeholder="เลขเด่น"
+                    className={`${inputClass} w-20 font-mono`}
+                  />
+                  <input
+                    value={picks[guru.id]?.secondary || ''}
+                    onChange={e => setPick(guru.id, { secondary: e.target.value })}
+                    placeholder="เลขรอง เช่น 12, 345"
+                    className={`${inputClass} w-40 font-mono`}
+                  />
+                  <button onClick={() => handleSavePicks(guru)} className="px-3 py-1.5 rounded-lg text-xs font-medium bg-emerald-700 hover:bg-emerald-600 text-white">
+                    บันทึกเลข
+                  </button>
+                  {typed && (
+                    <button
+                      onClick={() => submit(() => clearManualGuruPrediction(guru.id, game, draw.isoDate))}
+                      title="ลบเลขที่กรอก กลับไปใช้ผลค้นหาของ AI"
+                      className="px-2 py-1.5 rounded-lg text-xs text-slate-400 hover:text-white hover:bg-white/5"
+                    >
+                      ล้าง
+                    </button>
+                  )}
+                  <button onClick={() => setDraft({ ...guru })} title="แก้ไข" className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-white/5">
+                    <PencilSquareIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(guru)} title="ลบ" className="p-1.5 rounded text-slate-500 hover:text-red-400 hover:bg-white/5">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+import { LedgerPeriod } from '../types';
+import { formatThaiDate } from '../services/thaiDate';
+
+interface LedgerChartsProps {
+  periods: LedgerPeriod[];   // Oldest first
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PAD = { top: 12, right: 12, bottom: 28, left: 56 };
+const PLOT_W = WIDTH - PAD.left - PAD.right;
+const PLOT_H = HEIGHT - PAD.top - PAD.bottom;
+
+const shortDate = (isoDate: string) => formatThaiDate(isoDate).split(' ').slice(0, 2).join(' ');
+
+const compactBaht = (amount: number) =>
+  Math.abs(amount) >= 1000 ? `${(amount / 1000).toLocaleString('th-TH', { maximumFractionDigits: 1 })}k` : amount.toLocaleString('th-TH');
+
+const percent = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+
+// Maps a value between min and max to a y coordinate inside the plot
+const scaleY = (min: number, max: number) => (value: number) =>
+  PAD.top + PLOT_H - ((value - min) / (max - min || 1)) * PLOT_H;
+
+const Axis: React.FC<{ min: number; max: number; y: (v: number) => number; periods: LedgerPeriod[]; step: number }> =
+  ({ min, max, y, periods, step }) => {
+    const labelEvery = Math.ceil(periods.length / 8);
+    return (
+      <g className="text-slate-500" fontSize="10" fill="currentColor">
+        {[min, 0, max].filter((v, i, all) => all.indexOf(v) === i).map(v => (
+          <g key={v}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(v)} y2={y(v)} stroke="currentColor" strokeOpacity={v === 0 ? 0.6 : 0.2} />
+            <text x={PAD.left - 6} y={y(v) + 3} textAnchor="end">{compactBaht(v)}</text>
+          </g>
+        ))}
+        {periods.map((p, i) => i % labelEvery === 0 && (
+          <text key={p.drawIsoDate} x={PAD.left + step * (i + 0.5)} y={HEIGHT - 8} textAnchor="middle">{shortDate(p.drawIsoDate)}</text>
+        ))}
+      </g>
+    );
+  };
+
+export const LedgerCharts: React.FC<LedgerChartsProps> = ({ periods }) => {
+  if (periods.length === 0) return null;
+  const step = PLOT_W / periods.length;
+
+  // Spend and winnings per draw, with net as a marker
+  const barMax = Math.max(1, ...periods.flatMap(p => [p.spend, p.winnings]));
+  const barMin = Math.min(0, ...periods.map(p => p.net));
+  const barY = scaleY(barMin, barMax);
+  const barW = Math.min(18, step / 3);
+
+  // Running net and ROI
+  const netValues = periods.map(p => p.cumulativeNet);
+  const lineMin = Math.min(0, ...netValues);
+  const lineMax = Math.max(0, ...netValues, 1);
+  const lineY = scaleY(lineMin, lineMax);
+  const points = periods.map((p, i) => `${PAD.left + step * (i + 0.5)},${lineY(p.cumulativeNet)}`).join(' ');
+  const last = periods[periods.length - 1];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <div className="bg-slate-800/50 border border-white/5 rounded-lg p-3">
+        <div className="flex flex-wrap gap-3 text-xs text-slate-400 mb-2">
+          <span className="font-bold text-slate-300">รายจ่ายและเงินรางวัลต่องวด</span>
+          <span className="text-red-300">■ รายจ่าย</span>
+          <span className="text-green-300">■ เงินรางวัล</span>
+          <span className="text-yellow-300">● สุทธิ</span>
+        </div>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+          <Axis min={barMin} max={barMax} y={barY} periods={periods} step={step} />
+          {periods.map((p, i) => {
+            const x = PAD.left + step * (i + 0.5);
+            return (
+              <g key={p.drawIsoDate}>
+                <title>{`${formatThaiDate(p.drawIsoDate)}: จ่าย ${p.spend.toLocaleString('th-TH')} · ได้ ${p.winnings.toLocaleString('th-TH')} · ROI ${percent(p.roi)}${p.pending ? ' · รอผล' : ''}`}</title>
+                <rect x={x - barW} y={barY(p.spend)} width={barW} height={barY(0) - barY(p.spend)} className="fill-red-400/70" />
+                <rect x={x} y={barY(p.winnings)} width={barW} height={barY(0) - barY(p.winnings)} className="fill-green-400/70" />
+                <circle cx={x} cy={barY(p.net)} r={3} className={p.pending ? 'fill-slate-500' : 'fill-yellow-300'} />
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="bg-slate-800/50 border border-white/5 rounded-lg p-3">
+        <div className="flex flex-wrap justify-between gap-3 text-xs text-slate-400 mb-2">
+          <span className="font-bold text-slate-300">กำไรสุทธิสะสม</span>
+          <span>
+            ROI สะสม <span className={(last.cumulativeRoi || 0) >= 0 ? 'text-green-300' : 'text-red-300'}>{percent(last.cumulativeRoi)}</span>
+          </span>
+        </div>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+          <Axis min={lineMin} max={lineMax} y={lineY} periods={periods} step={step} />
+          <polyline points={points} fill="none" strokeWidth={2} className="stroke-yellow-300" />
+          {periods.map((p, i) => (
+            <circle key={p.drawIsoDate} cx={PAD.left + step * (i + 0.5)} cy={lineY(p.cumulativeNet)} r={3} className="fill-yellow-300">
+              <title>{`${formatThaiDate(p.drawIsoDate)}: สุทธิสะสม ${p.cumulativeNet.toLocaleString('th-TH')} บาท · ROI สะสม ${percent(p.cumulativeRoi)}`}</title>
+            </circle>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+};
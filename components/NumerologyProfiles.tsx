@@ -0,0 +1,186 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { NumerologyProfile } from '../types';
+import { listNumerologyProfiles, saveNumerologyProfile, deleteNumerologyProfile } from '../services/numerologyProfiles';
+import { BIRTH_DAYS, birthDayOf, validateNumerologyProfile } from '../services/numerology';
+import { parseThaiDate, formatThaiDate } from '../services/thaiDate';
+import { UserPlusIcon, TrashIcon } from '@heroicons/react/24/solid';
+
+interface NumerologyProfilesProps {
+  selected: NumerologyProfile | null;
+  onSelect: (profile: NumerologyProfile | null) => void;
+}
+
+interface Draft {
+  id?: string;
+  name: string;
+  birthDate: string;   // As typed, either era
+  birthDay: number;
+  phone: string;
+  plate: string;
+}
+
+const EMPTY_DRAFT: Draft = { name: '', birthDate: '', birthDay: -1, phone: '', plate: '' };
+
+const toDraft = (profile: NumerologyProfile): Draft => ({
+  id: profile.id,
+  name: profile.name,
+  birthDate: formatThaiDate(profile.birthDate),
+  birthDay: profile.birthDay,
+  phone: profile.phone,
+  plate: profile.plate,
+});
+
+export const NumerologyProfiles: React.FC<NumerologyProfilesProps> = ({ selected, onSelect }) => {
+  const [profiles, setProfiles] = useState<NumerologyProfile[]>([]);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const reload = useCallback(async () => {
+    try {
+      const list = await listNumerologyProfiles();
+      setProfiles(list);
+      return list;
+    } catch (e) {
+      console.error("Failed to load numerology profiles", e);
+      return [];
+    }
+  }, []);
+
+  // Keep the current selection when the panel reopens; otherwise start with the first saved profile
+  useEffect(() => {
+    reload().then(list => {
+      const initial = (selected && list.find(p => p.id === selected.id)) || list[0];
+      if (initial) {
+        onSelect(initial);
+        setDraft(toDraft(initial));
+      }
+    });
+  }, [reload]);
+
+  const handlePick = (id: string) => {
+    const profile = profiles.find(p => p.id === id) || null;
+    onSelect(profile);
+    setDraft(profile ? toDraft(profile) : EMPTY_DRAFT);
+    setErrors([]);
+  };
+
+  // Fill in the weekday as soon as the date can be read; Wednesday night must be picked by hand
+  const handleBirthDate = (value: string) => {
+    const iso = parseThaiDate(value);
+    setDraft(d => {
+      if (!iso) return { ...d, birthDate: value };
+      const weekday = birthDayOf(iso);
+      return { ...d, birthDate: value, birthDay: d.birthDay === 7 && weekday === 3 ? 7 : weekday };
+    });
+  };
+
+  const handleSave = async () => {
+    const profile = {
+      id: draft.id,
+      name: draft.name.trim(),
+      birthDate: parseThaiDate(draft.birthDate) || '',
+      birthDay: draft.birthDay,
+      phone: draft.phone.replace(/\D/g, ''),
+      plate: draft.plate.trim(),
+    };
+    const problems = validateNumerologyProfile(profile);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    let saved: NumerologyProfile;
+    try {
+      saved = await saveNumerologyProfile(profile);
+    } catch (e) {
+      console.error("Failed to save numerology profile", e);
+      setErrors(['บันทึกโปรไฟล์ไม่สำเร็จ ลองบันทึกอีกครั้ง']);
+      return;
+    }
+    await reload();
+    onSelect(saved);
+    setDraft(toDraft(saved));
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id || !window.confirm(`ลบโปรไฟล์ ${draft.name}?`)) return;
+    setErrors([]);
+    try {
+      await deleteNumerologyProfile(draft.id);
+    } catch (e) {
+      console.error("Failed to delete numerology profile", e);
+      setErrors([`ลบโปรไฟล์ ${draft.name} ไม่สำเร็จ`]);
+      return;
+    }
+    const list = await reload();
+    onSelect(list[0] || null);
+    setDraft(list[0] ? toDraft(list[0]) : EMPTY_DRAFT);
+  };
+
+  const inputClass = "bg-slate-900 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-amber-500";
+
+  return (
+    <div className="w-full mb-8 glass-panel p-4 rounded-xl border border-amber-500/20 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-sm font-bold text-amber-300">โปรไฟล์</label>
+        <select
+          value={selected?.id || ''}
+          onChange={e => handlePick(e.target.value)}
+          className={inputClass}
+        >
+          <option value="">+ โปรไฟล์ใหม่</option>
+          {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <button
+          onClick={() => handlePick('')}
+          title="เพิ่มโปรไฟล์"
+          className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-white/5 transition-all"
+        >
+          <UserPlusIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs text-slate-400">
+        <label className="flex flex-col gap-1">
+          ชื่อ
+          <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="เช่น คุณพ่อ" className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          วันเดือนปีเกิด (พ.ศ. หรือ ค.ศ.)
+          <input value={draft.birthDate} onChange={e => handleBirthDate(e.target.value)} placeholder="เช่น 16/03/2530 หรือ 1987-03-16" className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          เกิดวัน
+          <select value={draft.birthDay} onChange={e => setDraft({ ...draft, birthDay: +e.target.value })} className={inputClass}>
+            <option value={-1}>เลือกวันเกิด</option>
+            {BIRTH_DAYS.map(d => <option key={d.day} value={d.day}>{d.label}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          เบอร์โทรศัพท์ (ไม่บังคับ)
+          <input value={draft.phone} onChange={e => setDraft({ ...draft, phone: e.target.value })} placeholder="เช่น 081-234-5678" className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 md:col-span-2">
+          ทะเบียนรถ (ไม่บังคับ)
+          <input value={draft.plate} onChange={e => setDraft({ ...draft, plate: e.target.value })} placeholder="เช่น 1กข 2345" className={inputClass} />
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-300 space-y-1">
+          {errors.map((err, i) => <li key={i}>{err}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {draft.id && (
+          <button onClick={handleDelete} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-red-400 hover:bg-white/5">
+            <TrashIcon className="w-3 h-3" />
+            ลบ
+          </button>
+        )}
+        <button onClick={handleSave} className="px-3 py-1.5 rounded-lg text-xs font-medium bg-amber-700 hover:bg-amber-600 text-white">
+          {draft.id ? 'บันทึกการแก้ไข' : 'บันทึกโปรไฟล์'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ExpansionKind, GuruStat, LotterySet, PlayNumber } from '../types';
+import { EXPANSIONS, expandNumbers, parseNumberList } from '../services/permutations';
+import { ArrowsRightLeftIcon, PaperAirplaneIcon } from '@heroicons/react/24/solid';
+
+interface PermutationToolProps {
+  currentSet: LotterySet;
+  gurus: GuruStat[];
+  preset?: string[] | null;   // Numbers sent from elsewhere, e.g. a guru card
+  onSend: (numbers: PlayNumber[]) => void;
+}
+
+// Quick picks: the 2 and 3 digit numbers of the current set, plus every guru number
+const quickPicks = (set: LotterySet, gurus: GuruStat[]): { label: string; numbers: string[] }[] => [
+  {
+    label: 'ชุดเลขปัจจุบัน',
+    numbers: [set.prize1.slice(-3), ...set.front3, ...set.rear3, set.rear2].filter(n => /^\d+$/.test(n)),
+  },
+  ...gurus
+    .filter(g => !g.degraded && g.nextDrawPrediction?.topPick)
+    .map(g => ({ label: g.name, numbers: [g.nextDrawPrediction.topPick, ...(g.nextDrawPrediction.secondary || [])] })),
+];
+
+export const PermutationTool: React.FC<PermutationToolProps> = ({ currentSet, gurus, preset, onSend }) => {
+  const [input, setInput] = useState('');
+  const [kinds, setKinds] = useState<ExpansionKind[]>(['PERMUTE']);
+  const [includeDoubles, setIncludeDoubles] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  useEffect(() => {
+    if (preset) setInput(preset.join(' '));
+  }, [preset]);
+
+  const inputs = parseNumberList(input);
+  const result = useMemo(() => expandNumbers(kinds, inputs, includeDoubles), [kinds, input, includeDoubles]);
+
+  useEffect(() => setSent(false), [result]);
+
+  const toggleKind = (kind: ExpansionKind) =>
+    setKinds(kinds.includes(kind) ? kinds.filter(k => k !== kind) : [...kinds, kind]);
+
+  const addInput = (numbers: string[]) =>
+    setInput(parseNumberList(`${input} ${numbers.join(' ')}`).join(' '));
+
+  const twoDigit = result.numbers.filter(n => n.number.length === 2);
+  const threeDigit = result.numbers.filter(n => n.number.length === 3);
+
+  const handleSend = () => {
+    onSend(result.numbers);
+    setSent(true);
+  };
+
+  const numberList = (label: string, numbers: PlayNumber[]) => numbers.length > 0 && (
+    <div>
+      <div className="text-slate-400 mb-1">{label} ({numbers.length} ตัว)</div>
+      <div className="flex flex-wrap gap-1 max-h-48 overflow-y-auto">
+        {numbers.map(n => (
+          <span key={n.number} title={n.origin} className="font-mono bg-slate-800 text-white px-1.5 py-0.5 rounded">
+            {n.number}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div id="permutation-tool" className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20">
+      <div className="flex items-center gap-2 mb-4">
+        <ArrowsRightLeftIcon className="w-6 h-6 text-thai-gold" />
+        <div>
+          <h3 className="text-xl font-bold text-white">กลับเลข / 19 ประตู / รูดเลข</h3>
+          <p className="text-slate-400 text-xs">ขยายเลข 2-3 ตัวเป็นชุดเลขเล่น ตัดเลขซ้ำอัตโนมัติ แล้วส่งไปยังรายการส่งออก</p>
+        </div>
+      </div>
+
+      <div className="space-y-3 text-xs">
+        <input
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder="ใส่เลข คั่นด้วยช่องว่างหรือจุลภาค เช่น 123 45 หรือหลักชอบสำหรับเลขชุด เช่น 1357"
+          className="w-full bg-slate-900 border border-white/10 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-thai-gold"
+        />
+
+        <div className="flex flex-wrap gap-1">
+          {quickPicks(currentSet, gurus).filter(p => p.numbers.length > 0).map((pick, i) => (
+            <button
+              key={i}
+              onClick={() => addInput(pick.numbers)}
+              title={pick.numbers.join(' ')}
+              className="px-2 py-1 rounded-lg border border-slate-700 text-slate-400 hover:text-white hover:bg-white/5"
+            >
+              + {pick.label}
+            </button>
+          ))}
+          {input && (
+            <button onClick={() => setInput('')} className="px-2 py-1 text-slate-500 hover:text-white">ล้าง</button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1">
+          {EXPANSIONS.map(e => (
+            <button
+              key={e.kind}
+              onClick={() => toggleKind(e.kind)}
+              title={e.description}
+              className={`px-2 py-1.5 rounded-lg border transition-all ${
+                kinds.includes(e.kind) ? 'bg-yellow-900/40 border-yellow-500/50 text-yellow-300' : 'border-slate-700 text-slate-400'
+              }`}
+            >
+              {e.label}
+            </button>
+          ))}
+          <label className="flex items-center gap-1 ml-2 text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={includeDoubles} onChange={e => setIncludeDoubles(e.target.checked)} className="accent-yellow-500" />
+            เลขชุดรวมเลขเบิ้ล
+          </label>
+        </div>
+
+        {result.skipped.length > 0 && (
+          <ul className="text-yellow-300 space-y-0.5">
+            {result.skipped.map((reason, i) => <li key={i}>ข้าม: {reason}</li>)}
+          </ul>
+        )}
+
+        {result.numbers.length > 0 && (
+          <div className="p-3 bg-slate-800/50 border border-white/5 rounded-lg space-y-3">
+            {numberList('เลข 2 ตัว', twoDigit)}
+            {numberList('เลข 3 ตัว', threeDigit)}
+            <div className="flex flex-wrap justify-between items-center gap-2 pt-2 border-t border-white/5">
+              <span className="text-slate-400">
+                ทั้งหมด {result.numbers.length} ตัว
+                {result.generated > result.numbers.length && ` · ตัดเลขซ้ำ ${result.generated - result.numbers.length} ตัว`}
+              </span>
+              <button
+                onClick={handleSend}
+                disabled={sent}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg font-medium bg-yellow-700 hover:bg-yellow-600 text-white disabled:opacity-50"
+              >
+                <PaperAirplaneIcon className="w-3 h-3" />
+                {sent ? 'ส่งแล้ว' : 'ส่งไปรายการส่งออก'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
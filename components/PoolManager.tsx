@@ -0,0 +1,314 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { LedgerEntry, Pool, PoolContribution, PoolMember, PoolStatement } from '../types';
+import { buildPoolStatements, deletePool, listPoolContributions, listPools, membersIn, savePool, savePoolContribution, validatePool } from '../services/pools';
+import { listLedgerEntries } from '../services/ledger';
+import { newId } from '../services/db';
+import { getNextDraw } from '../services/drawCalendar';
+import { formatThaiDate } from '../services/thaiDate';
+import { formatBaht } from '../services/ticketChecker';
+import { ExportTable, downloadCsv, downloadJson, printTable } from '../services/exporter';
+import { UserGroupIcon, UserPlusIcon, TrashIcon, ArrowDownTrayIcon, PrinterIcon } from '@heroicons/react/24/solid';
+
+interface PoolManagerProps {
+  refreshKey?: number;   // Bump to reload after ledger entries change elsewhere
+  onChange?: () => void; // Called after a pool is saved or deleted
+}
+
+const baht = (amount: number) => amount.toLocaleString('th-TH', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const statementTable = (pool: Pool, statement: PoolStatement): ExportTable => ({
+  title: `ใบแจ้งยอดกองกลาง ${pool.name} งวด ${formatThaiDate(statement.drawIsoDate)}`,
+  headers: ['สมาชิก', 'ยอดยกมา', 'ลงขัน', 'รวมทุน', 'สัดส่วน', 'ค่าสลาก', 'เงินรางวัล', 'ยอดยกไป'],
+  rows: statement.members.map(m => [
+    m.name,
+    baht(m.carriedIn),
+    baht(m.contribution),
+    baht(m.stake),
+    `${(m.share * 100).toFixed(2)}%`,
+    baht(m.spend),
+    baht(m.winnings),
+    baht(m.carriedOut),
+  ]),
+});
+
+const statementSummary = (statement: PoolStatement) =>
+  `สลาก ${statement.tickets.map(t => `${t.number}×${t.quantity}`).join(', ') || '-'} · ค่าสลาก ${formatBaht(statement.spend)} · ` +
+  `เงินรางวัล ${formatBaht(statement.winnings)}${statement.pending ? ' (รอผลบางใบ)' : ''}`;
+
+export const PoolManager: React.FC<PoolManagerProps> = ({ refreshKey = 0, onChange }) => {
+  const [pools, setPools] = useState<Pool[]>([]);
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [contributions, setContributions] = useState<PoolContribution[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [newPoolName, setNewPoolName] = useState('');
+  const [newMember, setNewMember] = useState('');
+  const [drawIsoDate, setDrawIsoDate] = useState(() => getNextDraw().isoDate);
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const pool = pools.find(p => p.id === selectedId) || null;
+
+  const reload = useCallback(async () => {
+    try {
+      const [poolList, ledger] = await Promise.all([listPools(), listLedgerEntries()]);
+      setPools(poolList);
+      setEntries(ledger);
+      setSelectedId(id => (poolList.some(p => p.id === id) ? id : poolList[0]?.id || ''));
+    } catch (e) {
+      console.error("Failed to load pools", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload, refreshKey]);
+
+  useEffect(() => {
+    if (!selectedId) return setContributions([]);
+    listPoolContributions(selectedId)
+      .then(setContributions)
+      .catch(e => console.error("Failed to load pool contributions", e));
+  }, [selectedId, refreshKey]);
+
+  const statements = useMemo(
+    () => (pool ? buildPoolStatements(pool, contributions, entries) : []),
+    [pool, contributions, entries]
+  );
+  const statement = statements.find(s => s.drawIsoDate === drawIsoDate) || null;
+  const members = pool ? membersIn(pool, drawIsoDate) : [];
+  const formerMembers = pool ? pool.members.filter(m => m.leftFrom) : [];
+
+  // Draws that already have a statement, plus the next one so contributions can be entered ahead
+  const drawDates = useMemo(() => {
+    const next = getNextDraw().isoDate;
+    return [...new Set([next, ...statements.map(s => s.drawIsoDate)])].sort().reverse() as string[];
+  }, [statements]);
+
+  // Show the saved contributions of the selected draw for editing
+  useEffect(() => {
+    const saved = contributions.find(c => c.drawIsoDate === drawIsoDate)?.amounts || {};
+    setAmounts(Object.fromEntries(Object.entries(saved).map(([id, amount]) => [id, String(amount)])));
+  }, [contributions, drawIsoDate]);
+
+  const persist = async (next: Omit<Pool, 'id' | 'updatedAt'> & { id?: string }) => {
+    const problems = validatePool(next);
+    setErrors(problems);
+    if (problems.length > 0) return null;
+    let saved: Pool;
+    try {
+      saved = await savePool(next);
+    } catch (e) {
+      console.error("Failed to save pool", e);
+      setErrors(['บันทึกกองกลางไม่สำเร็จ']);
+      return null;
+    }
+    await reload();
+    onChange?.();
+    return saved;
+  };
+
+  const handleCreatePool = async () => {
+    const saved = await persist({ name: newPoolName.trim(), members: [] });
+    if (!saved) return;
+    setSelectedId(saved.id);
+    setNewPoolName('');
+  };
+
+  const handleDeletePool = async () => {
+    if (!pool || !window.confirm(`ลบกองกลาง ${pool.name}? สลากของกองกลางจะยังอยู่ในบัญชีเป็นสลากส่วนตัว`)) return;
+    setErrors([]);
+    try {
+      await deletePool(pool.id, entries);
+    } catch (e) {
+      console.error("Failed to delete pool", e);
+      setErrors([`ลบกองกลาง ${pool.name} ไม่สำเร็จ`]);
+    }
+    await reload();
+    onChange?.();
+  };
+
+  const handleAddMember = async () => {
+    if (!pool) return;
+    const member: PoolMember = { id: newId(), name: newMember.trim() };
+    if (await persist({ ...pool, members: [...pool.members, member] })) setNewMember('');
+  };
+
+  // From the selected draw on; statements of earlier draws keep the member
+  const handleRemoveMember = async (member: PoolMember) => {
+    if (!pool || !window.confirm(
+      `นำ ${member.name} ออกจากกองกลางตั้งแต่งวด ${formatThaiDate(drawIsoDate)}? ใบแจ้งยอดงวดก่อนหน้ายังคงเดิม ยอดยกไปงวดสุดท้ายของสมาชิกคนนี้ต้องคืนกันเอง`
+    )) return;
+    await persist({ ...pool, members: pool.members.map(m => (m.id === member.id ? { ...m, leftFrom: drawIsoDate } : m)) });
+  };
+
+  const handleSaveContributions = async () => {
+    if (!pool) return;
+    const parsed = Object.fromEntries(
+      members.map(m => [m.id, Number(amounts[m.id] || 0)])
+    ) as Record<string, number>;
+    const invalid = members.filter(m => !Number.isFinite(parsed[m.id]) || parsed[m.id] < 0);
+    if (invalid.length > 0) {
+      setErrors(invalid.map(m => `ยอดลงขันของ ${m.name} ไม่ถูกต้อง`));
+      return;
+    }
+    setErrors([]);
+    try {
+      await savePoolContribution(pool.id, drawIsoDate, parsed);
+      setContributions(await listPoolContributions(pool.id));
+    } catch (e) {
+      console.error("Failed to save pool contributions", e);
+      setErrors(['บันทึกยอดลงขันไม่สำเร็จ']);
+    }
+  };
+
+  const inputClass = "bg-slate-900 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500";
+  const buttonClass = "flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-300 hover:text-white hover:bg-white/5 disabled:opacity-30";
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20 space-y-4">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div className="flex items-center gap-2">
+          <UserGroupIcon className="w-6 h-6 text-indigo-300" />
+          <div>
+            <h3 className="text-xl font-bold text-white">กองกลางซื้อสลาก</h3>
+            <p className="text-slate-400 text-xs">แบ่งค่าสลากและเงินรางวัลตามสัดส่วนเงินลงขัน เงินที่เหลือยกไปงวดถัดไป</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <select value={selectedId} onChange={e => setSelectedId(e.target.value)} className={inputClass}>
+            {pools.length === 0 && <option value="">ยังไม่มีกองกลาง</option>}
+            {pools.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <input value={newPoolName} onChange={e => setNewPoolName(e.target.value)} placeholder="ชื่อกองกลางใหม่" className={`${inputClass} w-40`} />
+          <button onClick={handleCreatePool} className="px-3 py-2 rounded-lg font-medium bg-indigo-700 hover:bg-indigo-600 text-white">สร้าง</button>
+          {pool && (
+            <button onClick={handleDeletePool} title="ลบกองกลาง" className="p-2 text-slate-400 hover:text-red-400">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-300 space-y-1">
+          {errors.map((err, i) => <li key={i}>{err}</li>)}
+        </ul>
+      )}
+
+      {pool && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-slate-400">สมาชิก</span>
+            {members.map(m => (
+              <span key={m.id} className="flex items-center gap-1 bg-slate-800 text-slate-200 pl-2 pr-1 py-1 rounded">
+                {m.name}
+                <button onClick={() => handleRemoveMember(m)} className="text-slate-500 hover:text-red-400">
+                  <TrashIcon className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            <input value={newMember} onChange={e => setNewMember(e.target.value)} placeholder="ชื่อสมาชิก" className={`${inputClass} w-32 py-1`} />
+            <button onClick={handleAddMember} title="เพิ่มสมาชิก" className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/5">
+              <UserPlusIcon className="w-4 h-4" />
+            </button>
+            {formerMembers.length > 0 && (
+              <span className="text-slate-500">
+                ออกไปแล้ว: {formerMembers.map(m => `${m.name} (ตั้งแต่งวด ${formatThaiDate(m.leftFrom!)})`).join(', ')}
+              </span>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-slate-400">งวด</span>
+            <select value={drawIsoDate} onChange={e => setDrawIsoDate(e.target.value)} className={inputClass}>
+              {drawDates.map(iso => <option key={iso} value={iso}>{formatThaiDate(iso)}</option>)}
+            </select>
+            <span className="text-slate-500">ซื้อสลากให้กองกลางได้จากบัญชีสลากที่ซื้อ โดยเลือก "ซื้อด้วยเงิน"</span>
+          </div>
+
+          {members.length === 0 ? (
+            <div className="text-center text-slate-500 text-sm py-4">เพิ่มสมาชิกเพื่อเริ่มบันทึกเงินลงขัน</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-400 border-b border-white/10">
+                    <th className="px-3 py-2 text-left">สมาชิก</th>
+                    <th className="px-3 py-2 text-right">ยอดยกมา</th>
+                    <th className="px-3 py-2 text-right">ลงขันงวดนี้</th>
+                    <th className="px-3 py-2 text-right">สัดส่วน</th>
+                    <th className="px-3 py-2 text-right">ค่าสลาก</th>
+                    <th className="px-3 py-2 text-right">เงินรางวัล</th>
+                    <th className="px-3 py-2 text-right">ยอดยกไป</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {members.map(m => {
+                    const line = statement?.members.find(s => s.memberId === m.id);
+                    return (
+                      <tr key={m.id} className="border-b border-white/5">
+                        <td className="px-3 py-2 text-white">{m.name}</td>
+                        <td className="px-3 py-2 text-right font-mono text-slate-300">{line ? baht(line.carriedIn) : '-'}</td>
+                        <td className="px-3 py-2 text-right">
+                          <input
+                            type="number"
+                            min={0}
+                            value={amounts[m.id] ?? ''}
+                            onChange={e => setAmounts({ ...amounts, [m.id]: e.target.value })}
+                            placeholder="0"
+                            className="w-24 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-right text-white"
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-right font-mono text-slate-300">{line ? `${(line.share * 100).toFixed(1)}%` : '-'}</td>
+                        <td className="px-3 py-2 text-right font-mono text-red-300">{line ? baht(line.spend) : '-'}</td>
+                        <td className="px-3 py-2 text-right font-mono text-green-300">{line ? baht(line.winnings) : '-'}</td>
+                        <td className={`px-3 py-2 text-right font-mono ${line && line.carriedOut < 0 ? 'text-red-300' : 'text-slate-200'}`}>
+                          {line ? baht(line.carriedOut) : '-'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex flex-wrap justify-between items-center gap-2 text-xs">
+            <div className="text-slate-400">
+              {statement ? statementSummary(statement) : 'ยังไม่มีเงินลงขันหรือสลากของงวดนี้'}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={handleSaveContributions} disabled={members.length === 0} className="px-3 py-1.5 rounded-lg font-medium bg-indigo-700 hover:bg-indigo-600 text-white disabled:opacity-30">
+                บันทึกเงินลงขัน
+              </button>
+              <button
+                onClick={() => statement && downloadCsv(`pool-${pool.name}-${statement.drawIsoDate}.csv`, statementTable(pool, statement))}
+                disabled={!statement}
+                className={buttonClass}
+              >
+                <ArrowDownTrayIcon className="w-3 h-3" />
+                CSV
+              </button>
+              <button
+                onClick={() => statement && downloadJson(`pool-${pool.name}-${statement.drawIsoDate}.json`, { pool: pool.name, ...statement })}
+                disabled={!statement}
+                className={buttonClass}
+              >
+                <ArrowDownTrayIcon className="w-3 h-3" />
+                JSON
+              </button>
+              <button
+                onClick={() => statement && printTable(statementTable(pool, statement), statementSummary(statement))}
+                disabled={!statement}
+                className={buttonClass}
+              >
+                <PrinterIcon className="w-3 h-3" />
+                พิมพ์ใบแจ้งยอด
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
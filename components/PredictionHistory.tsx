@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { GameId, GeneratorMode, LotterySet, SavedPrediction } from '../types';
+import { listPredictions, updatePrediction, deletePrediction } from '../services/predictionHistory';
+import { formatBaht } from '../services/ticketChecker';
+import { MODE_LABELS } from '../constants';
+import { DEFAULT_GAME, GAMES, gameOf } from '../services/games';
+import { ClockIcon, StarIcon, TrashIcon, ArrowPathIcon, EyeIcon, ShieldCheckIcon } from '@heroicons/react/24/solid';
+import { StarIcon as StarOutlineIcon } from '@heroicons/react/24/outline';
+
+interface PredictionHistoryProps {
+  refreshKey?: number;                             // Bump after a new set is saved
+  onSelect: (set: LotterySet) => void;             // Show a saved set in the main display
+  onRegenerate: (mode: GeneratorMode, game: GameId, templateId?: string) => void;   // Generate a fresh set in the same mode and game
+  onVerify?: (set: LotterySet) => void;            // Check a seeded RNG set against its seed
+  disabled?: boolean;
+}
+
+const ALL = 'ALL';
+
+export const PredictionHistory: React.FC<PredictionHistoryProps> = ({ refreshKey = 0, onSelect, onRegenerate, onVerify, disabled }) => {
+  const [records, setRecords] = useState<SavedPrediction[]>([]);
+  const [drawFilter, setDrawFilter] = useState<string>(ALL);
+  const [modeFilter, setModeFilter] = useState<string>(ALL);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setRecords(await listPredictions());
+    } catch (e) {
+      console.error("Failed to load prediction history", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload, refreshKey]);
+
+  const replace = (updated?: SavedPrediction) => {
+    if (updated) setRecords(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+  };
+
+  // Rows only change once the store has accepted the change
+  const attempt = async (change: () => Promise<void>, message: string) => {
+    setError(null);
+    try {
+      await change();
+    } catch (e) {
+      console.error("Failed to update prediction history", e);
+      setError(message);
+    }
+  };
+
+  const toggleFavorite = (record: SavedPrediction) =>
+    attempt(async () => replace(await updatePrediction(record.id, { favorite: !record.favorite })), 'บันทึกรายการโปรดไม่สำเร็จ');
+
+  const saveNote = async (record: SavedPrediction) => {
+    const note = notes[record.id];
+    if (note === undefined || note === record.note) return;
+    await attempt(async () => replace(await updatePrediction(record.id, { note })), 'บันทึกโน้ตไม่สำเร็จ');
+  };
+
+  const handleDelete = (id: string) =>
+    attempt(async () => {
+      await deletePrediction(id);
+      setRecords(prev => prev.filter(r => r.id !== id));
+    }, 'ลบชุดเลขไม่สำเร็จ');
+
+  // Draw dates available for filtering, newest first
+  const drawOptions = [
+    ...new Map<string, string>(records.map(r => [r.drawIsoDate || r.drawDate || '', r.drawDate || '-'])).entries()
+  ].sort((a, b) => b[0].localeCompare(a[0]));
+
+  const visible = records.filter(r =>
+    (drawFilter === ALL || (r.drawIsoDate || r.drawDate) === drawFilter) &&
+    (modeFilter === ALL || r.source === modeFilter) &&
+    (!favoritesOnly || r.favorite)
+  );
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <ClockIcon className="w-6 h-6 text-purple-300" />
+          <div>
+            <h3 className="text-xl font-bold text-white">ประวัติการทำนาย</h3>
+            <p className="text-slate-400 text-xs">บันทึกไว้ {records.length} ชุด</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 text-xs">
+          <select
+            value={drawFilter}
+            onChange={(e) => setDrawFilter(e.target.value)}
+            className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-white"
+          >
+            <option value={ALL}>ทุกงวด</option>
+            {drawOptions.map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+          <select
+            value={modeFilter}
+            onChange={(e) => setModeFilter(e.target.value)}
+            className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-white"
+          >
+            <option value={ALL}>ทุกโหมด</option>
+            {Object.entries(MODE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+          <button
+            onClick={() => setFavoritesOnly(!favoritesOnly)}
+            className={`flex items-center gap-1 px-2 py-1.5 rounded-lg border ${
+              favoritesOnly ? 'bg-yellow-900/40 border-yellow-500/50 text-yellow-300' : 'border-slate-700 text-slate-400'
+            }`}
+          >
+            <StarIcon className="w-3 h-3" />
+            รายการโปรด
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-3 text-xs text-red-300">{error}</p>}
+
+      {visible.length === 0 ? (
+        <div className="text-center text-slate-500 text-sm py-6">ยังไม่มีประวัติการทำนายที่ตรงกับตัวกรอง</div>
+      ) : (
+        <div className="max-h-[32rem] overflow-y-auto space-y-2 pr-1">
+          {visible.map((record) => (
+            <div key={record.id} className="bg-slate-800/50 rounded-lg border border-white/5 p-3 text-xs space-y-2">
+              <div className="flex flex-wrap justify-between items-center gap-2">
+                <div className="flex items-center gap-2">
+                  <button onClick={() => toggleFavorite(record)} className="text-yellow-400">
+                    {record.favorite ? <StarIcon className="w-4 h-4" /> : <StarOutlineIcon className="w-4 h-4" />}
+                  </button>
+                  <span className="bg-slate-700 text-slate-200 px-2 py-0.5 rounded">
+                    {record.source === 'CUSTOM' && record.promptTemplate ? record.promptTemplate.label : MODE_LABELS[record.source] || record.source}
+                  </span>
+                  {record.promptTemplate && (
+                    <span className="text-slate-500" title="เวอร์ชันพรอมต์ที่ใช้สร้างชุดนี้">พรอมต์ v{record.promptTemplate.version}</span>
+                  )}
+                  {gameOf(record) !== DEFAULT_GAME && (
+                    <span className="bg-indigo-900/50 text-indigo-200 px-2 py-0.5 rounded">{GAMES[gameOf(record)].shortName}</span>
+                  )}
+                  <span className="text-thai-gold">งวด {record.drawDate}</span>
+                </div>
+                <span className="text-slate-500">{new Date(record.timestamp).toLocaleString('th-TH')}</span>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 font-mono">
+                <span className="font-bold text-white tracking-widest">{record.prize1}</span>
+                {record.front3.length > 0 && <span className="text-cyan-300">{record.front3.join(' ')}</span>}
+                <span className="text-pink-300">{record.rear3.join(' ')}</span>
+                <span className="font-bold text-yellow-400">{record.rear2}</span>
+                {record.confidence !== undefined && <span className="text-slate-400 font-sans">ความมั่นใจ {record.confidence}%</span>}
+                {record.seed && <span className="text-slate-500">seed {record.seed}</span>}
+              </div>
+
+              {record.score && (
+                <div className="flex flex-wrap gap-1">
+                  <span className="bg-slate-700/60 text-slate-300 px-1.5 py-0.5 rounded">
+                    ผลจริง: ตรงรายหลัก {record.score.digitMatches}/{GAMES[gameOf(record)].prize1.digits} · 3 ตัว {record.score.front3Hits + record.score.rear3Hits} · 2 ตัว {record.score.rear2Hit ? 'ถูก' : 'ไม่ถูก'}
+                  </span>
+                  {record.score.prizeHits.map((h, i) => (
+                    <span key={i} className="bg-green-900/40 text-green-300 px-1.5 py-0.5 rounded">
+                      {h.label} ({formatBaht(h.amount)})
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {record.reasoning && <p className="text-slate-400 italic line-clamp-2">"{record.reasoning}"</p>}
+
+              <div className="flex items-center gap-2">
+                <input
+                  value={notes[record.id] ?? record.note}
+                  onChange={(e) => setNotes({ ...notes, [record.id]: e.target.value })}
+                  onBlur={() => saveNote(record)}
+                  placeholder="เพิ่มโน้ต..."
+                  className="flex-1 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white placeholder-slate-600"
+                />
+                <button onClick={() => onSelect(record)} title="แสดงชุดนี้" className="text-slate-400 hover:text-white">
+                  <EyeIcon className="w-4 h-4" />
+                </button>
+                {record.seed && onVerify && (
+                  <button onClick={() => onVerify(record)} title="ตรวจสอบจาก seed" className="text-slate-400 hover:text-white">
+                    <ShieldCheckIcon className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => onRegenerate(record.source as GeneratorMode, gameOf(record), record.promptTemplate?.id)}
+                  disabled={disabled}
+                  title="สร้างใหม่ด้วยโหมดเดิม"
+                  className="text-slate-400 hover:text-white disabled:opacity-30"
+                >
+                  <ArrowPathIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(record.id)} title="ลบ" className="text-slate-400 hover:text-red-400">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,303 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GameId, PromptTemplate, PromptTemplateVersion } from '../types';
+import { PromptPreview, createCustomMode, deleteCustomMode, previewPrompt, rollbackPromptTemplate, savePromptVersion, withAdminToken } from '../services/lottoApi';
+import { TEMPLATE_VARIABLES, VARIABLES_BY_TASK, currentVersion } from '../services/promptTemplates';
+import { GAMES } from '../services/games';
+import { AdjustmentsHorizontalIcon, ArrowUturnLeftIcon, EyeIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/solid';
+
+interface PromptSettingsProps {
+  game: GameId;                  // Previews are rendered for this game's next draw
+  templates: PromptTemplate[];
+  onChange: () => void;          // Called after a version, rollback or custom mode is saved
+  onUseMode?: (id: string) => void;   // Switch the generator to a custom mode
+}
+
+interface Draft {
+  prompt: string;
+  systemInstruction: string;
+}
+
+interface NewMode {
+  label: string;
+  description: string;
+  from: string;
+}
+
+const PREVIEW_DELAY_MS = 500;
+
+const formatSavedAt = (version: PromptTemplateVersion) =>
+  version.savedAt ? new Date(version.savedAt).toLocaleString('th-TH', { dateStyle: 'medium', timeStyle: 'short' }) : 'ค่าเริ่มต้นของระบบ';
+
+const toDraft = (version: PromptTemplateVersion): Draft => ({ prompt: version.prompt, systemInstruction: version.systemInstruction });
+
+export const PromptSettings: React.FC<PromptSettingsProps> = ({ game, templates, onChange, onUseMode }) => {
+  const [selectedId, setSelectedId] = useState('AI');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [note, setNote] = useState('');
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [newMode, setNewMode] = useState<NewMode | null>(null);
+  const promptInput = useRef<HTMLTextAreaElement>(null);
+
+  const template = templates.find(t => t.id === selectedId) || templates[0];
+  const current = template && currentVersion(template);
+
+  // Start from the version in use whenever another template is picked or a new version lands
+  useEffect(() => {
+    setDraft(current ? toDraft(current) : null);
+    setNote('');
+    setError(null);
+  }, [template?.id, current?.version]);
+
+  // Rendered on the server, so the preview is exactly what the model would get
+  useEffect(() => {
+    if (!template || !draft) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      previewPrompt(template.id, draft.prompt, draft.systemInstruction, game, controller.signal)
+        .then(result => {
+          setPreview(result);
+          setPreviewError(null);
+        })
+        .catch(e => {
+          if (controller.signal.aborted) return;
+          console.error("Failed to preview prompt", e);
+          setPreviewError('แสดงตัวอย่างไม่ได้ ตรวจสอบว่าเซิร์ฟเวอร์ API ทำงานอยู่');
+        });
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [template?.id, draft, game]);
+
+  if (!template || !draft) {
+    return (
+      <div className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20 text-center text-slate-500 text-sm">
+        โหลดเทมเพลตพรอมต์ไม่สำเร็จ ตรวจสอบว่าเซิร์ฟเวอร์ API ทำงานอยู่
+      </div>
+    );
+  }
+
+  const dirty = draft.prompt !== current.prompt || draft.systemInstruction !== current.systemInstruction;
+  const variables = VARIABLES_BY_TASK[template.task];
+
+  // Runs a change on the server and reports its error, if any
+  const submit = async (change: () => Promise<unknown>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await withAdminToken(change);
+      onChange();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => submit(() => savePromptVersion(template.id, draft.prompt, draft.systemInstruction, note.trim()));
+
+  const handleRollback = (version: PromptTemplateVersion) => {
+    if (!window.confirm(`ใช้ข้อความของเวอร์ชัน ${version.version} อีกครั้ง? จะถูกบันทึกเป็นเวอร์ชันใหม่`)) return;
+    submit(() => rollbackPromptTemplate(template.id, version.version));
+  };
+
+  const handleCreate = () => {
+    if (!newMode) return;
+    submit(async () => {
+      const created = await createCustomMode(newMode.label, newMode.description, newMode.from);
+      setNewMode(null);
+      setSelectedId(created.id);
+    });
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`ลบโหมด "${template.label}"? ชุดเลขที่สร้างไว้แล้วยังอยู่ในประวัติ`)) return;
+    submit(async () => {
+      await deleteCustomMode(template.id);
+      setSelectedId('AI');
+    });
+  };
+
+  // Variables go in at the cursor of the prompt box
+  const insertVariable = (name: string) => {
+    const input = promptInput.current;
+    const at = input ? input.selectionStart : draft.prompt.length;
+    const end = input ? input.selectionEnd : at;
+    setDraft({ ...draft, prompt: `${draft.prompt.slice(0, at)}{${name}}${draft.prompt.slice(end)}` });
+    input?.focus();
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-yellow-500";
+  const buttonClass = "flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-300 hover:text-white hover:bg-white/5 disabled:opacity-30";
+  const starters = templates.filter(t => t.task === 'luckyNumbers');
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <AdjustmentsHorizontalIcon className="w-6 h-6 text-thai-gold" />
+          <div>
+            <h3 className="text-xl font-bold text-white">ตั้งค่าพรอมต์ AI</h3>
+            <p className="text-slate-400 text-xs">แก้ไขคำสั่งที่ส่งให้โมเดล เก็บทุกเวอร์ชันบนเซิร์ฟเวอร์ ย้อนกลับได้ และใช้ร่วมกันทุกผู้ใช้</p>
+          </div>
+        </div>
+        <button
+          onClick={() => setNewMode({ label: '', description: '', from: template.task === 'luckyNumbers' ? template.id : 'AI' })}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-yellow-700 hover:bg-yellow-600 text-white transition-all"
+        >
+          <PlusIcon className="w-4 h-4" />
+          สร้างโหมดใหม่
+        </button>
+      </div>
+
+      {newMode && (
+        <div className="mb-4 p-4 bg-slate-800/50 border border-yellow-500/30 rounded-lg space-y-3 text-xs text-slate-400">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="flex flex-col gap-1">
+              ชื่อโหมด
+              <input value={newMode.label} onChange={e => setNewMode({ ...newMode, label: e.target.value })} placeholder="เช่น เลขมงคลวันเกิด" className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              คำอธิบาย
+              <input value={newMode.description} onChange={e => setNewMode({ ...newMode, description: e.target.value })} placeholder="ไม่บังคับ" className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              เริ่มจากพรอมต์ของ
+              <select value={newMode.from} onChange={e => setNewMode({ ...newMode, from: e.target.value })} className={inputClass}>
+                {starters.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+              </select>
+            </label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setNewMode(null)} className="px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-white hover:bg-white/5">ยกเลิก</button>
+            <button onClick={handleCreate} disabled={saving} className="px-3 py-1.5 rounded-lg text-xs font-medium bg-yellow-700 hover:bg-yellow-600 text-white disabled:opacity-50">สร้าง</button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <select value={template.id} onChange={e => setSelectedId(e.target.value)} className={`${inputClass} md:w-auto`}>
+          {templates.map(t => (
+            <option key={t.id} value={t.id}>{t.custom ? `★ ${t.label}` : t.label} (v{currentVersion(t).version})</option>
+          ))}
+        </select>
+        {template.custom && onUseMode && (
+          <button onClick={() => onUseMode(template.id)} className={buttonClass}>ใช้โหมดนี้</button>
+        )}
+        {template.custom && (
+          <button onClick={handleDelete} disabled={saving} className={`${buttonClass} hover:text-red-400`}>
+            <TrashIcon className="w-4 h-4" />
+            ลบโหมด
+          </button>
+        )}
+      </div>
+      {template.description && <p className="text-xs text-slate-500 mb-4">{template.description}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-3 text-xs text-slate-400">
+          <label className="flex flex-col gap-1">
+            พรอมต์
+            <textarea
+              ref={promptInput}
+              value={draft.prompt}
+              onChange={e => setDraft({ ...draft, prompt: e.target.value })}
+              rows={10}
+              className={`${inputClass} font-mono text-xs`}
+            />
+          </label>
+          {variables.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {variables.map(name => (
+                <button
+                  key={name}
+                  onClick={() => insertVariable(name)}
+                  title={TEMPLATE_VARIABLES[name]}
+                  className="font-mono px-1.5 py-0.5 rounded bg-slate-800 text-yellow-300 hover:bg-slate-700"
+                >
+                  {`{${name}}`}
+                </button>
+              ))}
+            </div>
+          )}
+          <label className="flex flex-col gap-1">
+            คำสั่งระบบ (system instruction)
+            <textarea
+              value={draft.systemInstruction}
+              onChange={e => setDraft({ ...draft, systemInstruction: e.target.value })}
+              rows={3}
+              placeholder="ไม่บังคับ"
+              className={`${inputClass} font-mono text-xs`}
+            />
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <input value={note} onChange={e => setNote(e.target.value)} placeholder="บันทึกการเปลี่ยนแปลง (ไม่บังคับ)" className={`${inputClass} flex-1`} />
+            <button onClick={() => setDraft(toDraft(current))} disabled={!dirty} className={buttonClass}>ทิ้งการแก้ไข</button>
+            <button
+              onClick={handleSave}
+              disabled={!dirty || saving || (preview?.unknownVariables.length ?? 0) > 0}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-yellow-700 hover:bg-yellow-600 text-white disabled:opacity-30"
+            >
+              บันทึกเป็นเวอร์ชัน {current.version + 1}
+            </button>
+          </div>
+          {error && <p className="text-red-300">{error}</p>}
+        </div>
+
+        <div className="space-y-3 text-xs">
+          <div>
+            <h4 className="flex items-center gap-1 text-sm font-bold text-white mb-2">
+              <EyeIcon className="w-4 h-4" />
+              ตัวอย่างที่ส่งจริง ({GAMES[game].shortName})
+            </h4>
+            {previewError ? (
+              <p className="text-red-300">{previewError}</p>
+            ) : preview ? (
+              <div className="space-y-2">
+                {preview.unknownVariables.length > 0 && (
+                  <p className="text-red-300">ตัวแปรที่ใช้ไม่ได้: {preview.unknownVariables.map(v => `{${v}}`).join(', ')}</p>
+                )}
+                {preview.systemInstruction && (
+                  <pre className="whitespace-pre-wrap bg-slate-950/60 border border-white/5 rounded-lg p-3 text-slate-400">{preview.systemInstruction}</pre>
+                )}
+                <pre className="whitespace-pre-wrap bg-slate-950/60 border border-white/5 rounded-lg p-3 text-slate-200 max-h-72 overflow-y-auto">{preview.prompt}</pre>
+              </div>
+            ) : (
+              <p className="text-slate-500">กำลังสร้างตัวอย่าง...</p>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-bold text-white mb-2">ประวัติเวอร์ชัน</h4>
+            <ol className="space-y-1 max-h-60 overflow-y-auto pr-1">
+              {[...template.versions].reverse().map(version => (
+                <li key={version.version} className="flex items-center gap-2 bg-slate-800/50 rounded-lg px-3 py-2 border border-white/5">
+                  <span className="font-mono text-white">v{version.version}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-slate-300 truncate">{version.note || '-'}</div>
+                    <div className="text-[10px] text-slate-500">{formatSavedAt(version)}</div>
+                  </div>
+                  {version === current ? (
+                    <span className="text-[10px] text-emerald-300">ใช้งานอยู่</span>
+                  ) : (
+                    <>
+                      <button onClick={() => setDraft(toDraft(version))} title="โหลดมาแก้ไขและดูตัวอย่าง" className="p-1 text-slate-400 hover:text-white">
+                        <EyeIcon className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleRollback(version)} disabled={saving} title="ย้อนกลับเป็นเวอร์ชันนี้" className="p-1 text-slate-400 hover:text-white disabled:opacity-30">
+                        <ArrowUturnLeftIcon className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { GameId, LotterySet, NumberConstraints } from '../types';
+import { InsecureContextError, buildSeededSet, setDigits } from '../services/seededRng';
+import { ImpossibleConstraintsError } from '../services/constraints';
+import { toDrawInfo } from '../services/drawCalendar';
+import { parseThaiDate, formatThaiDate } from '../services/thaiDate';
+import { DEFAULT_GAME, GAMES, GAME_IDS, gameOf } from '../services/games';
+import { ShieldCheckIcon, CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/solid';
+
+interface SeedVerifierProps {
+  target?: LotterySet | null;   // A seeded set to check; fills in the form
+}
+
+// Same numbers as setDigits, so a 3 ตัวบน taken from prize1 is left out
+const formatSet = (set: Pick<LotterySet, 'game' | 'prize1' | 'front3' | 'rear3' | 'rear2'>) =>
+  [set.prize1, ...set.front3, ...(GAMES[gameOf(set)].rear3.fromPrize1 ? [] : set.rear3), set.rear2].join(' ');
+
+export const SeedVerifier: React.FC<SeedVerifierProps> = ({ target }) => {
+  const [seed, setSeed] = useState('');
+  const [game, setGame] = useState<GameId>(DEFAULT_GAME);
+  const [drawDate, setDrawDate] = useState('');
+  const [claimed, setClaimed] = useState('');
+  const [constraints, setConstraints] = useState<NumberConstraints | undefined>();
+  const [result, setResult] = useState<LotterySet | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!target?.seed) return;
+    setSeed(target.seed);
+    setGame(gameOf(target));
+    setDrawDate(target.drawIsoDate ? formatThaiDate(target.drawIsoDate) : target.drawDate || '');
+    setClaimed(formatSet(target));
+    setConstraints(target.constraints);
+    setResult(null);
+  }, [target]);
+
+  const handleVerify = async () => {
+    const isoDate = parseThaiDate(drawDate);
+    if (!seed.trim()) return setError('กรุณาระบุ seed');
+    if (!isoDate) return setError('วันที่งวดไม่ถูกต้อง');
+    setError(null);
+    try {
+      setResult(await buildSeededSet(seed.trim(), toDrawInfo(isoDate, game), constraints));
+    } catch (e) {
+      setResult(null);
+      setError(e instanceof ImpossibleConstraintsError || e instanceof InsecureContextError ? e.message : 'สร้างชุดเลขซ้ำไม่สำเร็จ');
+    }
+  };
+
+  // Claimed numbers are compared digit for digit, ignoring spaces and separators
+  const claimedDigits = claimed.replace(/\D/g, '');
+  const matches = result && claimedDigits ? claimedDigits === setDigits(result) : null;
+
+  const inputClass = "bg-slate-900 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500";
+
+  return (
+    <div id="seed-verifier" className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldCheckIcon className="w-6 h-6 text-emerald-300" />
+        <div>
+          <h3 className="text-xl font-bold text-white">ตรวจสอบชุดเลขสุ่ม</h3>
+          <p className="text-slate-400 text-xs">ใส่ seed และงวดเพื่อสร้างชุดเลขเดิมซ้ำ ทุกเครื่องจะได้ผลเหมือนกัน</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-xs text-slate-400">
+        <label className="flex flex-col gap-1">
+          ประเภทหวย
+          <select value={game} onChange={e => { setGame(e.target.value as GameId); setResult(null); }} className={inputClass}>
+            {GAME_IDS.map(id => <option key={id} value={id}>{GAMES[id].name}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Seed
+          <input value={seed} onChange={e => setSeed(e.target.value)} placeholder="เช่น ae215acd92b77a52" className={`${inputClass} font-mono`} />
+        </label>
+        <label className="flex flex-col gap-1">
+          งวดวันที่
+          <input value={drawDate} onChange={e => setDrawDate(e.target.value)} placeholder="เช่น 1 พฤศจิกายน 2569" className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          ชุดเลขที่ต้องการตรวจ (ไม่บังคับ)
+          <input value={claimed} onChange={e => setClaimed(e.target.value)} placeholder={game === DEFAULT_GAME ? 'รางวัลที่ 1, หน้า 3, ท้าย 3, ท้าย 2' : `${GAMES[game].prize1.label}, ${GAMES[game].rear2.label}`} className={`${inputClass} font-mono`} />
+        </label>
+      </div>
+
+      {constraints && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-emerald-200">
+          ชุดเลขนี้สร้างด้วยเงื่อนไขตัวเลข ระบบจะใช้เงื่อนไขเดิมในการสร้างซ้ำ
+          <button onClick={() => setConstraints(undefined)} className="text-slate-400 hover:text-white underline">ไม่ใช้เงื่อนไข</button>
+        </div>
+      )}
+
+      <div className="flex justify-end mt-3">
+        <button onClick={handleVerify} className="px-4 py-2 rounded-lg text-sm font-medium bg-emerald-700 hover:bg-emerald-600 text-white transition-all">
+          สร้างซ้ำและตรวจสอบ
+        </button>
+      </div>
+
+      {error && <div className="mt-3 text-xs text-red-300">{error}</div>}
+
+      {result && (
+        <div className="mt-4 p-3 bg-slate-800/50 border border-white/5 rounded-lg text-xs space-y-2">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 font-mono">
+            <span className="font-bold text-white tracking-widest">{result.prize1}</span>
+            {result.front3.length > 0 && <span className="text-cyan-300">{result.front3.join(' ')}</span>}
+            <span className="text-pink-300">{result.rear3.join(' ')}</span>
+            <span className="font-bold text-yellow-400">{result.rear2}</span>
+          </div>
+          {matches === true && (
+            <div className="flex items-center gap-1 text-green-300">
+              <CheckCircleIcon className="w-4 h-4" />
+              ตรงกัน ชุดเลขนี้มาจาก seed นี้สำหรับงวด {result.drawDate} จริง
+            </div>
+          )}
+          {matches === false && (
+            <div className="flex items-center gap-1 text-red-300">
+              <XCircleIcon className="w-4 h-4" />
+              ไม่ตรงกัน ชุดเลขที่ใส่ไม่ได้มาจาก seed และงวดนี้
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { GameId, PastDraw, TicketCheckResult } from '../types';
+import { parseTickets, checkTickets, formatBaht } from '../services/ticketChecker';
+import { GAMES } from '../services/games';
+import { MagnifyingGlassIcon, TicketIcon, ExclamationTriangleIcon } from '@heroicons/react/24/solid';
+
+interface TicketCheckerProps {
+  draw: PastDraw | null;
+  game: GameId;
+}
+
+export const TicketChecker: React.FC<TicketCheckerProps> = ({ draw, game }) => {
+  const [input, setInput] = useState('');
+  const [results, setResults] = useState<TicketCheckResult[]>([]);
+  const [invalid, setInvalid] = useState<string[]>([]);
+
+  const g = GAMES[game];
+  const lengths = g.ticketLengths.join('/');
+  const unit = g.betting ? 'เลข' : 'ใบ';
+  const hasDraw = !!draw && new RegExp(`^\\d{${g.prize1.digits}}$`).test(draw.prize1);
+  const hasFullTable = hasDraw && (!g.fullTable || draw!.prize2.length > 0);
+
+  // Results from another game would be meaningless against the new draw
+  useEffect(() => {
+    setResults([]);
+    setInvalid([]);
+  }, [game]);
+
+  const handleCheck = () => {
+    if (!hasDraw) return;
+    const parsed = parseTickets(input, game);
+    setResults(checkTickets(parsed.tickets, draw!, game));
+    setInvalid(parsed.invalid);
+  };
+
+  const winners = results.filter(r => r.hits.length > 0);
+  const grandTotal = winners.reduce((sum, r) => sum + r.total, 0);
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20">
+      <div className="flex items-center gap-2 mb-4">
+        <TicketIcon className="w-6 h-6 text-thai-gold" />
+        <div>
+          <h3 className="text-xl font-bold text-white">{g.betting ? 'ตรวจเลขที่แทง' : 'ตรวจสลากของฉัน'}</h3>
+          <p className="text-slate-400 text-xs">
+            {hasDraw ? `ตรวจกับ${g.name} งวดวันที่ ${draw!.date}` : 'ยังไม่มีผลรางวัลสำหรับตรวจ'}
+          </p>
+        </div>
+      </div>
+
+      {hasDraw && !hasFullTable && (
+        <div className="flex items-center gap-2 mb-4 p-3 bg-yellow-900/30 border border-yellow-500/30 text-yellow-200 rounded-lg text-xs">
+          <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" />
+          ผลรางวัลงวดนี้ยังไม่ครบ (ไม่มีรางวัลที่ 2-5) ตรวจได้เฉพาะรางวัลที่ 1 และเลขหน้า/ท้าย
+        </div>
+      )}
+
+      <textarea
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        placeholder={`ใส่${g.betting ? 'เลขที่แทง' : 'เลขสลาก'} ${lengths} หลัก คั่นด้วยขึ้นบรรทัดใหม่ เว้นวรรค หรือจุลภาค`}
+        rows={4}
+        className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 font-mono text-sm text-white placeholder-slate-600 focus:outline-none focus:border-thai-gold"
+      />
+
+      <button
+        onClick={handleCheck}
+        disabled={!hasDraw || !input.trim()}
+        className="mt-3 w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-bold bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-400 hover:to-teal-400 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+      >
+        <MagnifyingGlassIcon className="w-5 h-5" />
+        ตรวจรางวัล
+      </button>
+
+      {invalid.length > 0 && (
+        <p className="mt-3 text-xs text-red-300">
+          ข้ามเลขที่ไม่ใช่ {lengths} หลัก: {invalid.join(', ')}
+        </p>
+      )}
+
+      {g.betting && (
+        <p className="mt-3 text-[10px] text-slate-500">
+          เงินรางวัลเป็นอัตราจ่ายทั่วไปต่อการแทง 1 บาท อัตราจริงขึ้นกับเจ้ามือ
+        </p>
+      )}
+
+      {results.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <div className="flex justify-between text-xs text-slate-400">
+            <span>ตรวจแล้ว {results.length} {unit} / ถูกรางวัล {winners.length} {unit}</span>
+            <span className="text-yellow-300 font-bold">รวม {formatBaht(grandTotal)}</span>
+          </div>
+          <div className="max-h-72 overflow-y-auto space-y-2 pr-1">
+            {results.map((result) => (
+              <div
+                key={result.ticket}
+                className={`p-2 rounded text-xs border ${
+                  result.hits.length > 0
+                    ? 'bg-green-900/30 border-green-500/30'
+                    : 'bg-slate-800/50 border-white/5'
+                }`}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="font-mono font-bold text-white tracking-widest">{result.ticket}</span>
+                  {result.hits.length > 0 ? (
+                    <span className="text-green-300 font-bold">{formatBaht(result.total)}</span>
+                  ) : (
+                    <span className="text-slate-500">ไม่ถูกรางวัล</span>
+                  )}
+                </div>
+                {result.hits.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {result.hits.map((h, i) => (
+                      <span key={i} className="bg-yellow-500/10 text-yellow-300 px-1.5 py-0.5 rounded">
+                        {h.label} ({formatBaht(h.amount)})
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,271 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { LedgerEntry, LedgerPeriod, Pool } from '../types';
+import { TICKET_FACE_VALUE, deleteLedgerEntry, listLedgerEntries, saveLedgerEntry, summarizeLedger, validateLedgerEntry } from '../services/ledger';
+import { listPools } from '../services/pools';
+import { parseTickets, formatBaht } from '../services/ticketChecker';
+import { getNextDraw, listDrawsBetween } from '../services/drawCalendar';
+import { formatThaiDate } from '../services/thaiDate';
+import { ExportTable, downloadCsv, downloadJson, printTable } from '../services/exporter';
+import { LedgerCharts } from './LedgerCharts';
+import { BanknotesIcon, TrashIcon, ArrowDownTrayIcon, PrinterIcon, PlusIcon } from '@heroicons/react/24/solid';
+
+interface TicketLedgerProps {
+  refreshKey?: number;   // Bump to reload after entries are checked or pools change elsewhere
+  onChange?: () => void; // Called after an entry is added or deleted
+}
+
+const MONTHS_BACK = 6;
+
+const percent = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+
+const netClass = (amount: number) => (amount > 0 ? 'text-green-300' : amount < 0 ? 'text-red-300' : 'text-slate-300');
+
+// Draws a ticket can be recorded for: the next one and those of the last few months, newest first
+const drawOptions = () => {
+  const next = getNextDraw();
+  const [year, month] = next.isoDate.split('-').map(Number);
+  const from = new Date(Date.UTC(year, month - 1 - MONTHS_BACK, 1)).toISOString().slice(0, 10);
+  return listDrawsBetween(from, next.isoDate).reverse();
+};
+
+const toTable = (entries: LedgerEntry[], poolNames: Map<string, string>): ExportTable => ({
+  title: 'บัญชีสลากที่ซื้อ',
+  headers: ['งวด', 'เลขสลาก', 'จำนวนใบ', 'ราคาต่อใบ', 'รวมจ่าย', 'ที่ซื้อ', 'กองกลาง', 'รางวัล', 'เงินรางวัล', 'สุทธิ'],
+  rows: entries.map(e => [
+    e.drawIsoDate,
+    e.number,
+    e.quantity,
+    e.pricePaid,
+    e.pricePaid * e.quantity,
+    e.place,
+    e.poolId ? poolNames.get(e.poolId) || '' : '',
+    e.result ? e.result.hits.map(h => h.label).join(' + ') || 'ไม่ถูกรางวัล' : 'รอผล',
+    e.result?.winnings ?? '',
+    e.result ? e.result.winnings - e.pricePaid * e.quantity : '',
+  ]),
+});
+
+export const TicketLedger: React.FC<TicketLedgerProps> = ({ refreshKey = 0, onChange }) => {
+  const draws = useMemo(drawOptions, []);
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [drawIsoDate, setDrawIsoDate] = useState(draws[0]?.isoDate || '');
+  const [numbers, setNumbers] = useState('');
+  const [quantity, setQuantity] = useState(1);
+  const [pricePaid, setPricePaid] = useState(TICKET_FACE_VALUE);
+  const [place, setPlace] = useState('');
+  const [poolId, setPoolId] = useState('');
+  const [pools, setPools] = useState<Pool[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const reload = useCallback(async () => {
+    try {
+      const [list, poolList] = await Promise.all([listLedgerEntries(), listPools()]);
+      setEntries(list);
+      setPools(poolList);
+    } catch (e) {
+      console.error("Failed to load ticket ledger", e);
+      setErrors(['โหลดบัญชีสลากไม่สำเร็จ']);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload, refreshKey]);
+
+  const periods = useMemo(() => summarizeLedger(entries), [entries]);
+  const byDraw = useMemo(() => new Map(periods.map(p => [p.drawIsoDate, p])), [periods]);
+  const total: LedgerPeriod | undefined = periods[periods.length - 1];
+  const poolNames = useMemo(() => new Map(pools.map(p => [p.id, p.name])), [pools]);
+
+  // Several numbers can be entered at once; each becomes its own entry with the same quantity and price
+  const handleAdd = async () => {
+    const { tickets, invalid } = parseTickets(numbers);
+    const problems = invalid.map(t => `${t} ไม่ใช่เลขสลาก 6 หลัก`);
+    if (tickets.length === 0 && invalid.length === 0) problems.push('กรุณาใส่เลขสลาก');
+    tickets.forEach(number => problems.push(...validateLedgerEntry({ drawIsoDate, number, quantity, pricePaid })));
+    const unique = [...new Set(problems)];
+    setErrors(unique);
+    if (unique.length > 0) return;
+
+    // Saved numbers leave the input, so retrying after a failure does not add them twice
+    let saved = 0;
+    try {
+      for (const number of tickets) {
+        await saveLedgerEntry({ drawIsoDate, number, quantity, pricePaid, place: place.trim(), poolId: poolId || undefined });
+        saved++;
+      }
+    } catch (e) {
+      console.error("Failed to save ledger entry", e);
+      setErrors([`บันทึกสลาก ${tickets[saved]} ไม่สำเร็จ${saved > 0 ? ` (บันทึกแล้ว ${saved} เลข)` : ''}`]);
+    }
+    setNumbers(tickets.slice(saved).join(' '));
+    await reload();
+    if (saved > 0) onChange?.();
+  };
+
+  const handleDelete = async (entry: LedgerEntry) => {
+    if (!window.confirm(`ลบสลาก ${entry.number} งวด ${formatThaiDate(entry.drawIsoDate)}?`)) return;
+    setErrors([]);
+    try {
+      await deleteLedgerEntry(entry.id);
+    } catch (e) {
+      console.error("Failed to delete ledger entry", e);
+      setErrors([`ลบสลาก ${entry.number} ไม่สำเร็จ`]);
+    }
+    await reload();
+    onChange?.();
+  };
+
+  const inputClass = "bg-slate-900 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-green-500";
+  const buttonClass = "flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-300 hover:text-white hover:bg-white/5 disabled:opacity-30";
+  const drawGroups = entries.map(e => e.drawIsoDate).filter((iso, i, all) => all.indexOf(iso) === i);
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 w-full shadow-xl border-t border-white/20 space-y-4">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div className="flex items-center gap-2">
+          <BanknotesIcon className="w-6 h-6 text-green-300" />
+          <div>
+            <h3 className="text-xl font-bold text-white">บัญชีสลากที่ซื้อ</h3>
+            <p className="text-slate-400 text-xs">บันทึกสลากที่ซื้อจริง ตรวจรางวัลอัตโนมัติเมื่อผลรางวัลเข้าคลัง</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => downloadCsv('lotto-ledger.csv', toTable(entries, poolNames))} disabled={entries.length === 0} className={buttonClass}>
+            <ArrowDownTrayIcon className="w-3 h-3" />
+            CSV
+          </button>
+          <button onClick={() => downloadJson('lotto-ledger.json', entries)} disabled={entries.length === 0} className={buttonClass}>
+            <ArrowDownTrayIcon className="w-3 h-3" />
+            JSON
+          </button>
+          <button
+            onClick={() => printTable(toTable(entries, poolNames), total ? `รวมจ่าย ${formatBaht(total.cumulativeSpend)} · เงินรางวัล ${formatBaht(total.cumulativeWinnings)} · สุทธิ ${formatBaht(total.cumulativeNet)}` : '')}
+            disabled={entries.length === 0}
+            className={buttonClass}
+          >
+            <PrinterIcon className="w-3 h-3" />
+            พิมพ์
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-7 gap-3 text-xs text-slate-400">
+        <label className="flex flex-col gap-1 col-span-2 md:col-span-1">
+          งวด
+          <select value={drawIsoDate} onChange={e => setDrawIsoDate(e.target.value)} className={inputClass}>
+            {draws.map(d => <option key={d.isoDate} value={d.isoDate}>{d.label}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 col-span-2">
+          เลขสลาก (ใส่ได้หลายใบ)
+          <input value={numbers} onChange={e => setNumbers(e.target.value)} placeholder="เช่น 123456 654321" className={`${inputClass} font-mono`} />
+        </label>
+        <label className="flex flex-col gap-1">
+          จำนวนใบต่อเลข
+          <input type="number" min={1} value={quantity} onChange={e => setQuantity(Math.floor(+e.target.value))} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          ราคาที่จ่ายต่อใบ
+          <input type="number" min={0} value={pricePaid} onChange={e => setPricePaid(+e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          ซื้อที่
+          <input value={place} onChange={e => setPlace(e.target.value)} placeholder="เช่น แผงหน้าตลาด" className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          ซื้อด้วยเงิน
+          <select value={poolId} onChange={e => setPoolId(e.target.value)} className={inputClass}>
+            <option value="">ส่วนตัว</option>
+            {pools.map(p => <option key={p.id} value={p.id}>กองกลาง {p.name}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-300 space-y-1">
+          {errors.map((err, i) => <li key={i}>{err}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end">
+        <button onClick={handleAdd} className="flex items-center gap-1 px-4 py-2 rounded-lg text-sm font-medium bg-green-700 hover:bg-green-600 text-white">
+          <PlusIcon className="w-4 h-4" />
+          บันทึกสลาก
+        </button>
+      </div>
+
+      {total && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {[
+            { label: 'รวมจ่าย', value: formatBaht(total.cumulativeSpend), className: 'text-red-300' },
+            { label: 'เงินรางวัล', value: formatBaht(total.cumulativeWinnings), className: 'text-green-300' },
+            { label: 'สุทธิ', value: formatBaht(total.cumulativeNet), className: netClass(total.cumulativeNet) },
+            { label: 'ROI', value: percent(total.cumulativeRoi), className: netClass(total.cumulativeNet) },
+          ].map(tile => (
+            <div key={tile.label} className="bg-slate-800/50 border border-white/5 rounded-lg p-3">
+              <div className="text-xs text-slate-400">{tile.label}</div>
+              <div className={`text-lg font-bold ${tile.className}`}>{tile.value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <LedgerCharts periods={periods} />
+
+      {entries.length === 0 ? (
+        <div className="text-center text-slate-500 text-sm py-6">ยังไม่มีสลากในบัญชี</div>
+      ) : (
+        <div className="max-h-[32rem] overflow-y-auto space-y-3 pr-1">
+          {drawGroups.map(iso => {
+            const period = byDraw.get(iso)!;
+            return (
+              <div key={iso} className="bg-slate-800/50 rounded-lg border border-white/5 text-xs">
+                <div className="flex flex-wrap justify-between items-center gap-2 px-3 py-2 border-b border-white/5">
+                  <span className="text-thai-gold font-bold">งวด {formatThaiDate(iso)}</span>
+                  <span className="text-slate-400">
+                    {period.tickets} ใบ · จ่าย {formatBaht(period.spend)} · ได้ {formatBaht(period.winnings)} ·{' '}
+                    <span className={netClass(period.net)}>สุทธิ {formatBaht(period.net)} ({percent(period.roi)})</span>
+                    {period.pending > 0 && <span className="ml-1 text-slate-500">· รอผล {period.pending} รายการ</span>}
+                  </span>
+                </div>
+                <table className="w-full">
+                  <tbody>
+                    {entries.filter(e => e.drawIsoDate === iso).map(entry => (
+                      <tr key={entry.id} className="border-b border-white/5 last:border-0">
+                        <td className="px-3 py-1.5 font-mono font-bold text-white tracking-widest">{entry.number}</td>
+                        <td className="px-3 py-1.5 text-slate-300">{entry.quantity} ใบ × {entry.pricePaid} บาท</td>
+                        <td className="px-3 py-1.5 text-slate-400">
+                          {entry.place || '-'}
+                          {entry.poolId && poolNames.has(entry.poolId) && (
+                            <span className="ml-2 bg-indigo-900/40 text-indigo-300 px-1.5 py-0.5 rounded">กองกลาง {poolNames.get(entry.poolId)}</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-1.5">
+                          {!entry.result ? (
+                            <span className="text-slate-500">รอผล</span>
+                          ) : entry.result.hits.length === 0 ? (
+                            <span className="text-slate-500">ไม่ถูกรางวัล</span>
+                          ) : (
+                            <span className="text-green-300">
+                              {entry.result.hits.map(h => h.label).join(' + ')} · {formatBaht(entry.result.winnings)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-1.5 text-right">
+                          <button onClick={() => handleDelete(entry)} title="ลบ" className="text-slate-400 hover:text-red-400">
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,11 @@
+import { GeneratorMode } from './types';
+
+export const MODE_LABELS: Record<string, string> = {
+  [GeneratorMode.RNG]: 'สุ่มทั่วไป',
+  [GeneratorMode.AI]: 'AI คำนวณ',
+  [GeneratorMode.HISTORY]: 'สถิติย้อนหลัง',
+  [GeneratorMode.GURU]: 'รวมเลขสำนักดัง',
+  [GeneratorMode.DREAM]: 'ทำนายฝัน',
+  [GeneratorMode.NUMEROLOGY]: 'เลขศาสตร์',
+  [GeneratorMode.CUSTOM]: 'โหมดกำหนดเอง',
+};
@@ -0,0 +1,155 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { GameId, GuruProfile, ManualGuruPrediction } from '../types';
+import { DEFAULT_GURUS } from '../services/gurus';
+import { drawKey, isGameId } from '../services/games';
+import { validateGuruPrediction } from '../services/validation';
+
+// The guru registry and numbers typed in by hand, kept in one JSON file shared
+// by everyone using the server. Without a file the default gurus are used.
+
+export class GuruStoreError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'GuruStoreError';
+  }
+}
+
+interface StoredGurus {
+  gurus: GuruProfile[];
+  manual: ManualGuruPrediction[];
+}
+
+const MAX_NAME_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+const readFile = (file: string): StoredGurus => {
+  try {
+    const stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return {
+      gurus: Array.isArray(stored.gurus) ? stored.gurus : DEFAULT_GURUS.map(g => ({ ...g })),
+      manual: Array.isArray(stored.manual) ? stored.manual : [],
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') console.error(`Failed to read ${file}, using default gurus:`, error);
+    return { gurus: DEFAULT_GURUS.map(g => ({ ...g })), manual: [] };
+  }
+};
+
+const text = (value: unknown, max: number): string => (typeof value === 'string' ? value.trim().slice(0, max) : '');
+
+// Name, alias, description and lookup of a new or edited guru. `current` fills in what an edit leaves out.
+const checkProfile = (fields: Partial<Record<keyof GuruProfile, unknown>>, current?: GuruProfile): Omit<GuruProfile, 'id'> => {
+  const name = fields.name === undefined && current ? current.name : text(fields.name, MAX_NAME_LENGTH);
+  if (!name) throw new GuruStoreError('กรุณาใส่ชื่อสำนัก', 400);
+  return {
+    name,
+    alias: fields.alias === undefined && current ? current.alias : text(fields.alias, MAX_NAME_LENGTH),
+    description: fields.description === undefined && current ? current.description : text(fields.description, MAX_DESCRIPTION_LENGTH),
+    lookup: fields.lookup === undefined ? current?.lookup ?? true : fields.lookup === true,
+  };
+};
+
+const checkDraw = (game: unknown, drawIsoDate: unknown): { game: GameId; drawIsoDate: string } => {
+  if (!isGameId(game)) throw new GuruStoreError(`Unsupported game "${game}"`, 400);
+  if (typeof drawIsoDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(drawIsoDate)) {
+    throw new GuruStoreError(`งวด "${drawIsoDate}" ต้องอยู่ในรูปแบบ YYYY-MM-DD`, 400);
+  }
+  return { game, drawIsoDate };
+};
+
+export const createGuruStore = (file: string) => {
+  const data = readFile(file);
+
+  // Written whole through a temporary file, so a crash never leaves half a file
+  const persist = () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(data, null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+  };
+
+  const find = (id: string): GuruProfile => {
+    const guru = data.gurus.find(g => g.id === id);
+    if (!guru) throw new GuruStoreError(`ไม่พบสำนัก "${id}"`, 404);
+    return guru;
+  };
+
+  const checkUnique = (name: string, id?: string) => {
+    if (data.gurus.some(g => g.id !== id && g.name === name)) throw new GuruStoreError(`มีสำนัก "${name}" อยู่แล้ว`, 400);
+  };
+
+  return {
+    list: (): GuruProfile[] => data.gurus,
+
+    add: (fields: Partial<Record<keyof GuruProfile, unknown>>): GuruProfile => {
+      const profile = checkProfile(fields);
+      checkUnique(profile.name);
+      const guru = { id: randomUUID(), ...profile };
+      data.gurus.push(guru);
+      persist();
+      return guru;
+    },
+
+    // The id stays, so tracked predictions follow a renamed guru
+    update: (id: string, fields: Partial<Record<keyof GuruProfile, unknown>>): GuruProfile => {
+      const guru = find(id);
+      const profile = checkProfile(fields, guru);
+      checkUnique(profile.name, id);
+      Object.assign(guru, profile);
+      persist();
+      return guru;
+    },
+
+    remove: (id: string): void => {
+      const guru = find(id);
+      data.gurus.splice(data.gurus.indexOf(guru), 1);
+      data.manual = data.manual.filter(m => m.guruId !== id);
+      persist();
+    },
+
+    // `ids` must name every guru exactly once
+    reorder: (ids: unknown): GuruProfile[] => {
+      const current = data.gurus.map(g => g.id);
+      if (!Array.isArray(ids) || ids.length !== current.length || !current.every(id => ids.includes(id))) {
+        throw new GuruStoreError('ลำดับใหม่ต้องมีทุกสำนักครบ สำนักละครั้ง', 400);
+      }
+      data.gurus = ids.map(id => find(id));
+      persist();
+      return data.gurus;
+    },
+
+    manualFor: (game: GameId, drawIsoDate: string): ManualGuruPrediction[] =>
+      data.manual.filter(m => m.game === game && m.drawIsoDate === drawIsoDate),
+
+    setManual: (guruId: string, fields: { game?: unknown; drawIsoDate?: unknown; topPick?: unknown; secondary?: unknown }): ManualGuruPrediction => {
+      find(guruId);
+      const { game, drawIsoDate } = checkDraw(fields.game, fields.drawIsoDate);
+      const prediction = {
+        topPick: String(fields.topPick ?? '').trim(),
+        secondary: Array.isArray(fields.secondary) ? fields.secondary.map(n => String(n).trim()).filter(Boolean) : [],
+      };
+      const errors = validateGuruPrediction(prediction);
+      if (errors.length > 0) throw new GuruStoreError(errors.join('; '), 400);
+
+      const entry: ManualGuruPrediction = {
+        id: `${guruId}|${drawKey(game, drawIsoDate)}`,
+        guruId,
+        game,
+        drawIsoDate,
+        prediction,
+        enteredAt: Date.now(),
+      };
+      data.manual = [...data.manual.filter(m => m.id !== entry.id), entry];
+      persist();
+      return entry;
+    },
+
+    clearManual: (guruId: string, game: unknown, drawIsoDate: unknown): void => {
+      const draw = checkDraw(game, drawIsoDate);
+      const id = `${guruId}|${drawKey(draw.game, draw.drawIsoDate)}`;
+      data.manual = data.manual.filter(m => m.id !== id);
+      persist();
+    },
+  };
+};
@@ -0,0 +1,452 @@
+import http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { loadEnv } from 'vite';
+import { GameId, GenerationEvent, GeneratorMode } from '../types';
+import { createRateLimiter } from './rateLimiter';
+import { createPromptStore, PromptStoreError } from './promptStore';
+import { createGuruStore, GuruStoreError } from './guruStore';
+import { CacheEntry, createMemoryStorage } from '../services/cache';
+import { createLatestDrawResource, createGuruStatsResource } from '../services/drawDataCache';
+import { DEFAULT_GAME, GAME_IDS, isGameId } from '../services/games';
+import { composeGuruStats, setGuruSource } from '../services/gurus';
+import { getNextDraw } from '../services/drawCalendar';
+import { RECENT_DRAWS_COUNT, formatDrawLine, isCustomTemplate, setTemplateSource, unknownVariables } from '../services/promptTemplates';
+
+// Small API server that keeps the model credentials out of the browser.
+// Run it next to `npm run dev`; Vite proxies /api to it.
+
+// Same .env files as the front end, without overriding real environment variables
+const env = loadEnv(process.env.NODE_ENV || 'development', process.cwd(), '');
+Object.entries(env).forEach(([key, value]) => {
+  if (process.env[key] === undefined) process.env[key] = value;
+});
+
+const PORT = Number(process.env.API_PORT) || 8787;
+
+// Shared settings (prompts, gurus) can only be changed with this token in X-Admin-Token; unset, they are read-only
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || '';
+
+// Proxies whose X-Forwarded-For header is believed, e.g. `127.0.0.1,::ffff:127.0.0.1` behind Vite
+const TRUSTED_PROXIES = (process.env.TRUST_PROXY || '').split(',').map(address => address.trim()).filter(Boolean);
+
+// Lookups are cheap to repeat; generation is the expensive call
+const readLimiter = createRateLimiter({ windowMs: 60_000, max: 30 });
+const generateLimiter = createRateLimiter({ windowMs: 60_000, max: 10 });
+setInterval(() => {
+  readLimiter.prune();
+  generateLimiter.prune();
+}, 60_000).unref();
+
+const SERVER_MODES: string[] = [GeneratorMode.AI, GeneratorMode.GURU, GeneratorMode.CUSTOM];
+
+// Edited prompts outlive restarts; every model call reads the current version
+const prompts = createPromptStore(process.env.PROMPTS_FILE || '.data/prompts.json');
+setTemplateSource(prompts.get);
+
+// The tracked gurus and numbers typed in by hand, for lookups, prompts and GURU mode
+const gurus = createGuruStore(process.env.GURUS_FILE || '.data/gurus.json');
+setGuruSource(gurus.list);
+
+// Shown in place of {summary} and {figures} when previewing the HISTORY prompt
+const PREVIEW_SUMMARY = 'ตัวอย่างสรุปสถิติ: เลขท้าย 2 ตัวที่ออกบ่อยที่สุดในช่วงที่เลือก';
+const PREVIEW_FIGURES = ['ตัวอย่างตัวเลขประกอบ: 27 ออก 5 ครั้ง', 'ตัวอย่างตัวเลขประกอบ: 81 ออก 4 ครั้ง'];
+
+// Routes that spend a full model generation
+const GENERATE_ROUTES = ['POST /api/generate', 'POST /api/history/phrase', 'POST /api/dream/interpret'];
+
+// Shared by all visitors, so each draw period costs a handful of model calls per game
+const cacheStorage = createMemoryStorage();
+const latestDraws = new Map<GameId, ReturnType<typeof createLatestDrawResource>>();
+const guruStatsByGame = new Map<GameId, ReturnType<typeof createGuruStatsResource>>();
+
+// `?refresh=1` from a visitor only bypasses the shared cache once the entry is this old,
+// so a script cannot turn every request into a model call
+const MIN_FORCED_REFRESH_AGE_MS = 5 * 60_000;
+
+const canForce = (entry: CacheEntry<unknown> | null, now: number = Date.now()): boolean =>
+  !entry || now - entry.fetchedAt >= MIN_FORCED_REFRESH_AGE_MS;
+
+// {recentDraws} for lookups: the server only knows the last draw it fetched
+const knownDraws = (game: GameId): string[] => {
+  const draw = latestDraw(game).peek()?.data;
+  return draw && !draw.degraded ? [formatDrawLine(draw, game)] : [];
+};
+
+const latestDraw = (game: GameId): ReturnType<typeof createLatestDrawResource> => {
+  if (!latestDraws.has(game)) {
+    latestDraws.set(game, createLatestDrawResource(cacheStorage, async () =>
+      (await import('../services/geminiService')).getLatestDrawResults(game, { recentDraws: knownDraws(game) }), game));
+  }
+  return latestDraws.get(game)!;
+};
+
+const guruStats = (game: GameId) => {
+  if (!guruStatsByGame.has(game)) {
+    guruStatsByGame.set(game, createGuruStatsResource(cacheStorage, async () =>
+      (await import('../services/geminiService')).getGuruStats(game, { recentDraws: knownDraws(game) }), game));
+  }
+  return guruStatsByGame.get(game)!;
+};
+
+// The browser sends its own archive as {recentDraws}; only short plain lines are passed on
+const cleanDrawLines = (value: unknown): string[] =>
+  Array.isArray(value) ? value.slice(0, RECENT_DRAWS_COUNT).map(line => String(line).slice(0, 200)) : [];
+
+// HISTORY reasoning and its source lines are built locally and stay well under these
+const MAX_REASONING_LENGTH = 4000;
+const MAX_SOURCES = 20;
+
+const cleanSources = (value: unknown[]): string[] =>
+  value.slice(0, MAX_SOURCES).map(line => String(line).slice(0, 500));
+
+// Dream symbols come from the browser's dictionary: 30 built in plus the user's own
+const MAX_DREAM_SYMBOLS = 500;
+
+interface DreamSymbol {
+  id: string;
+  symbol: string;
+}
+
+const isDreamSymbol = (value: unknown): value is DreamSymbol =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as DreamSymbol).id === 'string' && typeof (value as DreamSymbol).symbol === 'string';
+
+const badGame = (game: unknown) => ({ error: `Unsupported game "${game}". Expected one of ${GAME_IDS.join(', ')}.` });
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const MAX_BODY_LENGTH = 100_000;
+
+// A request body that cannot be read: bad JSON (400) or too large (413)
+class RequestBodyError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+// The parsed JSON body, still unchecked; an empty body is {}
+const readBody = (req: http.IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+      if (raw.length > MAX_BODY_LENGTH) {
+        // Stop buffering; the connection is dropped once the 413 is out
+        raw = '';
+        req.removeAllListeners('data');
+        req.pause();
+        reject(new RequestBodyError('Request body too large', 413));
+      }
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        reject(new RequestBodyError('Invalid JSON body', 400));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// Every route takes a JSON object; its fields are checked by the route
+const readFields = async (req: http.IncomingMessage): Promise<Record<string, unknown>> => {
+  const body = await readBody(req);
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new RequestBodyError('Expected a JSON object body', 400);
+  }
+  return body as Record<string, unknown>;
+};
+
+const isServerMode = (mode: unknown): mode is GeneratorMode => typeof mode === 'string' && SERVER_MODES.includes(mode);
+
+// Aborts when the browser goes away before the answer was sent, e.g. the user cancelled
+const abortOnDisconnect = (res: http.ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+interface Failure {
+  status: number;
+  error: string;
+  details?: string[];
+}
+
+// Streamed routes answer with one GenerationEvent per line, ending with the
+// result or an error. The status is final once streaming starts, so failures
+// are reported in the error event instead.
+const sendStream = async (
+  res: http.ServerResponse,
+  run: (onEvent: (event: GenerationEvent) => void) => Promise<unknown>,
+  failure: (error: unknown) => Failure | null
+) => {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+  const send = (event: GenerationEvent) => {
+    if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+  };
+  try {
+    send({ type: 'result', data: await run(send) });
+  } catch (error) {
+    const known = failure(error);
+    if (!known) console.error('Streamed request failed:', error);
+    send({ type: 'error', status: known?.status || 500, error: known?.error || (error as Error).message });
+  }
+  res.end();
+};
+
+// The socket address, unless it is a trusted proxy. Then the nearest X-Forwarded-For
+// entry that is not a proxy itself; entries further left are the client's own claim.
+const clientKey = (req: http.IncomingMessage): string => {
+  const address = req.socket.remoteAddress || 'unknown';
+  if (!TRUSTED_PROXIES.includes(address)) return address;
+  const forwarded = [req.headers['x-forwarded-for']].flat().join(',').split(',').map(hop => hop.trim()).filter(Boolean);
+  return forwarded.reverse().find(hop => !TRUSTED_PROXIES.includes(hop)) || address;
+};
+
+// Writes to shared settings (prompts, guru registry): 403 while no ADMIN_TOKEN is configured, 401 for a missing or wrong token
+const adminFailure = (req: http.IncomingMessage): Failure | null => {
+  if (!ADMIN_TOKEN) return { status: 403, error: 'การแก้ไขการตั้งค่าถูกปิดอยู่ ตั้งค่า ADMIN_TOKEN บนเซิร์ฟเวอร์ก่อน' };
+  const given = Buffer.from(String(req.headers['x-admin-token'] || ''));
+  const expected = Buffer.from(ADMIN_TOKEN);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return { status: 401, error: 'รหัสผู้ดูแลไม่ถูกต้อง' };
+  }
+  return null;
+};
+
+// /api/prompts: the template list, new versions, rollback, custom modes and previews
+const handlePrompts = async (req: http.IncomingMessage, res: http.ServerResponse, route: string, pathname: string) => {
+  const { renderPrompt } = await import('../services/geminiService');
+  const [, id, action] = pathname.match(/^\/api\/prompts(?:\/([^/]+))?(?:\/([^/]+))?$/) || [];
+  const templateId = id && decodeURIComponent(id);
+
+  try {
+    if (route === 'GET /api/prompts') return sendJson(res, 200, prompts.list());
+
+    if (route === 'POST /api/prompts') {
+      const { label, description, from } = await readFields(req);
+      return sendJson(res, 201, prompts.createCustom(label, description, from));
+    }
+
+    if (route === 'POST /api/prompts/preview') {
+      const { template, prompt, systemInstruction = '', game = DEFAULT_GAME, recentDraws } = await readFields(req);
+      const current = typeof template === 'string' && prompts.get(template);
+      if (!current) return sendJson(res, 404, { error: `Unknown prompt template "${template}"` });
+      if (typeof prompt !== 'string' || typeof systemInstruction !== 'string') {
+        return sendJson(res, 400, { error: 'Expected { template: string, prompt: string, systemInstruction?: string }' });
+      }
+      if (!isGameId(game)) return sendJson(res, 400, badGame(game));
+      const history = current.task === 'phraseHistory' ? { summary: PREVIEW_SUMMARY, figures: PREVIEW_FIGURES } : {};
+      const rendered = renderPrompt(current.id, game, { ...history, recentDraws: cleanDrawLines(recentDraws) }, { prompt, systemInstruction });
+      return sendJson(res, 200, {
+        prompt: rendered.prompt,
+        systemInstruction: rendered.systemInstruction,
+        unknownVariables: unknownVariables(`${prompt}\n${systemInstruction}`, current.task),
+      });
+    }
+
+    if (route === `POST ${pathname}` && templateId && action === 'versions') {
+      const { prompt, systemInstruction, note } = await readFields(req);
+      return sendJson(res, 201, prompts.addVersion(templateId, { prompt, systemInstruction, note }));
+    }
+
+    if (route === `POST ${pathname}` && templateId && action === 'rollback') {
+      const { version } = await readFields(req);
+      return sendJson(res, 201, prompts.rollback(templateId, version));
+    }
+
+    if (route === `DELETE ${pathname}` && templateId && !action) {
+      prompts.remove(templateId);
+      return sendJson(res, 200, { deleted: templateId });
+    }
+  } catch (error) {
+    if (error instanceof PromptStoreError) return sendJson(res, error.status, { error: error.message });
+    throw error;
+  }
+
+  return sendJson(res, 404, { error: `No route for ${route}` });
+};
+
+// /api/gurus/registry: the tracked gurus, their order and numbers typed in by hand
+const handleGuruRegistry = async (req: http.IncomingMessage, res: http.ServerResponse, route: string, url: URL) => {
+  const [, id, action] = url.pathname.match(/^\/api\/gurus\/registry(?:\/([^/]+))?(?:\/([^/]+))?$/) || [];
+  const guruId = id && decodeURIComponent(id);
+
+  try {
+    if (route === 'GET /api/gurus/registry') {
+      const game = url.searchParams.get('game') || DEFAULT_GAME;
+      if (!isGameId(game)) return sendJson(res, 400, badGame(game));
+      const draw = url.searchParams.get('draw') || getNextDraw(new Date(), game).isoDate;
+      return sendJson(res, 200, { gurus: gurus.list(), manual: gurus.manualFor(game, draw) });
+    }
+
+    if (route === 'POST /api/gurus/registry') return sendJson(res, 201, gurus.add(await readFields(req)));
+
+    if (route === 'POST /api/gurus/registry/order') {
+      const { ids } = await readFields(req);
+      return sendJson(res, 200, gurus.reorder(ids));
+    }
+
+    if (route === `PUT ${url.pathname}` && guruId && !action) {
+      return sendJson(res, 200, gurus.update(guruId, await readFields(req)));
+    }
+
+    if (route === `DELETE ${url.pathname}` && guruId && !action) {
+      gurus.remove(guruId);
+      return sendJson(res, 200, { deleted: guruId });
+    }
+
+    if (route === `PUT ${url.pathname}` && guruId && action === 'manual') {
+      return sendJson(res, 200, gurus.setManual(guruId, await readFields(req)));
+    }
+
+    if (route === `DELETE ${url.pathname}` && guruId && action === 'manual') {
+      gurus.clearManual(guruId, url.searchParams.get('game') || DEFAULT_GAME, url.searchParams.get('draw'));
+      return sendJson(res, 200, { deleted: guruId });
+    }
+  } catch (error) {
+    if (error instanceof GuruStoreError) return sendJson(res, error.status, { error: error.message });
+    throw error;
+  }
+
+  return sendJson(res, 404, { error: `No route for ${route}` });
+};
+
+const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  // Loaded lazily so the .env values above are in place before any provider is created
+  const { generateLuckyNumbersAI, phraseHistoryReasoning, interpretDream, ModelOutputError, ModelTimeoutError } = await import('../services/geminiService');
+
+  // The model answered, but not with usable numbers (502), or did not answer in time (504)
+  const modelFailure = (error: unknown): Failure | null => {
+    if (error instanceof ModelOutputError) return { status: 502, error: error.message, details: error.errors };
+    if (error instanceof ModelTimeoutError) return { status: 504, error: error.message };
+    return null;
+  };
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  const force = url.searchParams.get('refresh') === '1';
+  const route = `${req.method} ${url.pathname}`;
+  const limiter = GENERATE_ROUTES.includes(route) ? generateLimiter : readLimiter;
+  const limit = limiter.check(clientKey(req));
+  if (!limit.allowed) {
+    return sendJson(res, 429, { error: 'Too many requests, please try again shortly.' }, {
+      'Retry-After': String(limit.retryAfterSeconds),
+    });
+  }
+
+  // Requests without a game are for THAI, as before multi-game support
+  const queryGame = url.searchParams.get('game') || DEFAULT_GAME;
+
+  if (url.pathname === '/api/prompts' || url.pathname.startsWith('/api/prompts/')) {
+    // Previews are read-only
+    const denied = req.method !== 'GET' && route !== 'POST /api/prompts/preview' && adminFailure(req);
+    if (denied) return sendJson(res, denied.status, { error: denied.error });
+    return handlePrompts(req, res, route, url.pathname);
+  }
+  if (url.pathname.startsWith('/api/gurus/registry')) {
+    const denied = req.method !== 'GET' && adminFailure(req);
+    if (denied) return sendJson(res, denied.status, { error: denied.error });
+    return handleGuruRegistry(req, res, route, url);
+  }
+
+  switch (route) {
+    case 'GET /api/draws/latest':
+      if (!isGameId(queryGame)) return sendJson(res, 400, badGame(queryGame));
+      return sendJson(res, 200, (await latestDraw(queryGame).get({ force: force && canForce(latestDraw(queryGame).peek()) })).data);
+
+    // Only the AI lookup is cached; registry edits and typed-in numbers show up at once
+    case 'GET /api/gurus': {
+      if (!isGameId(queryGame)) return sendJson(res, 400, badGame(queryGame));
+      const lookedUp = (await guruStats(queryGame).get({ force: force && canForce(guruStats(queryGame).peek()) })).data;
+      const manual = gurus.manualFor(queryGame, getNextDraw(new Date(), queryGame).isoDate);
+      return sendJson(res, 200, composeGuruStats(gurus.list(), lookedUp, manual));
+    }
+
+    case 'POST /api/generate': {
+      const { mode, game = DEFAULT_GAME, template, recentDraws, stream } = await readFields(req);
+      if (!isServerMode(mode)) {
+        return sendJson(res, 400, { error: `Unsupported mode "${mode}". Expected one of ${SERVER_MODES.join(', ')}.` });
+      }
+      if (!isGameId(game)) return sendJson(res, 400, badGame(game));
+      if (mode === GeneratorMode.CUSTOM && !(typeof template === 'string' && isCustomTemplate(template) && prompts.get(template))) {
+        return sendJson(res, 404, { error: `ไม่พบโหมด "${template}" อาจถูกลบไปแล้ว` });
+      }
+      const signal = abortOnDisconnect(res);
+      const options = { signal, templateId: typeof template === 'string' ? template : undefined, recentDraws: cleanDrawLines(recentDraws) };
+      if (stream) {
+        return sendStream(res, onEvent => generateLuckyNumbersAI(mode, game, { ...options, onEvent }), modelFailure);
+      }
+      try {
+        return sendJson(res, 200, await generateLuckyNumbersAI(mode, game, options));
+      } catch (error) {
+        // Nobody is left to answer
+        if (signal.aborted) return;
+        const failure = modelFailure(error);
+        if (!failure) throw error;
+        const { status, ...body } = failure;
+        return sendJson(res, status, body);
+      }
+    }
+
+    case 'POST /api/history/phrase': {
+      const { reasoning, sources, game = DEFAULT_GAME, recentDraws, stream } = await readFields(req);
+      if (typeof reasoning !== 'string' || !Array.isArray(sources)) {
+        return sendJson(res, 400, { error: 'Expected { reasoning: string, sources: string[] }' });
+      }
+      if (!isGameId(game)) return sendJson(res, 400, badGame(game));
+      const signal = abortOnDisconnect(res);
+      // Phrasing falls back to the plain text itself, so it never fails
+      const phrase = (onEvent?: (event: GenerationEvent) => void) =>
+        phraseHistoryReasoning(reasoning.slice(0, MAX_REASONING_LENGTH), cleanSources(sources), { signal, onEvent, game, recentDraws: cleanDrawLines(recentDraws) });
+      if (stream) {
+        return sendStream(res, async onEvent => ({ text: await phrase(onEvent) }), () => null);
+      }
+      return sendJson(res, 200, { text: await phrase() });
+    }
+
+    case 'POST /api/dream/interpret': {
+      const { dream, symbols } = await readFields(req);
+      if (typeof dream !== 'string' || !dream.trim() || !Array.isArray(symbols) || !symbols.every(isDreamSymbol)) {
+        return sendJson(res, 400, { error: 'Expected { dream: string, symbols: { id: string, symbol: string }[] }' });
+      }
+      const dictionary = symbols
+        .slice(0, MAX_DREAM_SYMBOLS)
+        .map(({ id, symbol }) => ({ id: id.slice(0, 100), symbol: symbol.slice(0, 100) }));
+      const signal = abortOnDisconnect(res);
+      try {
+        return sendJson(res, 200, await interpretDream(dream.slice(0, 2000), dictionary, signal));
+      } catch (error) {
+        if (signal.aborted) return;
+        const failure = modelFailure(error);
+        if (!failure) throw error;
+        const { status, ...body } = failure;
+        return sendJson(res, status, body);
+      }
+    }
+
+    default:
+      return sendJson(res, 404, { error: `No route for ${route}` });
+  }
+};
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch(error => {
+      if (error instanceof RequestBodyError) {
+        res.on('finish', () => req.destroy());
+        if (!res.headersSent) sendJson(res, error.status, { error: error.message }, { Connection: 'close' });
+        return;
+      }
+      console.error(`${req.method} ${req.url} failed:`, error);
+      if (!res.headersSent) sendJson(res, 500, { error: (error as Error).message });
+    });
+  })
+  .listen(PORT, () => {
+    console.log(`Thai Lotto AI API listening on http://localhost:${PORT}`);
+  });
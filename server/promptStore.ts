@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { AITask, PromptTemplate, PromptTemplateVersion } from '../types';
+import { BUILT_IN_TEMPLATES, CUSTOM_PREFIX, MAX_PROMPT_LENGTH, currentVersion, isCustomTemplate, unknownVariables } from '../services/promptTemplates';
+
+// Prompt templates and their version history, kept in one JSON file so the whole
+// team edits the same prompts. Built-in templates missing from the file start at
+// their default text; their labels and tasks always come from the code.
+
+export class PromptStoreError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'PromptStoreError';
+  }
+}
+
+export interface PromptEdit {
+  prompt: unknown;
+  systemInstruction: unknown;
+  note: unknown;
+}
+
+const MAX_LABEL_LENGTH = 60;
+
+const readFile = (file: string): PromptTemplate[] => {
+  try {
+    const stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return Array.isArray(stored) ? stored : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') console.error(`Failed to read ${file}, using default prompts:`, error);
+    return [];
+  }
+};
+
+const checkText = (value: unknown, field: string, task: AITask, required: boolean): string => {
+  if (typeof value !== 'string') throw new PromptStoreError(`${field} ต้องเป็นข้อความ`, 400);
+  if (required && !value.trim()) throw new PromptStoreError(`${field} ต้องไม่ว่าง`, 400);
+  if (value.length > MAX_PROMPT_LENGTH) throw new PromptStoreError(`${field} ยาวเกิน ${MAX_PROMPT_LENGTH} ตัวอักษร`, 400);
+  const unknown = unknownVariables(value, task);
+  if (unknown.length > 0) {
+    throw new PromptStoreError(`${field} ใช้ตัวแปรที่ไม่รู้จัก: ${unknown.map(v => `{${v}}`).join(', ')}`, 400);
+  }
+  return value;
+};
+
+const checkLabel = (value: unknown): string => {
+  const label = typeof value === 'string' ? value.trim() : '';
+  if (!label) throw new PromptStoreError('กรุณาตั้งชื่อโหมด', 400);
+  return label.slice(0, MAX_LABEL_LENGTH);
+};
+
+export const createPromptStore = (file: string) => {
+  const stored = readFile(file);
+  const templates: PromptTemplate[] = [
+    ...BUILT_IN_TEMPLATES.map(template => {
+      const saved = stored.find(s => s.id === template.id);
+      // Copied either way: versions are appended in place and BUILT_IN_TEMPLATES must stay the defaults
+      return { ...template, versions: saved?.versions?.length ? saved.versions : [...template.versions] };
+    }),
+    ...stored.filter(s => isCustomTemplate(s.id)),
+  ];
+
+  // Written whole through a temporary file, so a crash never leaves half a file
+  const persist = () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(templates, null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+  };
+
+  const find = (id: string): PromptTemplate => {
+    const template = templates.find(t => t.id === id);
+    if (!template) throw new PromptStoreError(`ไม่พบเทมเพลต "${id}"`, 404);
+    return template;
+  };
+
+  const append = (template: PromptTemplate, version: Omit<PromptTemplateVersion, 'version' | 'savedAt'>): PromptTemplate => {
+    template.versions.push({ ...version, version: currentVersion(template).version + 1, savedAt: Date.now() });
+    persist();
+    return template;
+  };
+
+  return {
+    list: (): PromptTemplate[] => templates,
+
+    get: (id: string): PromptTemplate | undefined => templates.find(t => t.id === id),
+
+    addVersion: (id: string, edit: PromptEdit): PromptTemplate => {
+      const template = find(id);
+      return append(template, {
+        prompt: checkText(edit.prompt, 'prompt', template.task, true),
+        systemInstruction: checkText(edit.systemInstruction ?? '', 'systemInstruction', template.task, false),
+        note: typeof edit.note === 'string' ? edit.note.trim().slice(0, 200) : '',
+      });
+    },
+
+    // The old text is saved again as the newest version, so history only ever grows
+    rollback: (id: string, version: unknown): PromptTemplate => {
+      const template = find(id);
+      const target = template.versions.find(v => v.version === version);
+      if (!target) throw new PromptStoreError(`ไม่พบเวอร์ชัน ${version} ของ ${template.label}`, 404);
+      return append(template, {
+        prompt: target.prompt,
+        systemInstruction: target.systemInstruction,
+        note: `ย้อนกลับเป็นเวอร์ชัน ${target.version}`,
+      });
+    },
+
+    // Custom modes generate number sets, so they start from a set-generating template
+    createCustom: (label: unknown, description: unknown, from: unknown): PromptTemplate => {
+      const base = find(String(from));
+      if (base.task !== 'luckyNumbers') throw new PromptStoreError(`${base.label} ไม่ได้สร้างชุดเลข ใช้เป็นต้นแบบโหมดไม่ได้`, 400);
+      const start = currentVersion(base);
+      const template: PromptTemplate = {
+        id: `${CUSTOM_PREFIX}${randomUUID()}`,
+        label: checkLabel(label),
+        description: typeof description === 'string' ? description.trim().slice(0, 200) : '',
+        task: 'luckyNumbers',
+        custom: true,
+        versions: [{
+          version: 1,
+          prompt: start.prompt,
+          systemInstruction: start.systemInstruction,
+          note: `สร้างจาก ${base.label} เวอร์ชัน ${start.version}`,
+          savedAt: Date.now(),
+        }],
+      };
+      templates.push(template);
+      persist();
+      return template;
+    },
+
+    remove: (id: string): void => {
+      const template = find(id);
+      if (!template.custom) throw new PromptStoreError('ลบได้เฉพาะโหมดที่สร้างเอง', 400);
+      templates.splice(templates.indexOf(template), 1);
+      persist();
+    },
+  };
+};
@@ -0,0 +1,38 @@
+// Fixed-window request counter per client key (usually the IP address).
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiterOptions {
+  windowMs: number;
+  max: number;
+}
+
+export const createRateLimiter = ({ windowMs, max }: RateLimiterOptions) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const check = (key: string, now: number = Date.now()): RateLimitResult => {
+    let entry = windows.get(key);
+    if (!entry || now - entry.start >= windowMs) {
+      entry = { start: now, count: 0 };
+      windows.set(key, entry);
+    }
+
+    entry.count++;
+    return {
+      allowed: entry.count <= max,
+      retryAfterSeconds: Math.ceil((entry.start + windowMs - now) / 1000),
+    };
+  };
+
+  // Drop expired windows so the map does not grow without bound
+  const prune = (now: number = Date.now()) => {
+    windows.forEach((entry, key) => {
+      if (now - entry.start >= windowMs) windows.delete(key);
+    });
+  };
+
+  return { check, prune };
+};
@@ -0,0 +1,129 @@
+import { GameId, LotterySet, ModeBacktest, PastDraw, PredictionScore, PrizeRule, SavedPrediction } from "../types";
+import { checkTicket } from "./ticketChecker";
+import { listDraws } from "./drawStore";
+import { listPredictions, updatePrediction } from "./predictionHistory";
+import { DEFAULT_GAME, GAMES, drawKey, gameOf } from "./games";
+
+// THAI sets play prize1 as a ticket. In betting games a set stands for the bets
+// it implies: prize1's tails of every bet length, the 3 ตัวบน and the 2 ตัวล่าง.
+const prizeHitsFor = (set: LotterySet, draw: PastDraw, game: GameId) => {
+  const g = GAMES[game];
+  if (!new RegExp(`^\\d{${g.prize1.digits}}$`).test(set.prize1)) return [];
+  if (!g.betting) return checkTicket(set.prize1, draw, game).hits;
+
+  const tops = g.ticketLengths.filter(length => length > 2).map(length => set.prize1.slice(-length));
+  const bets = [...tops, ...set.rear3, set.prize1.slice(-2), set.rear2]
+    .filter((n, i, all) => all.indexOf(n) === i);
+  return bets.flatMap(bet => checkTicket(bet, draw, game).hits);
+};
+
+// Compare one predicted set with the actual result of its draw.
+export const scorePrediction = (set: LotterySet, draw: PastDraw, drawIsoDate: string): PredictionScore => {
+  const digitMatches = set.prize1
+    .split('')
+    .filter((digit, i) => digit === draw.prize1[i])
+    .length;
+
+  return {
+    drawIsoDate,
+    prizeHits: prizeHitsFor(set, draw, gameOf(set)),
+    digitMatches,
+    front3Hits: set.front3.filter(n => draw.front3.includes(n)).length,
+    rear3Hits: set.rear3.filter(n => draw.rear3.includes(n)).length,
+    rear2Hit: set.rear2 === draw.rear2,
+    scoredAt: Date.now(),
+  };
+};
+
+// Score every saved prediction whose draw result is now in the archive, and score
+// again when the draw record has changed since, e.g. headline prizes replaced by the
+// full table. Returns the newly scored predictions.
+export const scorePendingPredictions = async (): Promise<SavedPrediction[]> => {
+  const [predictions, draws] = await Promise.all([listPredictions(), listDraws()]);
+  const drawsByKey = new Map(draws.map(d => [d.id, d]));
+
+  const scored: SavedPrediction[] = [];
+  for (const prediction of predictions) {
+    if (!prediction.drawIsoDate) continue;
+    const draw = drawsByKey.get(drawKey(gameOf(prediction), prediction.drawIsoDate));
+    if (!draw || prediction.score?.drawSavedAt === draw.savedAt) continue;
+    const score = { ...scorePrediction(prediction, draw, draw.isoDate), drawSavedAt: draw.savedAt };
+    await updatePrediction(prediction.id, { score });
+    scored.push({ ...prediction, score });
+  }
+  return scored;
+};
+
+export const summarizeMode = (mode: string, predictions: SavedPrediction[]): ModeBacktest => {
+  const scored = predictions.filter(p => p.source === mode && p.score);
+  const n = scored.length || 1;
+  const sum = (fn: (s: PredictionScore) => number) =>
+    scored.reduce((total, p) => total + fn(p.score!), 0);
+
+  return {
+    mode,
+    sets: scored.length,
+    draws: new Set(scored.map(p => p.score!.drawIsoDate)).size,
+    prizeHitRate: sum(s => (s.prizeHits.length > 0 ? 1 : 0)) / n,
+    rear2HitRate: sum(s => (s.rear2Hit ? 1 : 0)) / n,
+    threeDigitHitsPerSet: sum(s => s.front3Hits + s.rear3Hits) / n,
+    avgDigitMatches: sum(s => s.digitMatches) / n,
+  };
+};
+
+// How many numbers of a draw each prize field holds
+const fieldSize = (field: PrizeRule['field'], game: GameId): number => {
+  const g = GAMES[game];
+  const sizes: Record<PrizeRule['field'], number> = {
+    prize1: 1, adjacent1: 2, prize2: 5, prize3: 10, prize4: 50, prize5: 100,
+    front3: g.front3?.count || 0, rear3: g.rear3.count, rear2: 1,
+  };
+  return sizes[field];
+};
+
+// Chance that a random set wins any prize, played the way prizeHitsFor plays it
+const randomPrizeHitRate = (game: GameId): number => {
+  const g = GAMES[game];
+  const chance = (rule: PrizeRule) => fieldSize(rule.field, game) / 10 ** rule.digits;
+  const misses: number[] = [];
+
+  if (!g.betting) {
+    // One ticket: prizes read from the same digits exclude each other, so their chances add up
+    const groups = new Map<string, number>();
+    g.prizes.forEach(rule => {
+      const key = `${rule.digits}${rule.from}`;
+      groups.set(key, (groups.get(key) || 0) + chance(rule));
+    });
+    groups.forEach(p => misses.push(1 - p));
+  } else {
+    // prize1's own tails win together against prizes read from prize1: the shortest decides
+    const onPrize1 = g.prizes.filter(rule => rule.field === 'prize1');
+    if (onPrize1.length > 0) misses.push(1 - 10 ** -Math.min(...onPrize1.map(rule => rule.digits)));
+
+    // Every other bet and prize pairing counts as independent
+    const tails = [...g.ticketLengths.filter(length => length > 2), 2];
+    const bets = [...tails.map(length => ({ length, fromPrize1: true })), { length: 2, fromPrize1: false }];
+    if (!g.rear3.fromPrize1) bets.push(...Array(g.rear3.count).fill({ length: 3, fromPrize1: false }));
+    bets.forEach(bet => g.prizes
+      .filter(rule => rule.digits === bet.length && !(bet.fromPrize1 && rule.field === 'prize1'))
+      .forEach(rule => misses.push(1 - chance(rule))));
+  }
+  return 1 - misses.reduce((miss, p) => miss * p, 1);
+};
+
+// What a uniformly random set of the game is expected to score, for comparison.
+// A random THAI ticket misses all 168 six-digit prizes, both front 3, both rear 3 and the rear 2.
+export const randomBaseline = (game: GameId = DEFAULT_GAME): ModeBacktest => {
+  const g = GAMES[game];
+  const front3 = g.front3?.count || 0;
+  return {
+    mode: 'RANDOM_BASELINE',
+    sets: 0,
+    draws: 0,
+    prizeHitRate: randomPrizeHitRate(game),
+    rear2HitRate: 1 / 100,
+    // Each predicted 3 digit number against the same count drawn in its slot
+    threeDigitHitsPerSet: (front3 * front3 + g.rear3.count * g.rear3.count) / 1000,
+    avgDigitMatches: g.prize1.digits / 10,
+  };
+};
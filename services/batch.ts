@@ -0,0 +1,116 @@
+import { GeneratorMode, LotterySet } from "../types";
+import { ApiError } from "./lottoApi";
+import { setDigits } from "./seededRng";
+
+// Generates many sets in one go, cycling through the chosen modes. Modes that
+// fail or keep repeating themselves are dropped instead of being retried forever.
+
+export const BATCH_MIN = 5;
+export const BATCH_MAX = 500;
+
+// SET drops identical sets; TICKET drops sets whose prize1 was already used,
+// since the same six digits would mean buying the same ticket twice
+export type DedupeRule = 'OFF' | 'SET' | 'TICKET';
+
+export interface BatchRequest {
+  count: number;
+  modes: GeneratorMode[];
+  dedupe: DedupeRule;
+}
+
+export interface BatchResult {
+  sets: LotterySet[];
+  duplicates: number;                              // Sets discarded as duplicates
+  dropped: { mode: GeneratorMode; reason: string }[];
+  cancelled: boolean;
+}
+
+export interface BatchProgress {
+  done: number;
+  total: number;
+  waitingSeconds?: number;   // Set while waiting out the server rate limit
+}
+
+// Deterministic modes repeat the same set, so a few duplicates in a row end them
+const MAX_DUPLICATE_STREAK = 5;
+const MAX_RATE_LIMIT_WAIT_SECONDS = 120;
+
+const dedupeKey = (set: LotterySet, rule: DedupeRule): string | null =>
+  rule === 'SET' ? setDigits(set) : rule === 'TICKET' ? set.prize1 : null;
+
+// Resolves false if cancelled while waiting
+const wait = (seconds: number, signal?: AbortSignal) =>
+  new Promise<boolean>(resolve => {
+    const timer = setTimeout(() => resolve(true), seconds * 1000);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve(false);
+    }, { once: true });
+  });
+
+export const clampBatchCount = (count: number): number =>
+  Math.min(BATCH_MAX, Math.max(BATCH_MIN, Math.floor(count) || BATCH_MIN));
+
+// `create` builds one set for a mode; `index` counts sets attempted so far, so
+// seeded modes can derive a different seed for each one
+export const generateBatch = async (
+  { count, modes, dedupe }: BatchRequest,
+  create: (mode: GeneratorMode, index: number) => Promise<LotterySet>,
+  onProgress?: (progress: BatchProgress) => void,
+  signal?: AbortSignal
+): Promise<BatchResult> => {
+  const total = clampBatchCount(count);
+  const result: BatchResult = { sets: [], duplicates: 0, dropped: [], cancelled: false };
+  const active = [...new Set(modes)];
+  const streaks = new Map<GeneratorMode, number>();
+  const seen = new Set<string>();
+  let attempts = 0;
+  let turn = 0;
+
+  const drop = (mode: GeneratorMode, reason: string) => {
+    active.splice(active.indexOf(mode), 1);
+    result.dropped.push({ mode, reason });
+  };
+
+  while (result.sets.length < total && active.length > 0) {
+    if (signal?.aborted) {
+      result.cancelled = true;
+      break;
+    }
+    const mode = active[turn++ % active.length];
+
+    let set: LotterySet;
+    try {
+      set = await create(mode, attempts++);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 429 && (err.retryAfterSeconds ?? 0) <= MAX_RATE_LIMIT_WAIT_SECONDS) {
+        const seconds = err.retryAfterSeconds ?? 60;
+        onProgress?.({ done: result.sets.length, total, waitingSeconds: seconds });
+        if (!await wait(seconds, signal)) {
+          result.cancelled = true;
+          break;
+        }
+        turn--;   // Same mode again
+        continue;
+      }
+      drop(mode, err instanceof Error ? err.message : String(err));
+      continue;
+    }
+
+    const key = dedupeKey(set, dedupe);
+    if (key !== null && seen.has(key)) {
+      result.duplicates++;
+      const streak = (streaks.get(mode) || 0) + 1;
+      streaks.set(mode, streak);
+      if (streak >= MAX_DUPLICATE_STREAK) drop(mode, `ให้ผลซ้ำเดิม ${streak} ครั้งติดกัน`);
+      continue;
+    }
+
+    if (key !== null) seen.add(key);
+    streaks.set(mode, 0);
+    result.sets.push(set);
+    onProgress?.({ done: result.sets.length, total });
+  }
+
+  return result;
+};
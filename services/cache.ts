@@ -0,0 +1,94 @@
+// Draw-period aware cache with TTLs and stale-while-revalidate.
+// Works on any Storage-like backend: localStorage in the browser, memory on the server.
+
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface CacheEntry<T> {
+  period: string;    // Draw period the data belongs to (an ISO draw date)
+  data: T;
+  fetchedAt: number;
+}
+
+export interface CachedResourceOptions<T> {
+  key: string;
+  storage: KeyValueStorage;
+  period: () => string;
+  ttlMs: (data: T, period: string) => number;
+  fetcher: (force: boolean) => Promise<T>;  // `force` asks upstream caches to be bypassed too
+  isUsable?: (data: T) => boolean;   // Unusable responses are returned but never cached
+  showAcrossPeriods?: boolean;       // Allow an entry from an earlier period to be shown while revalidating
+}
+
+export const createMemoryStorage = (): KeyValueStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value); },
+    removeItem: (key) => { items.delete(key); },
+  };
+};
+
+export const createCachedResource = <T>(options: CachedResourceOptions<T>) => {
+  const { key, storage, period, ttlMs, fetcher, isUsable, showAcrossPeriods = false } = options;
+  let inflight: Promise<CacheEntry<T>> | null = null;
+
+  const read = (): CacheEntry<T> | null => {
+    try {
+      const raw = storage.getItem(key);
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  // Whatever can be shown right now, fresh or not
+  const peek = (): CacheEntry<T> | null => {
+    const entry = read();
+    if (!entry) return null;
+    if (entry.period !== period() && !showAcrossPeriods) return null;
+    return entry;
+  };
+
+  const isFresh = (entry: CacheEntry<T>, now: number = Date.now()): boolean =>
+    entry.period === period() && now - entry.fetchedAt < ttlMs(entry.data, entry.period);
+
+  // Concurrent callers share one request
+  const refresh = (force = false): Promise<CacheEntry<T>> => {
+    if (!inflight) {
+      const currentPeriod = period();
+      inflight = fetcher(force)
+        .then(data => {
+          const entry: CacheEntry<T> = { period: currentPeriod, data, fetchedAt: Date.now() };
+          if (!isUsable || isUsable(data)) {
+            try {
+              storage.setItem(key, JSON.stringify(entry));
+            } catch (error) {
+              console.error(`Failed to cache ${key}:`, error);
+            }
+          }
+          return entry;
+        })
+        .finally(() => {
+          inflight = null;
+        });
+    }
+    return inflight;
+  };
+
+  // Cached entry if still fresh, otherwise a new fetch. `force` always fetches.
+  const get = async ({ force = false } = {}): Promise<CacheEntry<T>> => {
+    const entry = peek();
+    if (!force && entry && isFresh(entry)) return entry;
+    return refresh(force);
+  };
+
+  const clear = () => storage.removeItem(key);
+
+  return { peek, isFresh, refresh, get, clear };
+};
+
+export type CachedResource<T> = ReturnType<typeof createCachedResource<T>>;
@@ -0,0 +1,197 @@
+import {
+  ConsensusBacker, ConsensusEntry, ConsensusMode, ConsensusRanking, ConsensusSettings, ConsensusSource,
+  GameId, GuruMeasuredStats, GuruStat, LotterySet, ModeBacktest, SavedPrediction,
+} from "../types";
+import { MODE_LABELS } from "../constants";
+import { randomBaseline, summarizeMode } from "./backtest";
+import { guruKey } from "./guruTracker";
+import { GAMES, gameOf } from "./games";
+
+// Consensus ranking: every mode's latest set for the upcoming draw and every
+// guru card vote for 2 and 3 digit numbers. Votes are weighted per source and,
+// optionally, by how often that source has actually hit, then summed per number.
+
+export const CONSENSUS_MODES: ConsensusMode[] = ['RNG', 'AI', 'HISTORY', 'GURU'];
+
+// A guru's headline number counts fully, the supporting numbers half
+export const TOP_PICK_STRENGTH = 1;
+export const SECONDARY_STRENGTH = 0.5;
+
+// Accuracy factors are pulled towards 1 as if each source had this many extra
+// samples at the baseline rate, and kept within these bounds, so a few lucky
+// draws cannot dominate the ranking
+const ACCURACY_PRIOR = 10;
+const MIN_FACTOR = 0.25;
+const MAX_FACTOR = 4;
+
+const SETTINGS_KEY = 'consensus:settings';
+
+export const DEFAULT_CONSENSUS_SETTINGS: ConsensusSettings = {
+  modeWeights: { RNG: 0.5, AI: 1, HISTORY: 1, GURU: 1 },
+  guruWeight: 1,
+  byAccuracy: false,
+};
+
+export const loadConsensusSettings = (): ConsensusSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_CONSENSUS_SETTINGS;
+    const stored = JSON.parse(raw);
+    return {
+      ...DEFAULT_CONSENSUS_SETTINGS,
+      ...stored,
+      modeWeights: { ...DEFAULT_CONSENSUS_SETTINGS.modeWeights, ...stored.modeWeights },
+    };
+  } catch {
+    return DEFAULT_CONSENSUS_SETTINGS;
+  }
+};
+
+export const saveConsensusSettings = (settings: ConsensusSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// `rate` observed over `samples`, relative to `baseline`, shrunk towards 1
+export const accuracyFactor = (rate: number, samples: number, baseline: number): number => {
+  if (samples <= 0 || baseline <= 0) return 1;
+  const smoothed = (rate * samples + baseline * ACCURACY_PRIOR) / (samples + ACCURACY_PRIOR);
+  return Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, smoothed / baseline));
+};
+
+// 2 and 3 digit hits per scored set, against what random sets of the same game score
+const modeFactor = (summary: ModeBacktest, baseline: ModeBacktest): number =>
+  accuracyFactor(
+    summary.rear2HitRate + summary.threeDigitHitsPerSet,
+    summary.sets,
+    baseline.rear2HitRate + baseline.threeDigitHitsPerSet
+  );
+
+// Gurus are compared with the hit rate of all tracked gurus together
+const guruFactor = (measured: GuruMeasuredStats | undefined, all: GuruMeasuredStats[]): number => {
+  const attempts = all.reduce((sum, m) => sum + m.attempts, 0);
+  const hits = all.reduce((sum, m) => sum + m.hits, 0);
+  if (!measured || attempts === 0) return 1;
+  return accuracyFactor(measured.hits / Math.max(1, measured.attempts), measured.attempts, hits / attempts);
+};
+
+// The 2 and 3 digit numbers a set stands for: its 3 digit prizes, the 3 ตัวบน
+// and 2 ตัวบน from prize1, and the rear 2
+export const setNumbers = (set: LotterySet): string[] => {
+  const tails = /^\d+$/.test(set.prize1) ? [set.prize1.slice(-3), set.prize1.slice(-2)] : [];
+  return [...set.front3, ...set.rear3, ...tails, set.rear2]
+    .filter(n => /^\d{2,3}$/.test(n))
+    .filter((n, i, all) => all.indexOf(n) === i);
+};
+
+// Newest saved set of each consensus mode for the draw
+export const latestModeSets = (
+  predictions: SavedPrediction[],
+  game: GameId,
+  drawIsoDate: string
+): Partial<Record<ConsensusMode, SavedPrediction>> => {
+  const latest: Partial<Record<ConsensusMode, SavedPrediction>> = {};
+  predictions
+    .filter(p => gameOf(p) === game && p.drawIsoDate === drawIsoDate)
+    .forEach(p => {
+      const mode = p.source as ConsensusMode;
+      if (!CONSENSUS_MODES.includes(mode)) return;
+      if (!latest[mode] || latest[mode]!.timestamp < p.timestamp) latest[mode] = p;
+    });
+  return latest;
+};
+
+// Turn the sets and guru cards into weighted sources. Sources with zero weight are left out.
+export const buildConsensusSources = (
+  sets: Partial<Record<ConsensusMode, LotterySet>>,
+  gurus: GuruStat[],
+  settings: ConsensusSettings,
+  history: SavedPrediction[],
+  measured: Record<string, GuruMeasuredStats>
+): ConsensusSource[] => {
+  const sources: ConsensusSource[] = [];
+
+  CONSENSUS_MODES.forEach(mode => {
+    const set = sets[mode];
+    if (!set || settings.modeWeights[mode] <= 0) return;
+    const game = gameOf(set);
+    const factor = settings.byAccuracy
+      ? modeFactor(summarizeMode(mode, history.filter(p => gameOf(p) === game)), randomBaseline(game))
+      : 1;
+    sources.push({
+      id: mode,
+      label: MODE_LABELS[mode],
+      kind: 'MODE',
+      weight: settings.modeWeights[mode] * factor,
+      accuracyFactor: factor,
+      numbers: setNumbers(set).map(number => ({ number, strength: 1 })),
+    });
+  });
+
+  if (settings.guruWeight > 0) {
+    const allMeasured = Object.values(measured);
+    gurus
+      .filter(g => !g.degraded && g.nextDrawPrediction?.topPick)
+      .forEach(guru => {
+        const key = guruKey(guru);
+        const factor = settings.byAccuracy ? guruFactor(measured[key], allMeasured) : 1;
+        const picks = [
+          { number: guru.nextDrawPrediction.topPick, strength: TOP_PICK_STRENGTH },
+          ...(guru.nextDrawPrediction.secondary || []).map(number => ({ number, strength: SECONDARY_STRENGTH })),
+        ];
+        sources.push({
+          id: `guru:${key}`,
+          label: guru.name,
+          kind: 'GURU',
+          weight: settings.guruWeight * factor,
+          accuracyFactor: factor,
+          // A number listed twice keeps its strongest mention
+          numbers: picks
+            .filter(p => /^\d{2,3}$/.test(p.number))
+            .filter((p, i, all) => all.findIndex(q => q.number === p.number) === i),
+        });
+      });
+  }
+
+  return sources;
+};
+
+const rank = (entries: Map<string, ConsensusBacker[]>, totalWeight: number): ConsensusEntry[] =>
+  [...entries.entries()]
+    .map(([number, backers]) => {
+      const score = backers.reduce((sum, b) => sum + b.contribution, 0);
+      return {
+        number,
+        score,
+        share: totalWeight > 0 ? score / totalWeight : 0,
+        backers: backers.sort((a, b) => b.contribution - a.contribution),
+      };
+    })
+    .filter(e => e.score > 0)
+    .sort((a, b) => b.score - a.score || b.backers.length - a.backers.length || a.number.localeCompare(b.number));
+
+export const buildConsensus = (sources: ConsensusSource[]): ConsensusRanking => {
+  const three = new Map<string, ConsensusBacker[]>();
+  const two = new Map<string, ConsensusBacker[]>();
+
+  sources.forEach(source => {
+    source.numbers.forEach(({ number, strength }) => {
+      const byNumber = number.length === 3 ? three : two;
+      byNumber.set(number, [
+        ...(byNumber.get(number) || []),
+        { sourceId: source.id, label: source.label, kind: source.kind, contribution: source.weight * strength },
+      ]);
+    });
+  });
+
+  const totalWeight = sources.reduce((sum, s) => sum + s.weight, 0);
+  return { three: rank(three, totalWeight), two: rank(two, totalWeight), totalWeight };
+};
+
+// Label of each ranked list in the game's terms
+export const consensusLabels = (game: GameId) => {
+  const g = GAMES[game];
+  return {
+    three: g.rear3.fromPrize1 ? g.rear3.label : 'เลข 3 ตัว',
+    two: g.betting ? `${g.rear2.label} / 2 ตัวบน` : 'เลข 2 ตัว',
+  };
+};
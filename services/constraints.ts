@@ -0,0 +1,259 @@
+import { GameId, NumberConstraints, StoredDraw } from "../types";
+import { DEFAULT_GAME, GAMES } from "./games";
+
+// Constraint rules for RNG sets. Candidates are counted exactly, so an impossible
+// rule set is reported instead of retrying forever, and picking the n-th valid
+// candidate keeps sampling uniform.
+
+export const PLACE_LABELS = ['หน่วย', 'สิบ', 'ร้อย'];
+
+// The independently drawn number lengths of a game. A 3 ตัวบน taken from
+// prize1 follows the prize1 rules, so it is not listed separately.
+export const numberLengths = (game: GameId = DEFAULT_GAME): { length: number; label: string }[] => {
+  const g = GAMES[game];
+  const threes = g.front3 !== null || !g.rear3.fromPrize1;
+  return [
+    { length: g.prize1.digits, label: g.prize1.label },
+    ...(threes ? [{ length: 3, label: 'เลข 3 ตัว' }] : []),
+    { length: 2, label: g.rear2.label },
+  ];
+};
+
+export const DEFAULT_CONSTRAINTS: NumberConstraints = {
+  appliesTo: [6, 3, 2],
+  excludeDigits: [],
+  includeDigits: [],
+  pinned: [null, null, null],
+  repeat: 'ANY',
+  sumMin: null,
+  sumMax: null,
+  avoidRecentDraws: 0,
+};
+
+export class ImpossibleConstraintsError extends Error {
+  constructor(public reasons: string[]) {
+    super(`เงื่อนไขที่ตั้งไว้เป็นไปไม่ได้: ${reasons.join(' · ')}`);
+    this.name = 'ImpossibleConstraintsError';
+  }
+}
+
+const hasRules = (c: NumberConstraints): boolean =>
+  c.excludeDigits.length > 0 ||
+  c.includeDigits.length > 0 ||
+  c.pinned.some(d => d !== null) ||
+  c.repeat !== 'ANY' ||
+  c.sumMin !== null ||
+  c.sumMax !== null ||
+  c.avoidRecentDraws > 0;
+
+export const hasConstraints = (c: NumberConstraints): boolean =>
+  c.appliesTo.length > 0 && hasRules(c);
+
+// Moves `appliesTo` to another game's lengths: prize1 stays selected when its
+// length changes, and lengths the game does not draw are dropped
+export const retargetConstraints = (c: NumberConstraints, from: GameId, to: GameId): NumberConstraints => {
+  const lengths = numberLengths(to).map(n => n.length);
+  const appliesTo = c.appliesTo
+    .map(length => (length === GAMES[from].prize1.digits ? GAMES[to].prize1.digits : length))
+    .filter((length, i, all) => lengths.includes(length) && all.indexOf(length) === i);
+  return { ...c, appliesTo };
+};
+
+// Numbers of the last N draws; draws are newest first as returned by listDraws
+export const recentNumbers = (draws: StoredDraw[], count: number): string[] =>
+  [...new Set(draws.slice(0, count).flatMap(d => [d.prize1, ...d.front3, ...d.rear3, d.rear2]))];
+
+// Digits allowed at each position, left to right
+const allowedDigits = (length: number, c: NumberConstraints): number[][] =>
+  Array.from({ length }, (_, i) => {
+    const pin = c.pinned[length - 1 - i];
+    if (pin !== null && pin !== undefined) return c.excludeDigits.includes(pin) ? [] : [pin];
+    return Array.from({ length: 10 }, (_, d) => d).filter(d => !c.excludeDigits.includes(d));
+  });
+
+const matches = (digits: number[], c: NumberConstraints, avoid: Set<string>): boolean => {
+  if (c.includeDigits.some(d => !digits.includes(d))) return false;
+
+  const distinct = new Set(digits).size;
+  if (c.repeat === 'NO_REPEAT' && distinct !== digits.length) return false;
+  if (c.repeat === 'DOUBLES' && distinct === digits.length) return false;
+
+  const sum = digits.reduce((total, d) => total + d, 0);
+  if (c.sumMin !== null && sum < c.sumMin) return false;
+  if (c.sumMax !== null && sum > c.sumMax) return false;
+
+  return avoid.size === 0 || !avoid.has(digits.join(''));
+};
+
+const appliesTo = (length: number, c: NumberConstraints): boolean =>
+  c.appliesTo.includes(length) && hasRules(c);
+
+interface CandidateSpace {
+  size: number;                    // Valid candidates, avoided numbers included
+  unrank: (rank: number) => string;
+  rankOf: (n: string) => number;
+}
+
+// Valid candidates in ascending order, counted per digit position instead of
+// enumerated: a prefix only matters through its digit sum, the digits it used
+// and whether one repeated, so counts for the rest of the number are memoized.
+const candidateSpace = (length: number, c: NumberConstraints): CandidateSpace => {
+  const allowed = allowedDigits(length, c);
+  const includeMask = c.includeDigits.reduce((mask, d) => mask | (1 << d), 0);
+  const trackSum = c.sumMin !== null || c.sumMax !== null;
+  const memo = new Map<number, number>();
+
+  // Used digits are only remembered while a repeat rule or a required digit can still depend on them
+  const step = (mask: number, sum: number, repeated: boolean, d: number) => {
+    const nextRepeated = repeated || (mask & (1 << d)) !== 0;
+    const keepAll = c.repeat === 'NO_REPEAT' || (c.repeat === 'DOUBLES' && !nextRepeated);
+    const nextMask = mask | (1 << d);
+    return { mask: keepAll ? nextMask : nextMask & includeMask, sum: trackSum ? sum + d : 0, repeated: nextRepeated };
+  };
+
+  // Ways to finish a number whose first `pos` digits are fixed
+  const completions = (pos: number, mask: number, sum: number, repeated: boolean): number => {
+    if (c.sumMax !== null && sum > c.sumMax) return 0;
+    if (pos === length) {
+      if ((mask & includeMask) !== includeMask) return 0;
+      if (c.repeat === 'DOUBLES' && !repeated) return 0;
+      return c.sumMin !== null && sum < c.sumMin ? 0 : 1;
+    }
+    const key = ((pos * 1024 + mask) * 2 + (repeated ? 1 : 0)) * 100 + sum;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    let total = 0;
+    for (const d of allowed[pos]) {
+      if (c.repeat === 'NO_REPEAT' && mask & (1 << d)) continue;
+      const next = step(mask, sum, repeated, d);
+      total += completions(pos + 1, next.mask, next.sum, next.repeated);
+    }
+    memo.set(key, total);
+    return total;
+  };
+
+  // Walks the digits of the rank-th candidate, or of `n`, returning the rank in the latter case
+  const walk = (choose: (pos: number, d: number, count: number) => boolean): number => {
+    let state = { mask: 0, sum: 0, repeated: false };
+    let before = 0;
+    for (let pos = 0; pos < length; pos++) {
+      for (const d of allowed[pos]) {
+        if (c.repeat === 'NO_REPEAT' && state.mask & (1 << d)) continue;
+        const next = step(state.mask, state.sum, state.repeated, d);
+        const count = completions(pos + 1, next.mask, next.sum, next.repeated);
+        if (choose(pos, d, count)) {
+          state = next;
+          break;
+        }
+        before += count;
+      }
+    }
+    return before;
+  };
+
+  return {
+    size: allowed.some(a => a.length === 0) ? 0 : completions(0, 0, 0, false),
+    unrank: rank => {
+      const digits: number[] = [];
+      let remaining = rank;
+      walk((_, d, count) => {
+        if (remaining >= count) {
+          remaining -= count;
+          return false;
+        }
+        digits.push(d);
+        return true;
+      });
+      return digits.join('');
+    },
+    rankOf: n => walk((pos, d) => Number(n[pos]) === d),
+  };
+};
+
+// Numbers to skip that are otherwise valid candidates, as ranks in ascending order
+const avoidedRanks = (length: number, c: NumberConstraints, space: CandidateSpace): number[] => {
+  const allowed = allowedDigits(length, c);
+  return [...new Set(c.avoidNumbers || [])]
+    .filter(n => n.length === length && /^\d+$/.test(n))
+    .map(n => n.split('').map(Number))
+    .filter(digits => digits.every((d, i) => allowed[i].includes(d)) && matches(digits, c, new Set()))
+    .map(digits => space.rankOf(digits.join('')))
+    .sort((a, b) => a - b);
+};
+
+// Batches reuse the same constraints for every set, so the last spaces are kept
+let lastSpaces: { key: string; spaces: Map<number, { space: CandidateSpace; avoided: number[] }> } | null = null;
+
+const spaceFor = (length: number, c: NumberConstraints) => {
+  const key = JSON.stringify(c);
+  if (lastSpaces?.key !== key) lastSpaces = { key, spaces: new Map() };
+  if (!lastSpaces.spaces.has(length)) {
+    const space = candidateSpace(length, c);
+    lastSpaces.spaces.set(length, { space, avoided: avoidedRanks(length, c, space) });
+  }
+  return lastSpaces.spaces.get(length)!;
+};
+
+// Lengths without rules take any number
+export const countCandidates = (length: number, c: NumberConstraints): number => {
+  if (!appliesTo(length, c)) return 10 ** length;
+  const { space, avoided } = spaceFor(length, c);
+  return space.size - avoided.length;
+};
+
+// The valid candidates at the given ranks (0-based), in the order requested
+export const pickCandidates = (length: number, c: NumberConstraints, ranks: number[]): string[] => {
+  if (!appliesTo(length, c)) return ranks.map(r => r.toString().padStart(length, '0'));
+  const { space, avoided } = spaceFor(length, c);
+  return ranks.map(rank => {
+    // Step over the avoided numbers at or below the rank
+    let full = rank;
+    for (const skipped of avoided) {
+      if (skipped <= full) full++;
+    }
+    return space.unrank(full);
+  });
+};
+
+// Problems that can be explained without counting. An empty list does not
+// guarantee a solution; build time also checks that candidates remain.
+export const explainConstraints = (c: NumberConstraints, game: GameId = DEFAULT_GAME): string[] => {
+  const reasons: string[] = [];
+
+  c.includeDigits
+    .filter(d => c.excludeDigits.includes(d))
+    .forEach(d => reasons.push(`เลข ${d} ถูกตั้งทั้ง "ต้องมี" และ "ไม่เอา"`));
+
+  c.pinned.forEach((pin, place) => {
+    if (pin !== null && c.excludeDigits.includes(pin)) {
+      reasons.push(`ปักหลัก${PLACE_LABELS[place]}เป็น ${pin} แต่ ${pin} อยู่ในเลขที่ไม่เอา`);
+    }
+  });
+
+  if (c.sumMin !== null && c.sumMax !== null && c.sumMin > c.sumMax) {
+    reasons.push(`ผลรวมต่ำสุด ${c.sumMin} มากกว่าผลรวมสูงสุด ${c.sumMax}`);
+  }
+
+  for (const { length, label } of numberLengths(game).filter(({ length }) => c.appliesTo.includes(length))) {
+    const allowed = allowedDigits(length, c);
+    if (allowed.some(a => a.length === 0)) continue;  // Already explained above
+
+    if (c.includeDigits.length > length) {
+      reasons.push(`${label} มี ${length} หลัก ใส่เลขที่ต้องมีได้ไม่เกิน ${length} ตัว (ตั้งไว้ ${c.includeDigits.length} ตัว)`);
+    }
+
+    const available = new Set(allowed.flat()).size;
+    if (c.repeat === 'NO_REPEAT' && available < length) {
+      reasons.push(`${label} แบบไม่ซ้ำต้องใช้เลขต่างกัน ${length} ตัว แต่เหลือให้ใช้ได้ ${available} ตัว`);
+    }
+
+    const minSum = allowed.reduce((total, a) => total + Math.min(...a), 0);
+    const maxSum = allowed.reduce((total, a) => total + Math.max(...a), 0);
+    if ((c.sumMin !== null && c.sumMin > maxSum) || (c.sumMax !== null && c.sumMax < minSum)) {
+      reasons.push(`${label} มีผลรวมได้เพียง ${minSum}-${maxSum} ไม่ถึงช่วงที่ตั้งไว้`);
+    }
+  }
+
+  return reasons;
+};
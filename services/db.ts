@@ -0,0 +1,126 @@
+// Minimal promise wrapper around the browser IndexedDB used for local archives.
+// Bump DB_VERSION and add a branch to `upgrade` whenever a new store is needed.
+
+import { DEFAULT_DREAM_ENTRIES } from "./dreamSymbols";
+import { DEFAULT_GURUS } from "./gurus";
+
+const DB_NAME = 'thai-lotto-ai';
+const DB_VERSION = 9;
+
+export const STORES = {
+  DRAWS: 'drawResults',
+  PREDICTIONS: 'predictions',
+  GURU_PREDICTIONS: 'guruPredictions',
+  DREAM_ENTRIES: 'dreamEntries',
+  NUMEROLOGY_PROFILES: 'numerologyProfiles',
+  TICKETS: 'tickets',
+  POOLS: 'pools',
+  POOL_CONTRIBUTIONS: 'poolContributions',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+// v1-v7 kept THAI draws keyed by isoDate; v8 moved them to STORES.DRAWS keyed by drawKey()
+const LEGACY_DRAWS = 'draws';
+
+const upgrade = (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(LEGACY_DRAWS, { keyPath: 'isoDate' });
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.PREDICTIONS, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.GURU_PREDICTIONS, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.DREAM_ENTRIES, { keyPath: 'id' });
+    // Seeded once; afterwards the dictionary belongs to the user
+    const dreams = tx.objectStore(STORES.DREAM_ENTRIES);
+    DEFAULT_DREAM_ENTRIES.forEach(entry => dreams.put(entry));
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORES.NUMEROLOGY_PROFILES, { keyPath: 'id' });
+  }
+  if (oldVersion < 6) {
+    db.createObjectStore(STORES.TICKETS, { keyPath: 'id' });
+  }
+  if (oldVersion < 7) {
+    db.createObjectStore(STORES.POOLS, { keyPath: 'id' });
+    db.createObjectStore(STORES.POOL_CONTRIBUTIONS, { keyPath: 'id' });
+  }
+  if (oldVersion < 8) {
+    const draws = db.createObjectStore(STORES.DRAWS, { keyPath: 'id' });
+    const legacy = tx.objectStore(LEGACY_DRAWS).getAll();
+    legacy.onsuccess = () => {
+      legacy.result.forEach(draw => draws.put({ ...draw, id: draw.isoDate, game: 'THAI' }));
+      db.deleteObjectStore(LEGACY_DRAWS);
+    };
+  }
+  if (oldVersion < 9) {
+    // Guru predictions were keyed by name before the registry gave every guru an id
+    const guruPredictions = tx.objectStore(STORES.GURU_PREDICTIONS);
+    const records = guruPredictions.getAll();
+    records.onsuccess = () => {
+      records.result.forEach(record => {
+        const guru = DEFAULT_GURUS.find(g => g.name === record.guruKey);
+        if (!guru) return;
+        guruPredictions.delete(record.id);
+        guruPredictions.put({ ...record, id: `${guru.id}${record.id.slice(record.guruKey.length)}`, guruKey: guru.id });
+      });
+    };
+  }
+};
+
+// Record ids. crypto.randomUUID only exists in secure contexts (https or localhost),
+// so the app opened over http on a LAN address gets the same v4 format from getRandomValues.
+export const newId = (): string => {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const wrap = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const store = async (name: StoreName, mode: IDBTransactionMode) => {
+  const db = await openDb();
+  return db.transaction(name, mode).objectStore(name);
+};
+
+export const getAll = async <T>(name: StoreName): Promise<T[]> =>
+  wrap<T[]>((await store(name, 'readonly')).getAll());
+
+export const getOne = async <T>(name: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  wrap<T | undefined>((await store(name, 'readonly')).get(key));
+
+export const put = async <T>(name: StoreName, value: T): Promise<void> => {
+  await wrap((await store(name, 'readwrite')).put(value));
+};
+
+export const remove = async (name: StoreName, key: IDBValidKey): Promise<void> => {
+  await wrap((await store(name, 'readwrite')).delete(key));
+};
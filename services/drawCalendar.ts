@@ -0,0 +1,118 @@
+import { DrawInfo, GameId } from "../types";
+import { DEFAULT_GAME, GAMES } from "./games";
+import { formatThaiDate, toIsoDate } from "./thaiDate";
+
+// Draw calendars for every game. The Thai Government Lottery draws on the 1st
+// and 16th of every month at 16:00 Asia/Bangkok, moved by the override rules
+// below; other games follow the schedule in their definition. All calculations
+// use Bangkok time regardless of the browser's timezone (Thailand has no
+// daylight saving, and Laos and Vietnam share its offset).
+
+const BANGKOK_OFFSET_HOURS = 7;
+const SCHEDULED_DAYS = [1, 16];
+
+// Recurring moves applied every year, keyed by scheduled MM-DD.
+// The value returns the actual ISO date for the given scheduled year.
+const RECURRING_OVERRIDES: Record<string, (year: number) => string> = {
+  '01-01': (year) => toIsoDate(year - 1, 12, 30), // New Year's Day -> 30 December of the previous year
+  '01-16': (year) => toIsoDate(year, 1, 17),      // Teacher's Day -> 17 January
+  '05-01': (year) => toIsoDate(year, 5, 2),       // Labour Day -> 2 May
+};
+
+// One-off changes announced by the Government Lottery Office, keyed by the
+// scheduled ISO date. Use the actual ISO date, or null when the draw is cancelled.
+// These take precedence over the recurring rules.
+export const DRAW_OVERRIDES: Record<string, string | null> = {};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Calendar parts of an instant as seen in Bangkok
+const bangkokParts = (instant: Date) => {
+  const shifted = new Date(instant.getTime() + BANGKOK_OFFSET_HOURS * 3600 * 1000);
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+};
+
+export const bangkokIsoDate = (instant: Date = new Date()): string => {
+  const { year, month, day } = bangkokParts(instant);
+  return toIsoDate(year, month, day);
+};
+
+// The game's draw time in Bangkok on the given ISO date as a real instant
+export const drawInstant = (isoDate: string, game: GameId = DEFAULT_GAME): Date => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const { hour, minute } = GAMES[game].drawTime;
+  return new Date(Date.UTC(year, month - 1, day, hour - BANGKOK_OFFSET_HOURS, minute));
+};
+
+export const toDrawInfo = (isoDate: string, game: GameId = DEFAULT_GAME): DrawInfo => {
+  const at = drawInstant(isoDate, game);
+  return { game, isoDate, at, iso: at.toISOString(), label: formatThaiDate(isoDate) };
+};
+
+const actualDate = (scheduled: string): string | null => {
+  if (scheduled in DRAW_OVERRIDES) return DRAW_OVERRIDES[scheduled];
+  const rule = RECURRING_OVERRIDES[scheduled.slice(5)];
+  return rule ? rule(+scheduled.slice(0, 4)) : scheduled;
+};
+
+// Actual draw dates for every scheduled draw in the given month
+const drawsForMonth = (year: number, month: number, game: GameId): string[] => {
+  const { schedule } = GAMES[game];
+  if (schedule.kind === 'MONTH_DAYS') return schedule.days.map(day => `${year}-${pad(month)}-${pad(day)}`);
+  if (schedule.kind === 'WEEKDAYS') {
+    const days = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return Array.from({ length: days }, (_, i) => i + 1)
+      .filter(day => schedule.weekdays.includes(new Date(Date.UTC(year, month - 1, day)).getUTCDay()))
+      .map(day => `${year}-${pad(month)}-${pad(day)}`);
+  }
+  return SCHEDULED_DAYS
+    .map(day => actualDate(`${year}-${pad(month)}-${pad(day)}`))
+    .filter((d): d is string => d !== null);
+};
+
+// All draws of a game whose actual date falls within [fromIso, toIso], oldest first
+export const listDrawsBetween = (fromIso: string, toIso: string, game: GameId = DEFAULT_GAME): DrawInfo[] => {
+  const [fromYear, fromMonth] = fromIso.split('-').map(Number);
+  const [toYear, toMonth] = toIso.split('-').map(Number);
+  const dates = new Set<string>();
+
+  // Scan one month either side because overrides can cross month/year boundaries
+  let year = fromYear;
+  let month = fromMonth - 1;
+  if (month === 0) { month = 12; year--; }
+  const endKey = (toMonth === 12 ? toYear + 1 : toYear) * 100 + (toMonth === 12 ? 1 : toMonth + 1);
+
+  while (year * 100 + month <= endKey) {
+    drawsForMonth(year, month, game).forEach(d => dates.add(d));
+    month++;
+    if (month > 12) { month = 1; year++; }
+  }
+
+  return [...dates]
+    .filter(d => d >= fromIso && d <= toIso)
+    .sort()
+    .map(isoDate => toDrawInfo(isoDate, game));
+};
+
+const shiftMonths = (isoDate: string, months: number): string => {
+  const [year, month] = isoDate.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1 + months, 1));
+  return toIsoDate(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, 1);
+};
+
+// The draw that has not started yet: before the draw time on a draw day this is today's draw.
+export const getNextDraw = (now: Date = new Date(), game: GameId = DEFAULT_GAME): DrawInfo => {
+  const today = bangkokIsoDate(now);
+  const candidates = listDrawsBetween(today, shiftMonths(today, 3), game);
+  return candidates.find(d => d.at.getTime() > now.getTime())!;
+};
+
+// The most recent draw that has already started
+export const getPreviousDraw = (now: Date = new Date(), game: GameId = DEFAULT_GAME): DrawInfo => {
+  const today = bangkokIsoDate(now);
+  const candidates = listDrawsBetween(shiftMonths(today, -3), today, game);
+  return [...candidates].reverse().find(d => d.at.getTime() <= now.getTime())!;
+};
+
+export const isDrawDate = (isoDate: string, game: GameId = DEFAULT_GAME): boolean =>
+  listDrawsBetween(isoDate, isoDate, game).length > 0;
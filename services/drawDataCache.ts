@@ -0,0 +1,55 @@
+import { GameId, GuruStat, PastDraw } from "../types";
+import { createCachedResource, KeyValueStorage } from "./cache";
+import { getNextDraw, getPreviousDraw } from "./drawCalendar";
+import { DEFAULT_GAME, GAMES } from "./games";
+import { parseThaiDate } from "./thaiDate";
+
+// Cache policies for the two lookups every page load needs. Results only change
+// once per draw, so entries are keyed by draw period from the game's draw calendar.
+// THAI keeps the original storage keys so existing caches stay valid.
+
+const cacheKey = (name: string, game: GameId) => (game === DEFAULT_GAME ? `cache:${name}` : `cache:${name}:${game}`);
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// The latest results belong to the most recent draw. Until that draw's results
+// are published the cached entry is an older draw, so it is rechecked often.
+export const latestDrawTtl = (draw: PastDraw, period: string, game: GameId = DEFAULT_GAME): number => {
+  if (parseThaiDate(draw.date) !== period) return 10 * MINUTE;
+  if (GAMES[game].fullTable && draw.prize2.length === 0) return HOUR;  // Headline results only, full table may follow
+  return 24 * HOUR;
+};
+
+export const GURU_STATS_TTL = 3 * HOUR;
+
+export const createLatestDrawResource = (
+  storage: KeyValueStorage,
+  fetcher: (force: boolean) => Promise<PastDraw>,
+  game: GameId = DEFAULT_GAME
+) =>
+  createCachedResource<PastDraw>({
+    key: cacheKey('latestDraw', game),
+    storage,
+    period: () => getPreviousDraw(new Date(), game).isoDate,
+    ttlMs: (draw, period) => latestDrawTtl(draw, period, game),
+    fetcher,
+    isUsable: (draw) => !draw.degraded,
+    // Last period's results are still worth showing while the new ones load
+    showAcrossPeriods: true,
+  });
+
+export const createGuruStatsResource = (
+  storage: KeyValueStorage,
+  fetcher: (force: boolean) => Promise<GuruStat[]>,
+  game: GameId = DEFAULT_GAME
+) =>
+  createCachedResource<GuruStat[]>({
+    // Entries from before the guru registry carry model-made ids, so they are left behind
+    key: cacheKey('registryGuruStats', game),
+    storage,
+    period: () => getNextDraw(new Date(), game).isoDate,
+    ttlMs: () => GURU_STATS_TTL,
+    fetcher,
+    isUsable: (gurus) => gurus.length > 0 && !gurus.every(g => g.degraded),
+  });
@@ -0,0 +1,175 @@
+import { GameId, PastDraw, StoredDraw, ImportSummary } from "../types";
+import { STORES, getAll, getOne, put, remove } from "./db";
+import { DEFAULT_GAME, GAMES, drawKey, isGameId } from "./games";
+import { parseThaiDate, formatThaiDate } from "./thaiDate";
+import { validatePastDraw } from "./validation";
+
+const LIST_FIELDS = ['front3', 'rear3', 'adjacent1', 'prize2', 'prize3', 'prize4', 'prize5'] as const;
+
+// Multi-number cells may be written as JSON arrays or separated by spaces, "|" or ";".
+const toList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(v => String(v).trim());
+  if (value === undefined || value === null || value === '') return [];
+  return String(value).split(/[\s|;]+/).filter(Boolean);
+};
+
+const toDigits = (value: unknown): string => (value === undefined || value === null ? '' : String(value).trim());
+
+// Coerce a loosely shaped record (JSON object or CSV row) into a StoredDraw.
+// The record's own `game` wins over `fallbackGame`. Returns the validation
+// errors instead when the record cannot be trusted.
+export const normalizeDraw = (
+  raw: Record<string, unknown>,
+  origin: StoredDraw['origin'],
+  fallbackGame: GameId = DEFAULT_GAME
+): { draw?: StoredDraw; errors: string[] } => {
+  const isoDate = parseThaiDate(toDigits(raw.date));
+  if (!isoDate) return { errors: [`date: อ่านวันที่ "${raw.date}" ไม่ได้`] };
+  if (raw.game && !isGameId(raw.game)) return { errors: [`game: ไม่รู้จักประเภทหวย "${raw.game}"`] };
+  const game = isGameId(raw.game) ? raw.game : fallbackGame;
+
+  const draw: PastDraw = {
+    date: formatThaiDate(isoDate),
+    prize1: toDigits(raw.prize1),
+    rear2: toDigits(raw.rear2),
+    front3: [],
+    rear3: [],
+    adjacent1: [],
+    prize2: [],
+    prize3: [],
+    prize4: [],
+    prize5: [],
+    sourceUrl: raw.sourceUrl ? String(raw.sourceUrl) : undefined,
+  };
+  LIST_FIELDS.forEach(field => { draw[field] = toList(raw[field]); });
+  // 3 ตัวบน is part of prize1, so files for those games may leave it out
+  if (GAMES[game].rear3.fromPrize1 && draw.rear3.length === 0) draw.rear3 = [draw.prize1.slice(-3)];
+
+  const errors = validatePastDraw(draw, game);
+  if (errors.length > 0) return { errors };
+
+  return { draw: { ...draw, id: drawKey(game, isoDate), game, isoDate, origin, savedAt: Date.now() }, errors: [] };
+};
+
+// Split one CSV line, honouring double-quoted cells.
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (ch === ',' && !quoted) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current);
+  return cells.map(c => c.trim());
+};
+
+// CSV files need a header row naming the PastDraw fields, e.g.
+// date,prize1,front3,rear3,rear2,adjacent1,prize2,prize3,prize4,prize5
+// An optional `game` column (THAI, LAO, HANOI, ...) overrides the game picked for the import.
+const parseCsv = (text: string): Record<string, unknown>[] => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim());
+  if (lines.length === 0) return [];
+  const header = splitCsvLine(lines[0]);
+  return lines.slice(1).map(line => {
+    const cells = splitCsvLine(line);
+    return Object.fromEntries(header.map((key, i) => [key, cells[i]]));
+  });
+};
+
+const isRow = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Elements are not checked here; rows that are not objects are reported by parseDrawFile
+const parseJson = (text: string): unknown[] => {
+  const data = JSON.parse(text);
+  return Array.isArray(data) ? data : [data];
+};
+
+export const parseDrawFile = (
+  fileName: string,
+  text: string,
+  game: GameId = DEFAULT_GAME
+): { draws: StoredDraw[]; errors: string[] } => {
+  let rows: unknown[];
+  try {
+    rows = fileName.toLowerCase().endsWith('.json') ? parseJson(text) : parseCsv(text);
+  } catch (error) {
+    return { draws: [], errors: [`${fileName}: อ่านไฟล์ไม่สำเร็จ (${(error as Error).message})`] };
+  }
+
+  const draws: StoredDraw[] = [];
+  const errors: string[] = [];
+  rows.forEach((row, i) => {
+    if (!isRow(row)) {
+      errors.push(`${fileName} แถว ${i + 1}: ไม่ใช่ข้อมูลผลรางวัล`);
+      return;
+    }
+    const result = normalizeDraw(row, 'IMPORT', game);
+    if (result.draw) {
+      draws.push(result.draw);
+    } else {
+      errors.push(`${fileName} แถว ${i + 1}: ${result.errors.join('; ')}`);
+    }
+  });
+  return { draws, errors };
+};
+
+const hasFullTable = (draw: PastDraw) => draw.prize2.length > 0;
+
+// Draws are deduped by game and isoDate. An existing record is only replaced when the
+// incoming one carries the full prize table and the stored one does not.
+export const saveDraws = async (draws: StoredDraw[]): Promise<ImportSummary> => {
+  const summary: ImportSummary = { added: 0, updated: 0, skipped: 0, errors: [] };
+
+  for (const draw of draws) {
+    const existing = await getOne<StoredDraw>(STORES.DRAWS, draw.id);
+    if (!existing) {
+      await put(STORES.DRAWS, draw);
+      summary.added++;
+    } else if (!hasFullTable(existing) && hasFullTable(draw)) {
+      await put(STORES.DRAWS, draw);
+      summary.updated++;
+    } else {
+      summary.skipped++;
+    }
+  }
+  return summary;
+};
+
+export const importDrawFile = async (file: File, game: GameId = DEFAULT_GAME): Promise<ImportSummary> => {
+  const { draws, errors } = parseDrawFile(file.name, await file.text(), game);
+  const summary = await saveDraws(draws);
+  return { ...summary, errors: [...errors, ...summary.errors] };
+};
+
+// Store the result of getLatestDrawResults(). Failed lookups are ignored.
+export const archiveFetchedDraw = async (draw: PastDraw, game: GameId = DEFAULT_GAME): Promise<boolean> => {
+  const result = normalizeDraw({ ...draw }, 'FETCH', game);
+  if (!result.draw) return false;
+  const summary = await saveDraws([result.draw]);
+  return summary.added + summary.updated > 0;
+};
+
+// Newest first; every game when `game` is omitted
+export const listDraws = async (game?: GameId): Promise<StoredDraw[]> => {
+  const draws = await getAll<StoredDraw>(STORES.DRAWS);
+  return draws
+    .filter(d => !game || d.game === game)
+    .sort((a, b) => b.isoDate.localeCompare(a.isoDate));
+};
+
+export const deleteDraw = (id: string): Promise<void> => remove(STORES.DRAWS, id);
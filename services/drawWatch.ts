@@ -0,0 +1,67 @@
+import { DrawInfo, GameId, PastDraw } from "../types";
+import { getNextDraw, getPreviousDraw } from "./drawCalendar";
+import { DEFAULT_GAME, GAMES } from "./games";
+import { parseThaiDate } from "./thaiDate";
+
+// Timing around the draw: the countdown, when ticket sales close, and when the
+// latest results are worth polling for. Outside the polling window results
+// cannot change, so the cached lookup is left alone.
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+export const POLL_INTERVAL = 5 * MINUTE;
+export const POLL_BEFORE_DRAW = 30 * MINUTE;
+export const POLL_AFTER_DRAW = 4 * HOUR;
+
+// Per game, e.g. THAI digital sales (สลากดิจิทัล) close at 23:00 the night before the draw
+export const salesCloseInstant = (draw: DrawInfo): Date =>
+  new Date(draw.at.getTime() - GAMES[draw.game].salesCloseMinutes * MINUTE);
+
+export const salesReminderInstant = (draw: DrawInfo, leadHours: number): Date =>
+  new Date(salesCloseInstant(draw).getTime() - leadHours * HOUR);
+
+export interface Countdown {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  totalMs: number;
+}
+
+export const countdownTo = (target: Date, now: Date = new Date()): Countdown => {
+  const totalMs = Math.max(0, target.getTime() - now.getTime());
+  const totalSeconds = Math.floor(totalMs / SECOND);
+  return {
+    days: Math.floor(totalSeconds / 86400),
+    hours: Math.floor(totalSeconds / 3600) % 24,
+    minutes: Math.floor(totalSeconds / 60) % 60,
+    seconds: totalSeconds % 60,
+    totalMs,
+  };
+};
+
+// Whether `draw` already has its full results. THAI headline numbers can arrive
+// before the rest of the prize table.
+export const hasCompleteResults = (draw: PastDraw | null, isoDate: string, game: GameId = DEFAULT_GAME): boolean =>
+  !!draw && !draw.degraded && parseThaiDate(draw.date) === isoDate && (!GAMES[game].fullTable || draw.prize2.length > 0);
+
+// Shortly before the next draw through a few hours after the previous one
+export const isPollingWindow = (now: Date = new Date(), game: GameId = DEFAULT_GAME): boolean => {
+  const t = now.getTime();
+  const previous = getPreviousDraw(now, game).at.getTime();
+  const next = getNextDraw(now, game).at.getTime();
+  return t < previous + POLL_AFTER_DRAW || t >= next - POLL_BEFORE_DRAW;
+};
+
+// Milliseconds until the next poll. Inside the window that is the poll interval,
+// unless the latest draw's results are already complete; otherwise it is the
+// start of the next window.
+export const nextPollDelay = (latest: PastDraw | null, game: GameId = DEFAULT_GAME, now: Date = new Date()): number => {
+  const inWindow = isPollingWindow(now, game);
+  const done = hasCompleteResults(latest, getPreviousDraw(now, game).isoDate, game);
+  if (inWindow && !done) return POLL_INTERVAL;
+  const windowStart = getNextDraw(now, game).at.getTime() - POLL_BEFORE_DRAW;
+  return Math.max(POLL_INTERVAL, windowStart - now.getTime());
+};
@@ -0,0 +1,42 @@
+import { DreamEntry } from "../types";
+import { STORES, getAll, newId, put, remove } from "./db";
+import { DEFAULT_DREAM_ENTRIES } from "./dreamSymbols";
+import { isDigits } from "./validation";
+
+// The user's copy of the dream dictionary, kept in IndexedDB.
+
+export const listDreamEntries = async (): Promise<DreamEntry[]> => {
+  const entries = await getAll<DreamEntry>(STORES.DREAM_ENTRIES);
+  return entries.sort((a, b) => a.symbol.localeCompare(b.symbol, 'th'));
+};
+
+export const validateDreamEntry = (entry: Partial<DreamEntry>): string[] => {
+  const errors: string[] = [];
+  if (!entry.symbol?.trim()) errors.push('กรุณาระบุสัญลักษณ์ในฝัน');
+  if (!entry.keywords?.some(k => k.trim())) errors.push('กรุณาระบุคำค้นอย่างน้อย 1 คำ');
+  if (!entry.numbers?.length) errors.push('กรุณาระบุเลขอย่างน้อย 1 ตัว');
+  entry.numbers?.forEach(n => {
+    if (!isDigits(n, 2) && !isDigits(n, 3)) errors.push(`"${n}" ไม่ใช่เลข 2 หรือ 3 หลัก`);
+  });
+  return errors;
+};
+
+export const saveDreamEntry = async (entry: Omit<DreamEntry, 'id'> & { id?: string }): Promise<DreamEntry> => {
+  const record: DreamEntry = {
+    ...entry,
+    id: entry.id || newId(),
+    keywords: entry.keywords.map(k => k.trim()).filter(Boolean),
+    custom: true,
+  };
+  await put(STORES.DREAM_ENTRIES, record);
+  return record;
+};
+
+export const deleteDreamEntry = (id: string): Promise<void> => remove(STORES.DREAM_ENTRIES, id);
+
+// Put the bundled entries back, overwriting edits to them. Entries the user added are kept.
+export const restoreDefaultDreamEntries = async (): Promise<void> => {
+  for (const entry of DEFAULT_DREAM_ENTRIES) {
+    await put(STORES.DREAM_ENTRIES, entry);
+  }
+};
@@ -0,0 +1,91 @@
+import { DreamEntry, DreamMatch, LotterySet } from "../types";
+
+// Offline dream interpretation: keyword matching against the dream dictionary
+// and a deterministic LotterySet built only from the matched entries' numbers.
+
+export class NoDreamMatchError extends Error {
+  constructor() {
+    super("ไม่พบสัญลักษณ์ในความฝันที่ตรงกับตำราเลขฝัน ลองเล่ารายละเอียดเพิ่ม หรือเพิ่มสัญลักษณ์ในพจนานุกรมความฝัน");
+    this.name = 'NoDreamMatchError';
+  }
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Position of the keyword in the dream, or -1. Thai is written without spaces so
+// Thai keywords match anywhere; latin keywords must be whole words, plurals allowed.
+const findKeyword = (dream: string, keyword: string): number => {
+  const needle = keyword.trim().toLowerCase();
+  if (!needle) return -1;
+  if (/^[a-z\s'-]+$/.test(needle)) {
+    return dream.search(new RegExp(`\\b${escapeRegExp(needle)}(s|es)?\\b`));
+  }
+  return dream.indexOf(needle);
+};
+
+// Matched entries in the order they appear in the dream
+export const matchDream = (dream: string, entries: DreamEntry[]): DreamMatch[] => {
+  const text = dream.toLowerCase();
+  const found: (DreamMatch & { position: number })[] = [];
+
+  for (const entry of entries) {
+    let best: { keyword: string; position: number } | null = null;
+    for (const keyword of entry.keywords) {
+      const position = findKeyword(text, keyword);
+      if (position >= 0 && (!best || position < best.position)) best = { keyword, position };
+    }
+    if (best) found.push({ entry, ...best });
+  }
+
+  return found
+    .sort((a, b) => a.position - b.position)
+    .map(({ entry, keyword }) => ({ entry, keyword }));
+};
+
+// Reads `length` digits from the repeating digit stream, starting at `offset`
+const cycle = (digits: string, length: number, offset: number): string =>
+  Array.from({ length }, (_, i) => digits[(offset + i) % digits.length]).join('');
+
+export const buildDreamSet = (
+  matches: DreamMatch[],
+  drawDate: string,
+  interpretation?: string
+): Pick<LotterySet, 'prize1' | 'front3' | 'rear3' | 'rear2' | 'reasoning' | 'sources' | 'drawDate' | 'source'> => {
+  if (matches.length === 0) throw new NoDreamMatchError();
+
+  const numbers = [...new Set(matches.flatMap(m => m.entry.numbers))];
+  const digits = numbers.join('');
+
+  const rear2 = numbers.find(n => n.length === 2) ?? cycle(digits, 2, digits.length - 2);
+
+  // Dictionary 3-digit numbers first, then 3-digit runs of the digit stream.
+  // A very short stream may give fewer than four distinct numbers; they are then repeated.
+  const runs = Array.from({ length: digits.length }, (_, i) => cycle(digits, 3, i * 3));
+  const candidates = [...new Set([...numbers.filter(n => n.length === 3), ...runs])];
+  const threes = Array.from({ length: 4 }, (_, i) => candidates[i % candidates.length]);
+
+  const prize1 = cycle(digits, 6, 0);
+
+  const sources = matches.map(m =>
+    `${m.entry.symbol} (${m.keyword === 'AI' ? 'AI ตีความ' : `คำว่า "${m.keyword}"`}): ${m.entry.numbers.join(', ')}`
+  );
+
+  const reasoning = [
+    `ความฝันนี้ตรงกับตำราเลขฝัน ${matches.length} สัญลักษณ์: ${matches.map(m => `${m.entry.symbol} (${m.entry.meaning})`).join(', ')}`,
+    `เลขท้าย 2 ตัว ${rear2} มาจากเลขตามตำราของสัญลักษณ์ที่พบ`,
+    `เลข 3 ตัวใช้เลขตามตำรา หากไม่พอจึงนำเลขของทุกสัญลักษณ์มาเรียงต่อกันแล้วตัดทีละ 3 หลัก`,
+    `รางวัลที่ 1 ${prize1} คือ 6 หลักแรกของเลขที่เรียงต่อกัน`,
+    interpretation,
+  ].filter(Boolean).join(' ');
+
+  return {
+    prize1,
+    front3: threes.slice(0, 2),
+    rear3: threes.slice(2, 4),
+    rear2,
+    reasoning,
+    sources,
+    drawDate,
+    source: 'DREAM',
+  };
+};
@@ -0,0 +1,38 @@
+import { DreamEntry } from "../types";
+
+// Bundled starting point for the dream dictionary, following common Thai
+// dream-number books (ตำราเลขฝัน). Copied into IndexedDB on first use, after
+// which users can edit, add or delete entries; see dreamDictionary.ts.
+
+export const DEFAULT_DREAM_ENTRIES: DreamEntry[] = [
+  { id: 'snake', symbol: 'งู', keywords: ['งู', 'snake', 'serpent'], numbers: ['56', '65', '356'], meaning: 'เนื้อคู่หรือคนรักกำลังจะเข้ามา' },
+  { id: 'naga', symbol: 'พญานาค', keywords: ['พญานาค', 'นาค', 'naga'], numbers: ['59', '95', '589'], meaning: 'บารมีคุ้มครอง โชคลาภก้อนใหญ่' },
+  { id: 'elephant', symbol: 'ช้าง', keywords: ['ช้าง', 'elephant'], numbers: ['91', '19', '919'], meaning: 'ผู้ใหญ่ให้การสนับสนุน' },
+  { id: 'tiger', symbol: 'เสือ', keywords: ['เสือ', 'tiger'], numbers: ['13', '31', '313'], meaning: 'มีอำนาจ แต่ต้องระวังศัตรู' },
+  { id: 'horse', symbol: 'ม้า', keywords: ['ม้า', 'horse'], numbers: ['15', '51', '515'], meaning: 'การเดินทางและความก้าวหน้า' },
+  { id: 'crocodile', symbol: 'จระเข้', keywords: ['จระเข้', 'crocodile', 'alligator'], numbers: ['28', '82', '828'], meaning: 'ระวังคนใกล้ตัวคิดร้าย' },
+  { id: 'turtle', symbol: 'เต่า', keywords: ['เต่า', 'turtle', 'tortoise'], numbers: ['79', '97', '279'], meaning: 'อายุยืน ชีวิตมั่นคง' },
+  { id: 'fish', symbol: 'ปลา', keywords: ['ปลา', 'fish'], numbers: ['82', '28', '682'], meaning: 'โชคลาภจากการค้าขาย' },
+  { id: 'dog', symbol: 'สุนัข', keywords: ['สุนัข', 'หมา', 'dog', 'puppy'], numbers: ['34', '43', '434'], meaning: 'มีเพื่อนคอยช่วยเหลือ' },
+  { id: 'cat', symbol: 'แมว', keywords: ['แมว', 'cat', 'kitten'], numbers: ['47', '74', '247'], meaning: 'มีคนแอบชอบ' },
+  { id: 'chicken', symbol: 'ไก่', keywords: ['ไก่', 'chicken', 'rooster', 'hen'], numbers: ['38', '83', '389'], meaning: 'ข่าวดีมาถึงในไม่ช้า' },
+  { id: 'bird', symbol: 'นก', keywords: ['นก', 'bird'], numbers: ['26', '62', '226'], meaning: 'ได้ข่าวจากคนไกล' },
+  { id: 'centipede', symbol: 'ตะขาบ', keywords: ['ตะขาบ', 'centipede'], numbers: ['45', '54', '456'], meaning: 'ระวังคำพูดคนรอบข้าง' },
+  { id: 'dead-relative', symbol: 'ญาติที่เสียชีวิต', keywords: ['ญาติที่ตาย', 'ญาติที่เสียชีวิต', 'ที่เสียชีวิต', 'ตายไปแล้ว', 'คนตาย', 'ผู้ตาย', 'dead relative', 'deceased', 'dead grandmother', 'dead grandfather'], numbers: ['04', '40', '407'], meaning: 'บรรพบุรุษมาบอกโชค' },
+  { id: 'ghost', symbol: 'ผี', keywords: ['ผี', 'วิญญาณ', 'ghost', 'spirit'], numbers: ['07', '70', '078'], meaning: 'จะได้ลาภลอย' },
+  { id: 'monk', symbol: 'พระสงฆ์', keywords: ['พระสงฆ์', 'หลวงพ่อ', 'หลวงปู่', 'monk'], numbers: ['89', '98', '789'], meaning: 'สิ่งศักดิ์สิทธิ์คุ้มครอง' },
+  { id: 'buddha', symbol: 'พระพุทธรูป', keywords: ['พระพุทธรูป', 'buddha image', 'buddha statue'], numbers: ['69', '96', '699'], meaning: 'ความสงบและสิริมงคล' },
+  { id: 'baby', symbol: 'เด็กทารก', keywords: ['ทารก', 'เด็กแรกเกิด', 'เด็ก', 'baby', 'infant', 'child'], numbers: ['12', '21', '112'], meaning: 'เริ่มต้นสิ่งใหม่' },
+  { id: 'pregnant', symbol: 'ตั้งครรภ์', keywords: ['ตั้งครรภ์', 'ตั้งท้อง', 'pregnant'], numbers: ['23', '32', '234'], meaning: 'ได้ทรัพย์เพิ่มพูน' },
+  { id: 'wedding', symbol: 'งานแต่งงาน', keywords: ['แต่งงาน', 'งานแต่ง', 'wedding', 'marry', 'married'], numbers: ['27', '72', '277'], meaning: 'มีเรื่องยินดีในครอบครัว' },
+  { id: 'water', symbol: 'น้ำ', keywords: ['น้ำท่วม', 'แม่น้ำ', 'น้ำ', 'water', 'river', 'flood'], numbers: ['24', '42', '245'], meaning: 'เงินทองไหลมาเทมา' },
+  { id: 'fire', symbol: 'ไฟ', keywords: ['ไฟไหม้', 'ไฟ', 'fire', 'burning'], numbers: ['17', '71', '179'], meaning: 'เรื่องร้อนใจจะคลี่คลาย' },
+  { id: 'gold', symbol: 'ทองคำ', keywords: ['ทองคำ', 'ทอง', 'gold'], numbers: ['09', '90', '909'], meaning: 'โชคลาภใหญ่' },
+  { id: 'money', symbol: 'เงิน', keywords: ['ธนบัตร', 'แบงก์', 'เงิน', 'money', 'cash', 'banknote'], numbers: ['08', '80', '808'], meaning: 'มีรายได้เข้ามา' },
+  { id: 'tooth', symbol: 'ฟันหลุด', keywords: ['ฟันหลุด', 'ฟันหัก', 'tooth', 'teeth'], numbers: ['06', '60', '601'], meaning: 'ระวังสุขภาพคนในบ้าน' },
+  { id: 'house', symbol: 'บ้าน', keywords: ['บ้าน', 'house', 'home'], numbers: ['66', '16', '616'], meaning: 'ครอบครัวมั่นคง' },
+  { id: 'car', symbol: 'รถยนต์', keywords: ['รถยนต์', 'รถ', 'car', 'vehicle'], numbers: ['35', '53', '335'], meaning: 'มีเรื่องให้ต้องเดินทาง' },
+  { id: 'temple', symbol: 'วัด', keywords: ['วัด', 'temple'], numbers: ['88', '18', '818'], meaning: 'บุญเก่าส่งผล' },
+  { id: 'moon', symbol: 'พระจันทร์', keywords: ['พระจันทร์', 'ดวงจันทร์', 'moon'], numbers: ['02', '20', '202'], meaning: 'ผู้หญิงนำโชคมาให้' },
+  { id: 'sun', symbol: 'พระอาทิตย์', keywords: ['พระอาทิตย์', 'ดวงอาทิตย์', 'sun'], numbers: ['01', '10', '101'], meaning: 'ชื่อเสียงและเกียรติยศ' },
+];
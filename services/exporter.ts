@@ -0,0 +1,76 @@
+// File exports and printable sheets for tables of plain cells.
+
+export type Cell = string | number;
+
+export interface ExportTable {
+  title: string;
+  headers: string[];
+  rows: Cell[][];
+}
+
+// Excel reads digit strings as numbers and drops their leading zeros, so they are written as
+// ="012345". Other text starting like a formula gets a leading apostrophe so it is not run;
+// plain amounts such as -1,250.00 and a lone - placeholder are left alone.
+const spreadsheetText = (cell: Cell): string => {
+  if (typeof cell === 'number') return String(cell);
+  if (/^\d+$/.test(cell)) return `="${cell}"`;
+  if (/^[=+\-@\t\r]/.test(cell) && !/^-([\d,]+(\.\d+)?)?$/.test(cell)) return `'${cell}`;
+  return cell;
+};
+
+const csvCell = (cell: Cell): string => {
+  const text = spreadsheetText(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Leading BOM so Excel opens Thai text as UTF-8
+export const toCsv = ({ headers, rows }: ExportTable): string =>
+  '\uFEFF' + [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadCsv = (fileName: string, table: ExportTable) =>
+  downloadFile(fileName, toCsv(table), 'text/csv;charset=utf-8');
+
+export const downloadJson = (fileName: string, data: unknown) =>
+  downloadFile(fileName, JSON.stringify(data, null, 2), 'application/json');
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
+// Opens a plain black-on-white page in a new window and the print dialog with it.
+// Returns false when a popup blocker stopped the window.
+export const printTable = ({ title, headers, rows }: ExportTable, subtitle = ''): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+
+  const head = headers.map(h => `<th>${escapeHtml(h)}</th>`).join('');
+  const body = rows
+    .map(row => `<tr>${row.map(cell => `<td>${escapeHtml(String(cell))}</td>`).join('')}</tr>`)
+    .join('');
+
+  win.document.write(`<!DOCTYPE html>
+<html lang="th"><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: 'Sarabun', sans-serif; color: #000; margin: 24px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  p { font-size: 12px; margin: 0 0 12px; color: #444; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; }
+  th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; }
+  td { font-family: monospace; font-size: 13px; }
+  tr { page-break-inside: avoid; }
+</style></head>
+<body><h1>${escapeHtml(title)}</h1><p>${escapeHtml(subtitle)}</p>
+<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table></body></html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+};
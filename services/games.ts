@@ -0,0 +1,193 @@
+import { GameDefinition, GameId, LotterySet, PrizeRule } from "../types";
+
+// Game definitions. Every game reuses the LotterySet/PastDraw slots: prize1,
+// front3, rear3 and rear2. A definition says which slots exist, their lengths
+// and labels, how prizes are matched and when draws happen.
+//
+// Betting games (Lao, Hanoi, GSB numbers) are played as 2-4 digit bets with a
+// dealer. Their amounts are common payouts per baht staked; dealers differ, so
+// winnings for those games are estimates.
+
+const DAILY = [0, 1, 2, 3, 4, 5, 6];
+
+const THAI_PRIZES: PrizeRule[] = [
+  { type: 'PRIZE1', label: 'รางวัลที่ 1', amount: 6000000, field: 'prize1', digits: 6, from: 'END' },
+  { type: 'ADJACENT1', label: 'ข้างเคียงรางวัลที่ 1', amount: 100000, field: 'adjacent1', digits: 6, from: 'END' },
+  { type: 'PRIZE2', label: 'รางวัลที่ 2', amount: 200000, field: 'prize2', digits: 6, from: 'END' },
+  { type: 'PRIZE3', label: 'รางวัลที่ 3', amount: 80000, field: 'prize3', digits: 6, from: 'END' },
+  { type: 'PRIZE4', label: 'รางวัลที่ 4', amount: 40000, field: 'prize4', digits: 6, from: 'END' },
+  { type: 'PRIZE5', label: 'รางวัลที่ 5', amount: 20000, field: 'prize5', digits: 6, from: 'END' },
+  { type: 'FRONT3', label: 'เลขหน้า 3 ตัว', amount: 4000, field: 'front3', digits: 3, from: 'START' },
+  { type: 'REAR3', label: 'เลขท้าย 3 ตัว', amount: 4000, field: 'rear3', digits: 3, from: 'END' },
+  { type: 'REAR2', label: 'เลขท้าย 2 ตัว', amount: 2000, field: 'rear2', digits: 2, from: 'END' },
+];
+
+const DIGIT4: PrizeRule = { type: 'DIGIT4', label: '4 ตัวตรง', amount: 3000, field: 'prize1', digits: 4, from: 'END' };
+const TOP3: PrizeRule = { type: 'TOP3', label: '3 ตัวบน', amount: 500, field: 'prize1', digits: 3, from: 'END' };
+const TOP2: PrizeRule = { type: 'TOP2', label: '2 ตัวบน', amount: 90, field: 'prize1', digits: 2, from: 'END' };
+const BOTTOM2: PrizeRule = { type: 'BOTTOM2', label: '2 ตัวล่าง', amount: 90, field: 'rear2', digits: 2, from: 'END' };
+
+// The three Hanoi games share one format and differ only in name and time
+const hanoi = (id: GameId, name: string, shortName: string, hour: number, promptName: string, officialSource: string): GameDefinition => ({
+  id,
+  name,
+  shortName,
+  schedule: { kind: 'WEEKDAYS', weekdays: DAILY },
+  drawTime: { hour, minute: 30 },
+  salesCloseMinutes: 15,
+  salesCloseLabel: 'ปิดรับแทง',
+  prize1: { label: 'รางวัลพิเศษ', digits: 5 },
+  front3: null,
+  rear3: { label: '3 ตัวบน', count: 1, fromPrize1: true },
+  rear2: { label: '2 ตัวล่าง' },
+  fullTable: false,
+  betting: true,
+  ticketLengths: [2, 3],
+  prizes: [TOP3, TOP2, BOTTOM2],
+  officialSource,
+  prompt: {
+    name: promptName,
+    results: "the 5-digit special prize (giải đặc biệt) as prize1 and the last 2 digits of the first prize (giải nhất), known in Thailand as 2 ตัวล่าง, as rear2",
+    layout: "one 5-digit number for the special prize (รางวัลพิเศษ) and one 2-digit number for the lower two digits (2 ตัวล่าง)",
+  },
+});
+
+export const GAMES: Record<GameId, GameDefinition> = {
+  THAI: {
+    id: 'THAI',
+    name: 'สลากกินแบ่งรัฐบาล',
+    shortName: 'รัฐบาล',
+    schedule: { kind: 'THAI_GOVERNMENT' },
+    drawTime: { hour: 16, minute: 0 },
+    salesCloseMinutes: 17 * 60,   // Digital tickets: 23:00 the night before
+    salesCloseLabel: 'ปิดขายสลากดิจิทัล',
+    prize1: { label: 'รางวัลที่ 1', digits: 6 },
+    front3: { label: 'เลขหน้า 3 ตัว', count: 2 },
+    rear3: { label: 'เลขท้าย 3 ตัว', count: 2, fromPrize1: false },
+    rear2: { label: 'เลขท้าย 2 ตัว' },
+    fullTable: true,
+    betting: false,
+    ticketLengths: [6],
+    prizes: THAI_PRIZES,
+    officialSource: 'สำนักงานสลากกินแบ่งรัฐบาล',
+    prompt: {
+      name: 'Thai Government Lottery (สลากกินแบ่งรัฐบาล)',
+      results: "the 1st prize (6 digits), the two 'adjacent to 1st prize' numbers (ข้างเคียงรางวัลที่ 1, 6 digits each), the 5 numbers of the 2nd prize, the 10 numbers of the 3rd prize, the 50 numbers of the 4th prize, the 100 numbers of the 5th prize (all 6 digits each), the two 'front 3 digits' (3 digits each), the two 'rear 3 digits' (3 digits each), and the 'rear 2 digits'",
+      layout: "one 6-digit number for the First Prize, two 3-digit numbers for Front 3, two 3-digit numbers for Rear 3, and one 2-digit number for Rear 2",
+    },
+  },
+  LAO: {
+    id: 'LAO',
+    name: 'หวยลาว',
+    shortName: 'ลาว',
+    schedule: { kind: 'WEEKDAYS', weekdays: [1, 3, 5] },
+    drawTime: { hour: 20, minute: 30 },
+    salesCloseMinutes: 30,
+    salesCloseLabel: 'ปิดรับแทง',
+    prize1: { label: 'เลข 6 ตัว', digits: 6 },
+    front3: null,
+    rear3: { label: '3 ตัวบน', count: 1, fromPrize1: true },
+    rear2: { label: '2 ตัวล่าง' },
+    fullTable: false,
+    betting: true,
+    ticketLengths: [2, 3, 4],
+    prizes: [DIGIT4, TOP3, TOP2, BOTTOM2],
+    officialSource: 'หวยพัฒนาลาว',
+    prompt: {
+      name: 'Lao Development Lottery (หวยลาวพัฒนา)',
+      results: "the 6-digit main number (เลข 6 ตัว) as prize1 and the number published as 2 ตัวล่าง as rear2",
+      layout: "one 6-digit number for the main result (เลข 6 ตัว) and one 2-digit number for the lower two digits (2 ตัวล่าง)",
+    },
+  },
+  HANOI_SPECIAL: hanoi('HANOI_SPECIAL', 'หวยฮานอยพิเศษ', 'ฮานอยพิเศษ', 17, 'Hanoi special lottery (ฮานอยพิเศษ)', 'ผู้ออกผลฮานอยพิเศษ'),
+  HANOI: hanoi('HANOI', 'หวยฮานอย', 'ฮานอย', 18, 'Vietnam northern lottery, Hanoi (XSMB, หวยฮานอยปกติ)', 'สลากเวียดนามภาคเหนือ (XSMB)'),
+  HANOI_VIP: hanoi('HANOI_VIP', 'หวยฮานอย VIP', 'ฮานอย VIP', 19, 'Hanoi VIP lottery (ฮานอย VIP)', 'ผู้ออกผลฮานอย VIP'),
+  GSB: {
+    id: 'GSB',
+    name: 'สลากออมสิน',
+    shortName: 'ออมสิน',
+    schedule: { kind: 'MONTH_DAYS', days: [16] },
+    drawTime: { hour: 11, minute: 0 },
+    salesCloseMinutes: 60,
+    salesCloseLabel: 'ปิดรับแทง',
+    prize1: { label: 'รางวัลที่ 1', digits: 7 },
+    front3: null,
+    rear3: { label: '3 ตัวบน', count: 1, fromPrize1: true },
+    rear2: { label: '2 ตัวล่าง' },
+    fullTable: false,
+    betting: true,
+    ticketLengths: [2, 3],
+    prizes: [TOP3, TOP2, BOTTOM2],
+    officialSource: 'ธนาคารออมสิน',
+    prompt: {
+      name: 'Government Savings Bank lottery (สลากออมสิน)',
+      results: "the 7-digit first prize (รางวัลที่ 1) as prize1 and the number published as 2 ตัวล่าง as rear2",
+      layout: "one 7-digit number for the first prize (รางวัลที่ 1) and one 2-digit number for the lower two digits (2 ตัวล่าง)",
+    },
+  },
+};
+
+// Display order in the game picker
+export const GAME_IDS: GameId[] = ['THAI', 'LAO', 'HANOI_SPECIAL', 'HANOI', 'HANOI_VIP', 'GSB'];
+
+export const DEFAULT_GAME: GameId = 'THAI';
+
+export const isGameId = (value: unknown): value is GameId =>
+  typeof value === 'string' && GAME_IDS.includes(value as GameId);
+
+export const getGame = (id?: GameId): GameDefinition => GAMES[id || DEFAULT_GAME];
+
+// Records saved before multi-game support have no game and are all THAI
+export const gameOf = (item?: { game?: GameId } | null): GameId => item?.game || DEFAULT_GAME;
+
+// Thai keys stay plain ISO dates, so archives, caches and seeds from before
+// multi-game support keep working unchanged
+export const drawKey = (game: GameId, isoDate: string): string =>
+  game === DEFAULT_GAME ? isoDate : `${game}|${isoDate}`;
+
+type SetNumbers = Pick<LotterySet, 'prize1' | 'front3' | 'rear3' | 'rear2'>;
+
+// Reads `length` digits from the repeating digit stream
+const cycle = (digits: string, length: number): string =>
+  Array.from({ length }, (_, i) => digits[i % digits.length]).join('');
+
+// Adapt numbers built in the THAI layout to another game: prize1 is cut or
+// extended to its length, missing slots are emptied and a 3 ตัวบน slot is
+// taken from prize1. THAI numbers come back unchanged.
+export const fitToGame = <T extends SetNumbers>(numbers: T, game: GameId): T => {
+  const g = GAMES[game];
+  const prize1 = numbers.prize1.length === g.prize1.digits ? numbers.prize1 : cycle(numbers.prize1, g.prize1.digits);
+  return {
+    ...numbers,
+    prize1,
+    front3: g.front3 ? numbers.front3.slice(0, g.front3.count) : [],
+    rear3: g.rear3.fromPrize1 ? [prize1.slice(-3)] : numbers.rear3.slice(0, g.rear3.count),
+  };
+};
+
+// Dashes in every slot, for the display before anything is generated
+export const placeholderNumbers = (game: GameId): SetNumbers => {
+  const g = GAMES[game];
+  return {
+    prize1: '-'.repeat(g.prize1.digits),
+    front3: Array(g.front3?.count || 0).fill('---'),
+    rear3: Array(g.rear3.count).fill('---'),
+    rear2: '--',
+  };
+};
+
+const SELECTED_GAME_KEY = 'game';
+
+// The game the page shows, remembered across reloads
+export const loadSelectedGame = (): GameId => {
+  try {
+    const stored = localStorage.getItem(SELECTED_GAME_KEY);
+    return isGameId(stored) ? stored : DEFAULT_GAME;
+  } catch {
+    return DEFAULT_GAME;
+  }
+};
+
+export const saveSelectedGame = (game: GameId) => {
+  localStorage.setItem(SELECTED_GAME_KEY, game);
+};
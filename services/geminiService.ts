@@ -1,281 +1,523 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { LotterySet, GeneratorMode, PastDraw, GuruStat } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// Helper to determine the next lottery draw date (1st or 16th)
-// Updates automatically after 16:00 on draw days to the next period
-export const getNextDrawDate = (): string => {
-  const today = new Date();
-  const currentDay = today.getDate();
-  const currentMonth = today.getMonth();
-  const currentYear = today.getFullYear();
-  const currentHour = today.getHours();
-
-  let targetDate: Date;
-
-  // Logic:
-  // 1. If today is 1st: Before 16:00 -> Today | After 16:00 -> 16th
-  // 2. If today is 2nd-15th -> 16th
-  // 3. If today is 16th: Before 16:00 -> Today | After 16:00 -> 1st Next Month
-  // 4. If today is 17th-End -> 1st Next Month
-
-  if (currentDay === 1) {
-    if (currentHour >= 16) {
-        targetDate = new Date(currentYear, currentMonth, 16);
-    } else {
-        targetDate = new Date(currentYear, currentMonth, 1);
+import { LotterySet, GeneratorMode, PastDraw, GuruStat, GuruProfile, SchemaNode, GameId, GenerationEvent, StructuredRequest, PromptTemplateRef } from "../types";
+import { getNextDraw } from "./drawCalendar";
+import { DEFAULT_GAME, GAMES } from "./games";
+import { getProvider } from "./providers";
+import { validateLatestDraw, validateLotterySet, validateGuruStat } from "./validation";
+import { withTimeout } from "./timeout";
+import { currentVersion, getTemplate, isCustomTemplate, renderTemplate, templateRef } from "./promptTemplates";
+import { describeGurus, getGurus, matchGuru, placeholderGuru } from "./gurus";
+
+// Model-backed logic. This runs on the API server (see server/index.ts) so the
+// provider credentials never reach the browser; the front end uses lottoApi.ts.
+
+const STRING: SchemaNode = { type: 'string' };
+const STRING_LIST: SchemaNode = { type: 'array', items: STRING };
+
+const PAST_DRAW_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    date: STRING,
+    prize1: STRING,
+    front3: STRING_LIST,
+    rear3: STRING_LIST,
+    rear2: STRING,
+    adjacent1: STRING_LIST,
+    prize2: STRING_LIST,
+    prize3: STRING_LIST,
+    prize4: STRING_LIST,
+    prize5: STRING_LIST,
+  }
+};
+
+// Games without their own 3-digit results only report prize1 and rear2
+const BETTING_DRAW_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    date: STRING,
+    prize1: STRING,
+    rear2: STRING,
+  }
+};
+
+const GURU_STATS_SCHEMA: SchemaNode = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: STRING,
+      alias: STRING,
+      accuracy: { type: 'number' },
+      description: STRING,
+      nextDrawPrediction: {
+        type: 'object',
+        properties: {
+          topPick: STRING,
+          secondary: STRING_LIST
+        }
+      },
+      wins: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            date: STRING,
+            prize: STRING,
+            number: STRING,
+          }
+        }
+      }
     }
-  } else if (currentDay > 1 && currentDay < 16) {
-    targetDate = new Date(currentYear, currentMonth, 16);
-  } else if (currentDay === 16) {
-    if (currentHour >= 16) {
-        targetDate = new Date(currentYear, currentMonth + 1, 1);
+  }
+};
+
+const lotterySetSchema = (game: GameId): SchemaNode => {
+  const g = GAMES[game];
+  const threes = g.front3 !== null || !g.rear3.fromPrize1;
+  return {
+    type: 'object',
+    properties: {
+      prize1: { type: 'string', description: `A ${g.prize1.digits}-digit number string` },
+      ...(threes && {
+        front3: { ...STRING_LIST, description: "Two 3-digit number strings" },
+        rear3: { ...STRING_LIST, description: "Two 3-digit number strings" },
+      }),
+      rear2: { type: 'string', description: "A 2-digit number string" },
+      reasoning: { type: 'string', description: "Explanation of the numbers" },
+      confidence: { type: 'number', description: "Probability percentage (0-100), especially for GURU/HISTORY modes." },
+      sources: { ...STRING_LIST, description: "List of specific data sources or gurus used for this prediction." }
+    },
+    required: threes ? ["prize1", "front3", "rear3", "rear2", "reasoning"] : ["prize1", "rear2", "reasoning"]
+  };
+};
+
+// Slots a game does not draw are emptied and 3 ตัวบน is taken from prize1,
+// so the model is never trusted for numbers that follow from others
+const deriveSlots = <T extends Partial<Pick<PastDraw, 'prize1' | 'front3' | 'rear3'>>>(data: T, game: GameId): T => {
+  const g = GAMES[game];
+  return {
+    ...data,
+    front3: g.front3 ? data.front3 : [],
+    rear3: g.rear3.fromPrize1 ? [String(data.prize1 || '').slice(-3)] : data.rear3,
+  };
+};
+
+export class ModelOutputError extends Error {
+  constructor(message: string, public errors: string[]) {
+    super(message);
+    this.name = 'ModelOutputError';
+  }
+}
+
+export class ModelTimeoutError extends Error {
+  constructor(public seconds: number) {
+    super(`AI ไม่ตอบภายใน ${seconds} วินาที กรุณาลองใหม่อีกครั้ง`);
+    this.name = 'ModelTimeoutError';
+  }
+}
+
+// For streamed requests: the browser's abort signal and where progress goes
+export interface StreamOptions {
+  signal?: AbortSignal;
+  onEvent?: (event: GenerationEvent) => void;
+}
+
+// What a prompt template's {variables} are filled from, besides the game itself
+export interface PromptContext {
+  gurus?: GuruProfile[];    // Default: the whole registry, or the gurus AI looks up for guruStats
+  recentDraws?: string[];   // Newest first, one line per draw
+  summary?: string;
+  figures?: string[];
+}
+
+export interface RenderedPrompt {
+  prompt: string;
+  systemInstruction: string;
+  ref: PromptTemplateRef;
+}
+
+const templateVariables = (game: GameId, context: PromptContext): Record<string, string> => {
+  const g = GAMES[game];
+  return {
+    drawDate: getNextDraw(new Date(), game).label,
+    gameName: g.prompt.name,
+    gameNameThai: g.name,
+    gurus: describeGurus(context.gurus || getGurus()),
+    recentDraws: context.recentDraws?.length ? context.recentDraws.join('\n') : 'ไม่มีข้อมูล',
+    layout: g.prompt.layout,
+    resultFields: g.prompt.results,
+    summary: context.summary || '',
+    figures: (context.figures || []).join('\n'),
+  };
+};
+
+// Fills in `text` (or the template's current version) as it would be sent for `game`
+export const renderPrompt = (
+  id: string,
+  game: GameId,
+  context: PromptContext = {},
+  text?: { prompt: string; systemInstruction: string }
+): RenderedPrompt => {
+  const template = getTemplate(id);
+  if (!template) throw new Error(`Unknown prompt template "${id}"`);
+  const source = text || currentVersion(template);
+  const gurus = context.gurus || getGurus().filter(g => template.task !== 'guruStats' || g.lookup);
+  const variables = templateVariables(game, { ...context, gurus });
+  return {
+    prompt: renderTemplate(source.prompt, variables),
+    systemInstruction: renderTemplate(source.systemInstruction, variables),
+    ref: templateRef(template),
+  };
+};
+
+// AI_TIMEOUT_MS caps each model task, validation retry included
+const modelTimeoutMs = () => Number(process.env.AI_TIMEOUT_MS) || 120_000;
+
+const withModelTimeout = <T>(run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  const ms = modelTimeoutMs();
+  return withTimeout(ms, () => new ModelTimeoutError(Math.ceil(ms / 1000)), run, signal);
+};
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// The string value of `field` in JSON that may still be incomplete, decoded up
+// to the last complete character. Null until the value has started.
+const partialStringField = (raw: string, field: string): string | null => {
+  const start = raw.match(new RegExp(`"${field}"\\s*:\\s*"`));
+  if (!start) return null;
+  let text = '';
+  let i = start.index! + start[0].length;
+  while (i < raw.length && raw[i] !== '"') {
+    if (raw[i] !== '\\') {
+      text += raw[i++];
+      continue;
+    }
+    const escape = raw[i + 1];
+    if (escape === undefined) break;
+    if (escape === 'u') {
+      const hex = raw.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
     } else {
-        targetDate = new Date(currentYear, currentMonth, 16);
+      text += ESCAPES[escape] ?? escape;
+      i += 2;
     }
-  } else {
-    targetDate = new Date(currentYear, currentMonth + 1, 1);
   }
+  return text;
+};
 
-  return targetDate.toLocaleDateString('th-TH', { day: 'numeric', month: 'long', year: 'numeric' });
+// Streams a JSON answer and passes on its `reasoning` field as it is written
+const collectStructured = async <T>(request: StructuredRequest, onEvent: (event: GenerationEvent) => void): Promise<T> => {
+  let raw = '';
+  let sent = 0;
+  for await (const chunk of getProvider().streamStructured(request)) {
+    raw += chunk;
+    const reasoning = partialStringField(raw, 'reasoning');
+    if (reasoning && reasoning.length > sent) {
+      onEvent({ type: 'reasoning', text: reasoning.slice(sent) });
+      sent = reasoning.length;
+    }
+  }
+  return JSON.parse(raw || 'null');
 };
 
-export const getLatestDrawResults = async (): Promise<PastDraw> => {
+// Calls the model and, if the answer fails validation, asks once more with the
+// problems listed. Returns the last answer together with whatever is still wrong.
+const requestValidated = async <R>(
+  prompt: string,
+  call: (prompt: string) => Promise<R>,
+  validate: (result: R) => string[],
+  describe: (result: R) => unknown
+): Promise<{ result: R; errors: string[] }> => {
+  const first = await call(prompt);
+  const errors = validate(first);
+  if (errors.length === 0) return { result: first, errors };
+
+  console.warn("Model output failed validation, retrying:", errors);
+  const retryPrompt = `${prompt}
+
+Your previous answer was rejected because:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Previous answer: ${JSON.stringify(describe(first))}
+
+Answer again and fix every problem. Use exactly the number of digits and entries requested. Never pad, truncate or invent digits.`;
+
+  const second = await call(retryPrompt);
+  return { result: second, errors: validate(second) };
+};
+
+// Shown when no verified results could be obtained; carries no numbers at all
+const degradedDraw = (game: GameId): PastDraw => ({
+  game,
+  date: "โหลดข้อมูลล้มเหลว",
+  prize1: "",
+  front3: [],
+  rear3: [],
+  rear2: "",
+  adjacent1: [],
+  prize2: [],
+  prize3: [],
+  prize4: [],
+  prize5: [],
+  degraded: true
+});
+
+export const getLatestDrawResults = async (game: GameId = DEFAULT_GAME, context: PromptContext = {}): Promise<PastDraw> => {
+  const g = GAMES[game];
   try {
-    // Prompt updated to find the actual most recent draw results
-    const prompt = "Find the official results for the most recent Thai Government Lottery draw (ผลสลากกินแบ่งรัฐบาล งวดล่าสุด). Return the draw date in Thai (e.g. 16 มีนาคม 2568), the 1st prize (6 digits), the two 'front 3 digits' (3 digits each), the two 'rear 3 digits' (3 digits each), and the 'rear 2 digits'. Return strictly in JSON format.";
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        tools: [{googleSearch: {}}],
-        responseMimeType: "application/json",
-        responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-                date: {type: Type.STRING},
-                prize1: {type: Type.STRING},
-                front3: {type: Type.ARRAY, items: {type: Type.STRING}},
-                rear3: {type: Type.ARRAY, items: {type: Type.STRING}},
-                rear2: {type: Type.STRING},
-            }
-        }
-      }
-    });
+    const { prompt, systemInstruction } = renderPrompt('LATEST_DRAW', game, context);
 
-    const data = JSON.parse(response.text || '{}');
-    
-    // Extract web source from grounding metadata
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    let sourceUrl = undefined;
-    if (groundingChunks) {
-       const webSource = groundingChunks.find((c: any) => c.web?.uri);
-       if (webSource) sourceUrl = webSource.web.uri;
+    // Prize 2-5 and adjacent lists are often omitted when only headline results are out
+    const withLists = (data: Partial<PastDraw> | null): Partial<PastDraw> =>
+      deriveSlots({ adjacent1: [], prize2: [], prize3: [], prize4: [], prize5: [], ...data }, game);
+
+    const { result, errors } = await withModelTimeout(signal => requestValidated(
+      prompt,
+      (p) => getProvider().searchGrounded<Partial<PastDraw> | null>({
+        task: 'latestDraw',
+        prompt: p,
+        systemInstruction: systemInstruction || undefined,
+        schema: g.fullTable ? PAST_DRAW_SCHEMA : BETTING_DRAW_SCHEMA,
+        signal
+      }),
+      ({ data }) => validateLatestDraw(withLists(data), game),
+      ({ data }) => data
+    ));
+
+    if (errors.length > 0) {
+      console.error("Latest results still invalid after retry:", errors);
+      return degradedDraw(game);
     }
 
+    const data = withLists(result.data);
     return {
-        date: data.date || "ไม่พบข้อมูล",
-        prize1: data.prize1 || "??????",
-        front3: data.front3 || ["???", "???"],
-        rear3: data.rear3 || ["???", "???"],
-        rear2: data.rear2 || "??",
-        sourceUrl
+      game,
+      date: data.date!,
+      prize1: data.prize1!,
+      front3: data.front3!,
+      rear3: data.rear3!,
+      rear2: data.rear2!,
+      adjacent1: data.adjacent1!,
+      prize2: data.prize2!,
+      prize3: data.prize3!,
+      prize4: data.prize4!,
+      prize5: data.prize5!,
+      sourceUrl: result.sourceUrls[0]
     };
   } catch (error) {
     console.error("Failed to fetch latest results:", error);
-    // Return empty fallback
-    return {
-        date: "โหลดข้อมูลล้มเหลว",
-        prize1: "??????",
-        front3: ["???", "???"],
-        rear3: ["???", "???"],
-        rear2: "??",
-    };
+    return degradedDraw(game);
   }
 };
 
-export const getGuruStats = async (): Promise<GuruStat[]> => {
+// Shown when the lookup fails; carries no numbers at all
+const degradedGurus = (gurus: GuruProfile[]): GuruStat[] =>
+  gurus.map(guru => placeholderGuru(guru, "โหลดข้อมูลไม่สำเร็จ ยังไม่มีเลขสำหรับงวดนี้"));
+
+const validateGuruList = (gurus: Partial<GuruStat>[] | null): string[] => {
+  if (!Array.isArray(gurus) || gurus.length === 0) return ['ไม่มีรายชื่อสำนัก'];
+  return gurus.flatMap((guru, i) => validateGuruStat(guru || {}).map(e => `[${i}] ${e}`));
+};
+
+// AI lookup for the registry gurus that allow it. Results are matched back to
+// the registry by name, so ids are ours; sources the model adds are dropped.
+export const getGuruStats = async (game: GameId = DEFAULT_GAME, context: PromptContext = {}): Promise<GuruStat[]> => {
+  const gurus = getGurus().filter(g => g.lookup);
+  if (gurus.length === 0) return [];
+
   try {
-    const nextDate = getNextDrawDate();
-    const prompt = `
-      Analyze famous Thai Lottery prediction sources for the upcoming draw on ${nextDate}.
-      Sources: "Mae Nam Nueng" (แม่น้ำหนึ่ง), "Je Fong Beer" (เจ๊ฟองเบียร์), "Je Nook" (เจ๊นุ๊ก บารมีมหาเฮง), and "Thai Lotto AI".
-      
-      For each source, provide:
-      1. Name (in Thai)
-      2. Alias/Style (e.g. "ธูปปู่", "ใบแนวทาง", "AI คำนวณ")
-      3. Estimated accuracy percentage based on recent performance (60-95%)
-      4. A list of 2 recent "wins" or correct predictions (Date, Prize Type like '2 ตัวล่าง', Number). Crucial: Search for actual recent wins from the last 1-3 draws.
-      5. A short description string.
-      6. "nextDrawPrediction": Find or predict their lucky numbers for ${nextDate}. 
-         - "topPick": The single most prominent number (2 or 3 digits).
-         - "secondary": An array of 2-3 other lucky numbers they are giving.
-      
-      Return as a JSON array.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        tools: [{googleSearch: {}}],
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              name: { type: Type.STRING },
-              alias: { type: Type.STRING },
-              accuracy: { type: Type.NUMBER },
-              description: { type: Type.STRING },
-              nextDrawPrediction: {
-                type: Type.OBJECT,
-                properties: {
-                  topPick: { type: Type.STRING },
-                  secondary: { type: Type.ARRAY, items: { type: Type.STRING } }
-                }
-              },
-              wins: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    date: { type: Type.STRING },
-                    prize: { type: Type.STRING },
-                    number: { type: Type.STRING },
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
-    });
+    const { prompt, systemInstruction } = renderPrompt('GURU_STATS', game, { ...context, gurus });
 
-    return JSON.parse(response.text || '[]');
+    const { result } = await withModelTimeout(signal => requestValidated(
+      prompt,
+      (p) => getProvider().searchGrounded<Partial<GuruStat>[] | null>({
+        task: 'guruStats',
+        prompt: p,
+        systemInstruction: systemInstruction || undefined,
+        schema: GURU_STATS_SCHEMA,
+        signal
+      }),
+      ({ data }) => validateGuruList(data),
+      ({ data }) => data
+    ));
+
+    // Keep the sources that came back valid; drop the rest rather than patch them
+    const valid = (result.data || []).filter(guru => guru && validateGuruStat(guru).length === 0);
+    const stats: GuruStat[] = [];
+    valid.forEach(guru => {
+      const profile = matchGuru(gurus, guru.name!);
+      if (!profile || stats.some(s => s.id === profile.id)) return;
+      stats.push({
+        id: profile.id,
+        name: profile.name,
+        alias: profile.alias,
+        accuracy: guru.accuracy!,
+        wins: guru.wins!,
+        description: guru.description || profile.description,
+        nextDrawPrediction: guru.nextDrawPrediction!,
+      });
+    });
+    if (stats.length === 0) {
+      console.error("No valid guru stats after retry");
+      return degradedGurus(gurus);
+    }
+    return stats;
   } catch (error) {
     console.error("Failed to fetch guru stats:", error);
-    // Fallback data if AI fails
-    return [
-      {
-        id: "1",
-        name: "แม่น้ำหนึ่ง",
-        alias: "เจ้าแม่เลขเด็ด",
-        accuracy: 88,
-        description: "เน้นเลขธูปปู่และไลฟ์สดโค้งสุดท้าย",
-        nextDrawPrediction: { topPick: "78", secondary: ["782", "59"] },
-        wins: [
-          { date: "ล่าสุด", prize: "2 ตัวล่าง", number: "34" },
-          { date: "งวดก่อน", prize: "3 ตัวหน้า", number: "123" }
-        ]
-      },
-      {
-        id: "2",
-        name: "Thai Lotto AI",
-        alias: "ระบบคำนวณ",
-        accuracy: 92,
-        description: "ใช้สถิติและ Machine Learning ประมวลผล",
-        nextDrawPrediction: { topPick: "42", secondary: ["428", "16"] },
-        wins: [
-          { date: "ล่าสุด", prize: "รางวัลที่ 1", number: "เฉียด" },
-          { date: "งวดก่อน", prize: "2 ตัวล่าง", number: "92" }
-        ]
-      }
-    ];
+    return degradedGurus(gurus);
   }
 };
 
-export const generateLuckyNumbersAI = async (mode: GeneratorMode): Promise<LotterySet> => {
+// Ask the model to rewrite the computed analysis as readable prose, streamed
+// through `onEvent` when given. The numbers are never taken from the model; on
+// any failure the plain text is kept.
+export const phraseHistoryReasoning = async (
+  reasoning: string,
+  sources: string[],
+  { signal, onEvent, game = DEFAULT_GAME, recentDraws }: StreamOptions & { game?: GameId; recentDraws?: string[] } = {}
+): Promise<string> => {
   try {
-    const nextDrawDate = getNextDrawDate();
-    let prompt = "";
-    let systemInstruction = "";
-
-    switch (mode) {
-      case GeneratorMode.HISTORY:
-        prompt = `Perform a statistical analysis for the upcoming Thai Government Lottery draw on ${nextDrawDate}. Analyze historical data for draws falling on this specific day or month. Identify recurrent patterns and 'hot' numbers. Predict the definite winning numbers for the draw on ${nextDrawDate}: 1x 6-digit (Prize 1), 2x 3-digit (Front 3), 2x 3-digit (Rear 3), 1x 2-digit (Rear 2). Provide a data-driven reasoning. Populate the 'sources' field with the datasets or statistical methods used (e.g., "10-Year History", "Monthly Statistics").`;
-        systemInstruction = "You are a professional data analyst specializing in lottery probability and statistical history.";
-        break;
-      case GeneratorMode.GURU:
-        prompt = `Aggregate predictions for the upcoming Thai Lottery draw on ${nextDrawDate} from famous sources: Mae Nam Nueng (แม่น้ำหนึ่ง), Por Pu Naka (พ่อปูนาคา), Luang Phor Pak Daeng (หลวงพ่อปากแดง), and "Ghost Whispers" (เลขผีบอก). Simulate the consensus of these gurus for the specific date of ${nextDrawDate}. Calculate a confidence percentage based on overlapping numbers. Return the definite set of numbers for this date. Populate the 'sources' field with the specific names of the gurus or entities that most influenced this set of numbers.`;
-        systemInstruction = "You are an expert Thai Lottery aggregator who tracks famous spiritual figures, monks, and supernatural sources.";
-        break;
-      case GeneratorMode.AI:
-      default:
-        prompt = `Generate a definite set of lucky numbers for the Thai Lottery draw on ${nextDrawDate}. I need one 6-digit number for the First Prize, two 3-digit numbers for Front 3, two 3-digit numbers for Rear 3, and one 2-digit number for Rear 2. Focus your mystical energy on the specific date ${nextDrawDate} to produce the most auspicious numbers. Populate the 'sources' field with "Astrology", "Numerology", or "Dream Interpretation".`;
-        systemInstruction = "You are a mystical fortune teller using numerology and astrology.";
-        break;
-    }
+    const { prompt, systemInstruction } = renderPrompt('HISTORY', game, { summary: reasoning, figures: sources, recentDraws });
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            prize1: { type: Type.STRING, description: "A 6-digit number string" },
-            front3: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: "Two 3-digit number strings" 
-            },
-            rear3: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: "Two 3-digit number strings" 
-            },
-            rear2: { type: Type.STRING, description: "A 2-digit number string" },
-            reasoning: { type: Type.STRING, description: "Explanation of the numbers" },
-            confidence: { type: Type.NUMBER, description: "Probability percentage (0-100), especially for GURU/HISTORY modes." },
-            sources: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: "List of specific data sources or gurus used for this prediction."
-            }
-          },
-          required: ["prize1", "front3", "rear3", "rear2", "reasoning"]
-        }
+    const text = await withModelTimeout(async signal => {
+      const request = {
+        task: 'phraseHistory' as const,
+        prompt,
+        systemInstruction: systemInstruction || undefined,
+        signal
+      };
+      if (!onEvent) return getProvider().generateText(request);
+      let streamed = '';
+      for await (const chunk of getProvider().streamText(request)) {
+        streamed += chunk;
+        onEvent({ type: 'reasoning', text: chunk });
       }
-    });
+      return streamed;
+    }, signal);
+
+    return text.trim() || reasoning;
+  } catch (error) {
+    console.error("Failed to phrase history analysis:", error);
+    return reasoning;
+  }
+};
+
+const DREAM_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    symbolIds: { ...STRING_LIST, description: "Ids of dictionary symbols that appear in the dream" },
+    interpretation: { type: 'string', description: "Short interpretation of the dream in Thai" }
+  },
+  required: ["symbolIds", "interpretation"]
+};
+
+export interface DreamInterpretation {
+  symbolIds: string[];
+  interpretation: string;
+}
+
+// Optional enrichment for DREAM mode. The model only picks symbols from the user's
+// dictionary and explains them; the numbers always come from the dictionary itself.
+export const interpretDream = async (
+  dream: string,
+  symbols: { id: string; symbol: string }[],
+  signal?: AbortSignal
+): Promise<DreamInterpretation> => {
+  const ids = new Set(symbols.map(s => s.id));
+  const prompt = `A user described this dream: "${dream}"
 
-    const data = JSON.parse(response.text || '{}');
-    
-    // Validate formatting just in case
-    const prize1 = data.prize1?.padEnd(6, '0').slice(0, 6) || '000000';
-    const rear2 = data.rear2?.padEnd(2, '0').slice(0, 2) || '00';
-    const front3 = (data.front3 || []).map((n: string) => n.padEnd(3, '0').slice(0, 3));
-    const rear3 = (data.rear3 || []).map((n: string) => n.padEnd(3, '0').slice(0, 3));
+Which of the following Thai dream-dictionary symbols appear in the dream, directly or by clear meaning (e.g. a synonym or an English description)? Answer with their ids only, and write a 1-2 sentence interpretation of the dream in Thai. Do not mention or invent any numbers.
 
-    // Ensure we have exactly 2 items for 3-digit arrays if API returns differently
-    while (front3.length < 2) front3.push('000');
-    while (rear3.length < 2) rear3.push('000');
+Symbols:
+${symbols.map(s => `${s.id}: ${s.symbol}`).join('\n')}`;
 
-    let sourceStr = 'AI';
-    if (mode === GeneratorMode.HISTORY) sourceStr = 'HISTORY';
-    if (mode === GeneratorMode.GURU) sourceStr = 'GURU';
+  const { result, errors } = await withModelTimeout(signal => requestValidated(
+    prompt,
+    (p) => getProvider().generateStructured<Partial<DreamInterpretation> | null>({
+      task: 'dreamInterpretation',
+      prompt: p,
+      systemInstruction: "You are an expert in traditional Thai dream interpretation (ทำนายฝัน).",
+      schema: DREAM_SCHEMA,
+      signal
+    }),
+    (data) => [
+      ...(typeof data?.interpretation === 'string' && data.interpretation.trim() ? [] : ['interpretation: ไม่มีคำทำนาย']),
+      ...(Array.isArray(data?.symbolIds) ? data!.symbolIds.filter(id => !ids.has(id)).map(id => `symbolIds: "${id}" ไม่มีในรายการ`) : ['symbolIds: ต้องเป็นรายการ']),
+    ],
+    (data) => data
+  ), signal);
+
+  if (errors.length > 0) {
+    throw new ModelOutputError(`คำทำนายฝันจาก AI ไม่ถูกต้องแม้ลองใหม่แล้ว: ${errors.join('; ')}`, errors);
+  }
+  return { symbolIds: result!.symbolIds!, interpretation: result!.interpretation!.trim() };
+};
+
+// Options of a lucky-number request: CUSTOM mode names its template
+export interface GenerateOptions extends StreamOptions {
+  templateId?: string;
+  recentDraws?: string[];
+}
+
+// AI, GURU and CUSTOM modes. HISTORY needs the browser's local archive and is computed in lottoApi.ts.
+// With `onEvent` the reasoning is streamed while the answer is generated.
+export const generateLuckyNumbersAI = async (
+  mode: GeneratorMode,
+  game: GameId = DEFAULT_GAME,
+  { signal, onEvent, templateId, recentDraws }: GenerateOptions = {}
+): Promise<LotterySet> => {
+  const nextDraw = getNextDraw(new Date(), game);
+  const id = mode === GeneratorMode.CUSTOM ? templateId! : mode === GeneratorMode.GURU ? 'GURU' : 'AI';
+
+  try {
+    const nextDrawDate = nextDraw.label;
+    const { prompt, systemInstruction, ref } = renderPrompt(id, game, { recentDraws });
+
+    let attempts = 0;
+    const { result: data, errors } = await withModelTimeout(signal => requestValidated(
+      prompt,
+      (p) => {
+        const request = {
+          task: 'luckyNumbers' as const,
+          prompt: p,
+          systemInstruction: systemInstruction || undefined,
+          schema: lotterySetSchema(game),
+          signal
+        };
+        if (!onEvent) return getProvider().generateStructured<Partial<LotterySet> | null>(request);
+        if (attempts++ > 0) onEvent({ type: 'restart' });
+        return collectStructured<Partial<LotterySet> | null>(request, onEvent);
+      },
+      (set) => validateLotterySet(deriveSlots(set || {}, game), game),
+      (set) => set
+    ), signal);
+
+    if (errors.length > 0) {
+      throw new ModelOutputError(`คำตอบจาก AI ไม่ถูกต้องแม้ลองใหม่แล้ว: ${errors.join('; ')}`, errors);
+    }
 
+    const numbers = deriveSlots(data!, game);
     return {
-      prize1,
-      front3: front3.slice(0, 2),
-      rear3: rear3.slice(0, 2),
-      rear2,
-      source: sourceStr as any,
-      reasoning: data.reasoning || "Analysis complete.",
-      confidence: data.confidence || undefined,
-      sources: data.sources || [],
+      game,
+      prize1: numbers.prize1!,
+      front3: numbers.front3!,
+      rear3: numbers.rear3!,
+      rear2: numbers.rear2!,
+      source: isCustomTemplate(id) ? 'CUSTOM' : mode === GeneratorMode.GURU ? 'GURU' : 'AI',
+      reasoning: data!.reasoning,
+      promptTemplate: ref,
+      confidence: data!.confidence ?? undefined,
+      sources: data!.sources || [],
       drawDate: nextDrawDate,
+      drawIsoDate: nextDraw.isoDate,
       timestamp: Date.now()
     };
 
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error("AI Generation failed:", error);
+    if (error instanceof ModelOutputError || error instanceof ModelTimeoutError) throw error;
     throw new Error("Failed to consult the oracle.");
   }
 };
\ No newline at end of file
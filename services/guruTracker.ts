@@ -0,0 +1,127 @@
+import { GameId, GuruHit, GuruHitType, GuruMeasuredStats, GuruPredictionRecord, GuruStat, PastDraw, WinRecord } from "../types";
+import { STORES, getAll, put } from "./db";
+import { listDraws } from "./drawStore";
+import { drawInstant } from "./drawCalendar";
+import { DEFAULT_GAME, GAMES, drawKey, gameOf } from "./games";
+import { formatThaiDate } from "./thaiDate";
+
+// Records what each guru published before a draw and measures it against the
+// real result, so accuracy comes from verified history instead of model claims.
+
+export const GURU_HIT_LABELS: Record<GuruHitType, string> = {
+  TOP3: '3 ตัวบน',
+  TOP2: '2 ตัวบน',
+  FRONT3: '3 ตัวหน้า',
+  REAR3: '3 ตัวท้าย',
+  REAR2: '2 ตัวล่าง',
+};
+
+// Registry ids never change, so a renamed guru keeps its history
+export const guruKey = (guru: Pick<GuruStat, 'id'>): string => guru.id;
+
+// Save each guru's prediction for the upcoming draw. Predictions are only
+// accepted before the draw starts so nothing can be recorded after the fact.
+export const recordGuruPredictions = async (gurus: GuruStat[], drawIsoDate: string, game: GameId = DEFAULT_GAME): Promise<void> => {
+  if (Date.now() >= drawInstant(drawIsoDate, game).getTime()) return;
+
+  for (const guru of gurus) {
+    if (guru.degraded || !guru.nextDrawPrediction?.topPick) continue;
+    const key = guruKey(guru);
+    const record: GuruPredictionRecord = {
+      id: `${key}|${drawKey(game, drawIsoDate)}`,
+      game,
+      guruKey: key,
+      guruName: guru.name,
+      drawIsoDate,
+      prediction: {
+        topPick: guru.nextDrawPrediction.topPick,
+        secondary: guru.nextDrawPrediction.secondary || [],
+      },
+      recordedAt: Date.now(),
+    };
+    await put(STORES.GURU_PREDICTIONS, record);
+  }
+};
+
+// Every way a 2- or 3-digit number can match a draw. Where the 3-digit
+// result is just prize1's tail it only counts once, as 3 ตัวบน.
+export const findGuruHits = (numbers: string[], draw: PastDraw): GuruHit[] => {
+  const ownThrees = !GAMES[gameOf(draw)].rear3.fromPrize1;
+  const hits: GuruHit[] = [];
+  new Set(numbers).forEach(number => {
+    if (number.length === 3) {
+      if (number === draw.prize1.slice(-3)) hits.push({ number, type: 'TOP3' });
+      if (draw.front3.includes(number)) hits.push({ number, type: 'FRONT3' });
+      if (ownThrees && draw.rear3.includes(number)) hits.push({ number, type: 'REAR3' });
+    } else if (number.length === 2) {
+      if (number === draw.prize1.slice(-2)) hits.push({ number, type: 'TOP2' });
+      if (number === draw.rear2) hits.push({ number, type: 'REAR2' });
+    }
+  });
+  return hits;
+};
+
+export const listGuruPredictions = (): Promise<GuruPredictionRecord[]> =>
+  getAll<GuruPredictionRecord>(STORES.GURU_PREDICTIONS);
+
+// Verify every recorded prediction whose draw result is now archived.
+// Returns how many records were newly verified.
+export const verifyGuruPredictions = async (): Promise<number> => {
+  const [records, draws] = await Promise.all([listGuruPredictions(), listDraws()]);
+  const drawsByKey = new Map(draws.map(d => [d.id, d]));
+
+  let verified = 0;
+  for (const record of records) {
+    if (record.hits) continue;
+    const draw = drawsByKey.get(drawKey(gameOf(record), record.drawIsoDate));
+    if (!draw) continue;
+    const numbers = [record.prediction.topPick, ...record.prediction.secondary];
+    await put(STORES.GURU_PREDICTIONS, { ...record, hits: findGuruHits(numbers, draw), verifiedAt: Date.now() });
+    verified++;
+  }
+  return verified;
+};
+
+export const measureGuru = (records: GuruPredictionRecord[]): GuruMeasuredStats => {
+  const verified = records
+    .filter(r => r.hits)
+    .sort((a, b) => a.drawIsoDate.localeCompare(b.drawIsoDate));
+
+  const byType: Record<GuruHitType, number> = { TOP3: 0, TOP2: 0, FRONT3: 0, REAR3: 0, REAR2: 0 };
+  const wins: WinRecord[] = [];
+  let hits = 0;
+  let streak = 0;
+  let bestStreak = 0;
+
+  verified.forEach(record => {
+    if (record.hits!.length > 0) {
+      hits++;
+      streak++;
+      bestStreak = Math.max(bestStreak, streak);
+    } else {
+      streak = 0;
+    }
+    record.hits!.forEach(hit => {
+      byType[hit.type]++;
+      wins.unshift({ date: formatThaiDate(record.drawIsoDate), prize: GURU_HIT_LABELS[hit.type], number: hit.number });
+    });
+  });
+
+  return {
+    attempts: verified.length,
+    hits,
+    accuracy: verified.length > 0 ? (hits / verified.length) * 100 : null,
+    byType,
+    currentStreak: streak,
+    bestStreak,
+    wins,
+  };
+};
+
+// Measured stats for every guru tracked for `game`, keyed by guruKey
+export const loadMeasuredStats = async (game: GameId = DEFAULT_GAME): Promise<Record<string, GuruMeasuredStats>> => {
+  const records = (await listGuruPredictions()).filter(r => gameOf(r) === game);
+  const byGuru = new Map<string, GuruPredictionRecord[]>();
+  records.forEach(r => byGuru.set(r.guruKey, [...(byGuru.get(r.guruKey) || []), r]));
+  return Object.fromEntries([...byGuru.entries()].map(([key, list]) => [key, measureGuru(list)]));
+};
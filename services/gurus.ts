@@ -0,0 +1,72 @@
+import { GuruProfile, GuruStat, ManualGuruPrediction } from "../types";
+
+// The guru registry: which sources are tracked, in display order. The API server
+// keeps the edited list (server/guruStore.ts); lookups and prompts read it from here.
+
+export const DEFAULT_GURUS: GuruProfile[] = [
+  { id: 'mae-nam-nueng', name: 'แม่น้ำหนึ่ง', alias: 'เจ้าแม่เลขเด็ด', description: 'เลขเด็ดชื่อดังที่คอหวยติดตามทุกงวด', lookup: true },
+  { id: 'je-fong-beer', name: 'เจ๊ฟองเบียร์', alias: 'ใบแนวทาง', description: 'ใบแนวทางเลขเด็ดประจำงวด', lookup: true },
+  { id: 'je-nook', name: 'เจ๊นุ๊ก บารมีมหาเฮง', alias: 'ธูปปู่', description: 'เลขจากการเสี่ยงธูป', lookup: true },
+  { id: 'thai-lotto-ai', name: 'Thai Lotto AI', alias: 'ระบบคำนวณ', description: 'เลขจากระบบคำนวณ', lookup: true },
+];
+
+// Where the registry comes from. The defaults unless the API server plugs in its store.
+let source: () => GuruProfile[] = () => DEFAULT_GURUS;
+
+export const getGurus = (): GuruProfile[] => source();
+
+export const setGuruSource = (next: () => GuruProfile[]): void => {
+  source = next;
+};
+
+// How the registry is named in prompts ({gurus})
+export const describeGurus = (gurus: GuruProfile[]): string =>
+  gurus.map(g => (g.alias ? `${g.name} (${g.alias})` : g.name)).join(', ') || 'ไม่มี';
+
+const normalize = (name: string) => name.replace(/\s+/g, '').toLowerCase();
+
+// The registry entry a model-reported name refers to. Models shorten and
+// decorate names, so a name contained in the other also counts.
+export const matchGuru = (gurus: GuruProfile[], name: string): GuruProfile | undefined => {
+  const reported = normalize(name);
+  if (!reported) return undefined;
+  return gurus.find(g => normalize(g.name) === reported)
+    || gurus.find(g => reported.includes(normalize(g.name)) || normalize(g.name).includes(reported));
+};
+
+// Card for a guru without numbers for the draw yet
+export const placeholderGuru = (guru: GuruProfile, description: string): GuruStat => ({
+  id: guru.id,
+  name: guru.name,
+  alias: guru.alias,
+  accuracy: 0,
+  description,
+  nextDrawPrediction: { topPick: "", secondary: [] },
+  wins: [],
+  degraded: true,
+});
+
+// One card per registry guru, in registry order: typed-in numbers first, then
+// the AI lookup, otherwise a placeholder
+export const composeGuruStats = (
+  gurus: GuruProfile[],
+  lookedUp: GuruStat[],
+  manual: ManualGuruPrediction[]
+): GuruStat[] =>
+  gurus.map(guru => {
+    const found = lookedUp.find(s => s.id === guru.id && !s.degraded);
+    const typed = manual.find(m => m.guruId === guru.id);
+    const base: GuruStat = found
+      ? { ...found, name: guru.name, alias: guru.alias, description: found.description || guru.description }
+      : placeholderGuru(guru, guru.lookup
+          ? 'ยังไม่มีเลขสำหรับงวดนี้ กดโหลดใหม่เพื่อให้ AI ค้นหา หรือกรอกเลขเอง'
+          : 'ยังไม่ได้กรอกเลขสำหรับงวดนี้');
+    if (!typed) return base;
+    return {
+      ...base,
+      description: found ? base.description : guru.description,
+      nextDrawPrediction: typed.prediction,
+      manual: true,
+      degraded: undefined,
+    };
+  });
@@ -0,0 +1,102 @@
+import { LedgerEntry, LedgerPeriod, LedgerResult, StoredDraw } from "../types";
+import { STORES, getAll, getOne, newId, put, remove } from "./db";
+import { checkTicket } from "./ticketChecker";
+import { listDraws } from "./drawStore";
+import { drawKey } from "./games";
+
+// Government lottery tickets actually bought. Prizes are matched against the
+// local THAI draw archive, so entries for a draw stay pending until its result
+// has been fetched or imported.
+
+export const TICKET_FACE_VALUE = 80;
+
+export const checkLedgerEntry = (entry: Pick<LedgerEntry, 'number' | 'quantity'>, draw: StoredDraw): LedgerResult => {
+  const { hits, total } = checkTicket(entry.number, draw, 'THAI');
+  return { hits, winnings: total * entry.quantity, checkedAt: Date.now(), drawSavedAt: draw.savedAt };
+};
+
+// A fetched result may hold only the headline prizes at first. When the archive
+// replaces it with the full table, entries checked against the old record are checked again.
+const isCheckedAgainst = (entry: LedgerEntry, draw: StoredDraw): boolean =>
+  !!entry.result && entry.result.drawSavedAt === draw.savedAt;
+
+// Newest draw first, then in the order the tickets were entered
+export const listLedgerEntries = async (): Promise<LedgerEntry[]> => {
+  const entries = await getAll<LedgerEntry>(STORES.TICKETS);
+  return entries.sort((a, b) => b.drawIsoDate.localeCompare(a.drawIsoDate) || a.createdAt - b.createdAt);
+};
+
+export const validateLedgerEntry = (entry: Pick<LedgerEntry, 'drawIsoDate' | 'number' | 'quantity' | 'pricePaid'>): string[] => {
+  const errors: string[] = [];
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(entry.drawIsoDate)) errors.push('กรุณาเลือกงวด');
+  if (!/^\d{6}$/.test(entry.number)) errors.push('เลขสลากต้องเป็นตัวเลข 6 หลัก');
+  if (!Number.isInteger(entry.quantity) || entry.quantity < 1) errors.push('จำนวนใบต้องเป็นจำนวนเต็มตั้งแต่ 1');
+  if (!Number.isFinite(entry.pricePaid) || entry.pricePaid < 0) errors.push('ราคาที่จ่ายต้องไม่ติดลบ');
+  return errors;
+};
+
+// Checked right away when the draw is already in the archive
+export const saveLedgerEntry = async (
+  entry: Omit<LedgerEntry, 'id' | 'createdAt' | 'result'> & { id?: string; createdAt?: number }
+): Promise<LedgerEntry> => {
+  const draw = await getOne<StoredDraw>(STORES.DRAWS, drawKey('THAI', entry.drawIsoDate));
+  const record: LedgerEntry = {
+    ...entry,
+    id: entry.id || newId(),
+    createdAt: entry.createdAt || Date.now(),
+    result: draw ? checkLedgerEntry(entry, draw) : undefined,
+  };
+  await put(STORES.TICKETS, record);
+  return record;
+};
+
+export const deleteLedgerEntry = (id: string): Promise<void> => remove(STORES.TICKETS, id);
+
+// Check every pending entry whose draw is now in the archive, and every entry
+// whose draw record has changed since. Returns the newly checked entries.
+export const checkPendingLedgerEntries = async (): Promise<LedgerEntry[]> => {
+  const [entries, draws] = await Promise.all([listLedgerEntries(), listDraws('THAI')]);
+  const drawsByDate = new Map(draws.map(d => [d.isoDate, d]));
+
+  const checked: LedgerEntry[] = [];
+  for (const entry of entries) {
+    const draw = drawsByDate.get(entry.drawIsoDate);
+    if (!draw || isCheckedAgainst(entry, draw)) continue;
+    const record = { ...entry, result: checkLedgerEntry(entry, draw) };
+    await put(STORES.TICKETS, record);
+    checked.push(record);
+  }
+  return checked;
+};
+
+const roi = (net: number, spend: number): number | null => (spend > 0 ? net / spend : null);
+
+// Oldest draw first, so the running totals read left to right in charts
+export const summarizeLedger = (entries: LedgerEntry[]): LedgerPeriod[] => {
+  const byDraw = new Map<string, LedgerEntry[]>();
+  entries.forEach(e => byDraw.set(e.drawIsoDate, [...(byDraw.get(e.drawIsoDate) || []), e]));
+
+  let cumulativeSpend = 0;
+  let cumulativeWinnings = 0;
+  return [...byDraw.keys()].sort().map(drawIsoDate => {
+    const list = byDraw.get(drawIsoDate)!;
+    const spend = list.reduce((sum, e) => sum + e.pricePaid * e.quantity, 0);
+    const winnings = list.reduce((sum, e) => sum + (e.result?.winnings || 0), 0);
+    const pending = list.filter(e => !e.result).length;
+    cumulativeSpend += spend;
+    cumulativeWinnings += winnings;
+    return {
+      drawIsoDate,
+      tickets: list.reduce((sum, e) => sum + e.quantity, 0),
+      spend,
+      winnings,
+      net: winnings - spend,
+      roi: pending > 0 ? null : roi(winnings - spend, spend),
+      pending,
+      cumulativeSpend,
+      cumulativeWinnings,
+      cumulativeNet: cumulativeWinnings - cumulativeSpend,
+      cumulativeRoi: roi(cumulativeWinnings - cumulativeSpend, cumulativeSpend),
+    };
+  });
+};
@@ -0,0 +1,367 @@
+import { LotterySet, GeneratorMode, PastDraw, GuruStat, DrawInfo, DreamMatch, NumerologyProfile, GameId, GenerationEvent, PromptTemplate, GuruProfile, ManualGuruPrediction } from "../types";
+import { listDraws } from "./drawStore";
+import { computeHistoryStats, buildHistorySet } from "./statsEngine";
+import { getNextDraw } from "./drawCalendar";
+import { createLatestDrawResource, createGuruStatsResource } from "./drawDataCache";
+import { listDreamEntries } from "./dreamDictionary";
+import { matchDream, buildDreamSet } from "./dreamEngine";
+import { buildNumerologySet } from "./numerology";
+import { DEFAULT_GAME, GAMES, fitToGame } from "./games";
+import { isAbortError, withTimeout } from "./timeout";
+import { RECENT_DRAWS_COUNT, formatDrawLine } from "./promptTemplates";
+
+// Browser-side access to the API server. Model calls happen on the server so
+// no API key is shipped in the client bundle.
+
+const API_BASE = '/api';
+
+export class ApiError extends Error {
+  // retryAfterSeconds comes from the Retry-After header of a 429
+  constructor(message: string, public status: number, public retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(public seconds: number) {
+    super(`AI ไม่ตอบภายใน ${seconds} วินาที กดสร้างใหม่อีกครั้ง หรือเพิ่มเวลารอ`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Model-backed generation: cancelled through `signal`, given up after
+// `timeoutSeconds`, and with `onReasoning` streamed while it is written
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  timeoutSeconds?: number;
+  onReasoning?: (text: string) => void;   // All reasoning so far; starts over when the model retries
+  templateId?: string;                    // CUSTOM mode: the template to generate from
+}
+
+export const TIMEOUT_CHOICES = [30, 60, 120, 300];
+export const DEFAULT_TIMEOUT_SECONDS = 60;
+const TIMEOUT_KEY = 'generate:timeoutSeconds';
+
+export const loadTimeoutSeconds = (): number => {
+  const stored = Number(localStorage.getItem(TIMEOUT_KEY));
+  return TIMEOUT_CHOICES.includes(stored) ? stored : DEFAULT_TIMEOUT_SECONDS;
+};
+
+export const saveTimeoutSeconds = (seconds: number) => {
+  localStorage.setItem(TIMEOUT_KEY, String(seconds));
+};
+
+const withGenerateTimeout = <T>(options: GenerateOptions, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const seconds = options.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS;
+  return withTimeout(seconds * 1000, () => new TimeoutError(seconds), run, options.signal);
+};
+
+const toApiError = async (response: Response): Promise<ApiError> => {
+  const body = await response.json().catch(() => ({}));
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  return new ApiError(
+    body.error || `Request failed with status ${response.status}`,
+    response.status,
+    retryAfter > 0 ? retryAfter : undefined
+  );
+};
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!response.ok) throw await toApiError(response);
+  return response.json().catch(() => ({})) as Promise<T>;
+};
+
+// Writes to settings shared by everyone using the server need the server's
+// ADMIN_TOKEN. It is asked for once and kept in this browser.
+const ADMIN_TOKEN_KEY = 'api:adminToken';
+
+const adminRequest = <T>(path: string, init: RequestInit): Promise<T> =>
+  request<T>(path, { ...init, headers: { 'X-Admin-Token': localStorage.getItem(ADMIN_TOKEN_KEY) || '' } });
+
+// Runs a shared-settings write; when the server rejects the token, asks for it and tries once more
+export const withAdminToken = async <T>(write: () => Promise<T>): Promise<T> => {
+  try {
+    return await write();
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 401)) throw error;
+    const token = window.prompt('ใส่รหัสผู้ดูแล (ADMIN_TOKEN ของเซิร์ฟเวอร์ API) เพื่อบันทึกการแก้ไข');
+    if (!token?.trim()) throw error;
+    localStorage.setItem(ADMIN_TOKEN_KEY, token.trim());
+    return write();
+  }
+};
+
+// POSTs with `stream: true` and reads the GenerationEvent lines until the result
+const streamRequest = async <T>(
+  path: string,
+  body: Record<string, unknown>,
+  onReasoning: (text: string) => void,
+  signal: AbortSignal
+): Promise<T> => {
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+  if (!response.ok) throw await toApiError(response);
+
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let reasoning = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines.filter(l => l.trim())) {
+      const event = JSON.parse(line) as GenerationEvent;
+      switch (event.type) {
+        case 'reasoning':
+          reasoning += event.text;
+          onReasoning(reasoning);
+          break;
+        case 'restart':
+          reasoning = '';
+          onReasoning(reasoning);
+          break;
+        case 'result':
+          return event.data as T;
+        case 'error':
+          throw new ApiError(event.error, event.status);
+      }
+    }
+  }
+  throw new ApiError('The server closed the stream without a result', 502);
+};
+
+const query = (game: GameId, refresh: boolean) =>
+  `?game=${game}${refresh ? '&refresh=1' : ''}`;
+
+// `refresh` asks the server to bypass its own cache
+export const getLatestDrawResults = (game: GameId = DEFAULT_GAME, refresh = false): Promise<PastDraw> =>
+  request<PastDraw>(`/draws/latest${query(game, refresh)}`);
+
+export const getGuruStats = (game: GameId = DEFAULT_GAME, refresh = false): Promise<GuruStat[]> =>
+  request<GuruStat[]>(`/gurus${query(game, refresh)}`);
+
+export interface GuruRegistry {
+  gurus: GuruProfile[];
+  manual: ManualGuruPrediction[];   // Typed-in numbers for the next draw of the requested game
+}
+
+export type GuruFields = Pick<GuruProfile, 'name' | 'alias' | 'description' | 'lookup'>;
+
+const guruPath = (id: string, action = '') => `/gurus/registry/${encodeURIComponent(id)}${action && `/${action}`}`;
+
+// The guru registry is shared by everyone using the server
+export const getGuruRegistry = (game: GameId = DEFAULT_GAME): Promise<GuruRegistry> =>
+  request<GuruRegistry>(`/gurus/registry?game=${game}`);
+
+export const addGuru = (fields: GuruFields): Promise<GuruProfile> =>
+  adminRequest<GuruProfile>('/gurus/registry', { method: 'POST', body: JSON.stringify(fields) });
+
+export const updateGuru = (id: string, fields: GuruFields): Promise<GuruProfile> =>
+  adminRequest<GuruProfile>(guruPath(id), { method: 'PUT', body: JSON.stringify(fields) });
+
+export const deleteGuru = (id: string): Promise<void> =>
+  adminRequest<void>(guruPath(id), { method: 'DELETE' });
+
+export const reorderGurus = (ids: string[]): Promise<GuruProfile[]> =>
+  adminRequest<GuruProfile[]>('/gurus/registry/order', { method: 'POST', body: JSON.stringify({ ids }) });
+
+export const saveManualGuruPrediction = (
+  id: string,
+  game: GameId,
+  drawIsoDate: string,
+  topPick: string,
+  secondary: string[]
+): Promise<ManualGuruPrediction> =>
+  adminRequest<ManualGuruPrediction>(guruPath(id, 'manual'), {
+    method: 'PUT',
+    body: JSON.stringify({ game, drawIsoDate, topPick, secondary }),
+  });
+
+export const clearManualGuruPrediction = (id: string, game: GameId, drawIsoDate: string): Promise<void> =>
+  adminRequest<void>(`${guruPath(id, 'manual')}?game=${game}&draw=${drawIsoDate}`, { method: 'DELETE' });
+
+// {recentDraws} of the prompt templates, from the local archive
+const recentDrawLines = async (game: GameId): Promise<string[]> =>
+  (await listDraws(game)).slice(0, RECENT_DRAWS_COUNT).map(draw => formatDrawLine(draw, game));
+
+// Prompt templates are shared by everyone using the server, with their full history
+export const listPromptTemplates = (): Promise<PromptTemplate[]> =>
+  request<PromptTemplate[]>('/prompts');
+
+const templatePath = (id: string, action: string) => `/prompts/${encodeURIComponent(id)}/${action}`;
+
+export const savePromptVersion = (id: string, prompt: string, systemInstruction: string, note: string): Promise<PromptTemplate> =>
+  adminRequest<PromptTemplate>(templatePath(id, 'versions'), {
+    method: 'POST',
+    body: JSON.stringify({ prompt, systemInstruction, note }),
+  });
+
+export const rollbackPromptTemplate = (id: string, version: number): Promise<PromptTemplate> =>
+  adminRequest<PromptTemplate>(templatePath(id, 'rollback'), {
+    method: 'POST',
+    body: JSON.stringify({ version }),
+  });
+
+// A custom mode starts as a copy of the current version of `from`
+export const createCustomMode = (label: string, description: string, from: string): Promise<PromptTemplate> =>
+  adminRequest<PromptTemplate>('/prompts', {
+    method: 'POST',
+    body: JSON.stringify({ label, description, from }),
+  });
+
+export const deleteCustomMode = (id: string): Promise<void> =>
+  adminRequest<void>(`/prompts/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+export interface PromptPreview {
+  prompt: string;
+  systemInstruction: string;
+  unknownVariables: string[];
+}
+
+// Unsaved text rendered exactly as it would be sent for the next draw of `game`
+export const previewPrompt = async (
+  template: string,
+  prompt: string,
+  systemInstruction: string,
+  game: GameId,
+  signal?: AbortSignal
+): Promise<PromptPreview> =>
+  request<PromptPreview>('/prompts/preview', {
+    method: 'POST',
+    body: JSON.stringify({ template, prompt, systemInstruction, game, recentDraws: await recentDrawLines(game) }),
+    signal,
+  });
+
+// One resource per game, persisted across reloads so the sidebar renders
+// instantly from the last fetch
+const memoByGame = <T>(create: (game: GameId) => T) => {
+  const resources = new Map<GameId, T>();
+  return (game: GameId = DEFAULT_GAME): T => {
+    if (!resources.has(game)) resources.set(game, create(game));
+    return resources.get(game)!;
+  };
+};
+
+export const latestDrawResource = memoByGame(game =>
+  createLatestDrawResource(localStorage, refresh => getLatestDrawResults(game, refresh), game));
+export const guruStatsResource = memoByGame(game =>
+  createGuruStatsResource(localStorage, refresh => getGuruStats(game, refresh), game));
+
+// Dream and numerology sets are built in the THAI layout; other games take
+// the same numbers fitted to their own slots
+const adaptToGame = <T extends Pick<LotterySet, 'prize1' | 'front3' | 'rear3' | 'rear2' | 'reasoning'>>(set: T, game: GameId): T & { game: GameId } => {
+  if (game === DEFAULT_GAME) return { ...set, game };
+  const g = GAMES[game];
+  const fitted = fitToGame(set, game);
+  return {
+    ...fitted,
+    game,
+    reasoning: `${set.reasoning || ''} ปรับเป็นรูปแบบ${g.name}: ${g.prize1.label} ${fitted.prize1}, ${g.rear3.label} ${fitted.rear3.join(', ')}, ${g.rear2.label} ${fitted.rear2}`.trim(),
+  };
+};
+
+// The computed text is kept if phrasing fails or times out; only a cancel stops the set
+const phraseHistoryReasoning = async (reasoning: string, sources: string[], game: GameId, options: GenerateOptions): Promise<string> => {
+  try {
+    const payload = { reasoning, sources, game, recentDraws: await recentDrawLines(game) };
+    const body = await withGenerateTimeout(options, signal => options.onReasoning
+      ? streamRequest<{ text: string }>('/history/phrase', payload, options.onReasoning, signal)
+      : request<{ text: string }>('/history/phrase', {
+          method: 'POST',
+          body: JSON.stringify(payload),
+          signal,
+        }));
+    return body.text || reasoning;
+  } catch (error) {
+    if (isAbortError(error, options.signal)) throw error;
+    console.error("Failed to phrase history analysis:", error);
+    return reasoning;
+  }
+};
+
+// HISTORY mode: numbers come from the local archive via the statistics engine.
+const generateHistorySet = async (draw: DrawInfo, options: GenerateOptions): Promise<LotterySet> => {
+  const stats = computeHistoryStats(await listDraws(draw.game), draw.isoDate, draw.game);
+  const set = buildHistorySet(stats, draw.label, draw.game);
+
+  return {
+    ...set,
+    reasoning: await phraseHistoryReasoning(set.reasoning!, set.sources!, draw.game, options),
+    drawIsoDate: draw.isoDate,
+    timestamp: Date.now()
+  };
+};
+
+// DREAM mode: keyword matching works offline. With `enrich`, the model may add
+// dictionary symbols it recognises and an interpretation; if it fails the offline result is kept.
+export const generateDreamSet = async (dream: string, enrich: boolean, game: GameId = DEFAULT_GAME): Promise<LotterySet> => {
+  const draw = getNextDraw(new Date(), game);
+  const entries = await listDreamEntries();
+  const matches: DreamMatch[] = matchDream(dream, entries);
+  let interpretation: string | undefined;
+
+  if (enrich) {
+    try {
+      const result = await request<{ symbolIds: string[]; interpretation: string }>('/dream/interpret', {
+        method: 'POST',
+        body: JSON.stringify({ dream, symbols: entries.map(({ id, symbol }) => ({ id, symbol })) }),
+      });
+      const matched = new Set(matches.map(m => m.entry.id));
+      entries
+        .filter(entry => result.symbolIds.includes(entry.id) && !matched.has(entry.id))
+        .forEach(entry => matches.push({ entry, keyword: 'AI' }));
+      interpretation = result.interpretation;
+    } catch (error) {
+      console.error("Failed to interpret dream with AI:", error);
+    }
+  }
+
+  return {
+    ...adaptToGame(buildDreamSet(matches, draw.label, interpretation), game),
+    drawIsoDate: draw.isoDate,
+    timestamp: Date.now()
+  };
+};
+
+// NUMEROLOGY mode: fully local and deterministic for a profile and draw
+export const generateNumerologySet = (profile: NumerologyProfile, game: GameId = DEFAULT_GAME): LotterySet => {
+  const draw = getNextDraw(new Date(), game);
+  return {
+    ...adaptToGame(buildNumerologySet(profile, draw), game),
+    drawIsoDate: draw.isoDate,
+    timestamp: Date.now()
+  };
+};
+
+export const generateLuckyNumbersAI = async (
+  mode: GeneratorMode,
+  game: GameId = DEFAULT_GAME,
+  options: GenerateOptions = {}
+): Promise<LotterySet> => {
+  if (mode === GeneratorMode.HISTORY) {
+    return generateHistorySet(getNextDraw(new Date(), game), options);
+  }
+
+  const payload = { mode, game, template: options.templateId, recentDraws: await recentDrawLines(game) };
+  return withGenerateTimeout(options, signal => options.onReasoning
+    ? streamRequest<LotterySet>('/generate', payload, options.onReasoning, signal)
+    : request<LotterySet>('/generate', {
+        method: 'POST',
+        body: JSON.stringify(payload),
+        signal,
+      }));
+};
@@ -0,0 +1,111 @@
+import { GameId, LedgerEntry, NotificationSettings, PastDraw, SavedPrediction } from "../types";
+import { DEFAULT_GAME, GAMES, drawKey } from "./games";
+import { formatThaiDate } from "./thaiDate";
+
+// Browser notifications. Everything is opt-in and silently does nothing where
+// the Notification API is missing or permission was refused. Each notification
+// is remembered by key so reloading the page does not repeat it.
+
+const SETTINGS_KEY = 'notifications:settings';
+const SENT_KEY = 'notifications:sent';
+const MAX_SENT_KEYS = 200;
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  salesReminder: true,
+  reminderLeadHours: 3,
+  results: true,
+};
+
+export const loadNotificationSettings = (): NotificationSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(raw) } : DEFAULT_NOTIFICATION_SETTINGS;
+  } catch {
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+};
+
+export const saveNotificationSettings = (settings: NotificationSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const notificationsSupported = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+export const notificationPermission = (): NotificationPermission | 'unsupported' =>
+  notificationsSupported() ? Notification.permission : 'unsupported';
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+// Whether notifications of `kind` are switched on and allowed by the browser
+export const shouldNotify = (kind: 'salesReminder' | 'results'): boolean => {
+  const settings = loadNotificationSettings();
+  return settings.enabled && settings[kind] && notificationPermission() === 'granted';
+};
+
+const readSent = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SENT_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+// Shows a notification unless one with the same key was already shown.
+// Returns whether it was shown.
+export const notifyOnce = (key: string, title: string, body: string): boolean => {
+  if (notificationPermission() !== 'granted') return false;
+  const sent = readSent();
+  if (sent.includes(key)) return false;
+  try {
+    new Notification(title, { body, tag: key });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error("Failed to show notification:", error);
+    return false;
+  }
+  localStorage.setItem(SENT_KEY, JSON.stringify([...sent, key].slice(-MAX_SENT_KEYS)));
+  return true;
+};
+
+const baht = (amount: number) => amount.toLocaleString('th-TH');
+
+export const notifySalesClosing = (drawIsoDate: string, closesAt: Date, game: GameId = DEFAULT_GAME) =>
+  notifyOnce(
+    `sales|${drawKey(game, drawIsoDate)}`,
+    `ใกล้${GAMES[game].salesCloseLabel}แล้ว`,
+    `${GAMES[game].name} งวด ${formatThaiDate(drawIsoDate)} ${GAMES[game].salesCloseLabel}เวลา ${closesAt.toLocaleTimeString('th-TH', { timeZone: 'Asia/Bangkok', hour: '2-digit', minute: '2-digit' })} น.`
+  );
+
+export const notifyResults = (drawIsoDate: string, draw: PastDraw, game: GameId = DEFAULT_GAME) => {
+  const g = GAMES[game];
+  return notifyOnce(
+    `results|${drawKey(game, drawIsoDate)}`,
+    `ผล${g.name} งวด ${formatThaiDate(drawIsoDate)} ออกแล้ว`,
+    `${g.prize1.label}: ${draw.prize1} · ${g.rear2.label}: ${draw.rear2}`
+  );
+};
+
+// One notification per winning ticket and per favorite prediction that hit a prize
+export const notifyWins = (entries: LedgerEntry[], predictions: SavedPrediction[]) => {
+  entries
+    .filter(e => (e.result?.winnings || 0) > 0)
+    .forEach(e => notifyOnce(
+      `ticket|${e.id}`,
+      'ยินดีด้วย! สลากของคุณถูกรางวัล',
+      `ถูกรางวัล ${baht(e.result!.winnings)} บาท จากสลาก ${e.number}${e.quantity > 1 ? ` (${e.quantity} ใบ)` : ''} งวด ${formatThaiDate(e.drawIsoDate)}`
+    ));
+
+  predictions
+    .filter(p => p.favorite && p.score && p.score.prizeHits.length > 0)
+    .forEach(p => notifyOnce(
+      `prediction|${p.id}`,
+      'เลขที่คุณติดดาวถูกรางวัล',
+      `ถูกรางวัล ${baht(p.score!.prizeHits.reduce((sum, h) => sum + h.amount, 0))} บาท จากเลข ${p.prize1} (${p.score!.prizeHits.map(h => h.label).join(', ')}) งวด ${formatThaiDate(p.score!.drawIsoDate)}`
+    ));
+};
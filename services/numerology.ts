@@ -0,0 +1,149 @@
+import { DrawInfo, LotterySet, NumerologyProfile } from "../types";
+import { formatThaiDate } from "./thaiDate";
+
+// Deterministic Thai numerology (เลขศาสตร์). The same profile and draw always
+// give the same numbers, and every step is written into the reasoning.
+//
+// Rules used:
+// - Day-of-birth numbers follow the ทักษา planets: Sunday 1 … Saturday 7, Wednesday night (ราหู) 8.
+// - Birth and draw dates are summed digit by digit as dd mm yyyy in the Buddhist Era.
+// - Phone numbers are summed digit by digit.
+// - Licence plates use the standard letter values of Thai numerology plus their digits.
+// - Every sum is reduced to one digit (digital root), so derived digits are 1-9.
+
+export const BIRTH_DAYS = [
+  { day: 0, label: 'วันอาทิตย์', number: 1 },
+  { day: 1, label: 'วันจันทร์', number: 2 },
+  { day: 2, label: 'วันอังคาร', number: 3 },
+  { day: 3, label: 'วันพุธ (กลางวัน)', number: 4 },
+  { day: 4, label: 'วันพฤหัสบดี', number: 5 },
+  { day: 5, label: 'วันศุกร์', number: 6 },
+  { day: 6, label: 'วันเสาร์', number: 7 },
+  { day: 7, label: 'วันพุธ (กลางคืน)', number: 8 },
+];
+
+const LETTER_GROUPS: [number, string][] = [
+  [1, 'กดถทภฤฦาำุ่'],
+  [2, 'ขชงบปเแู้'],
+  [3, 'ฆตฑฒ๋'],
+  [4, 'คธญรษะโัิ'],
+  [5, 'ฉฌณนมหฮฎฬึ'],
+  [6, 'จลวอใ็'],
+  [7, 'ซศสี๊ื'],
+  [8, 'ผฝพฟย์'],
+  [9, 'ฏฐไ'],
+];
+
+const LETTER_VALUES: Record<string, number> = Object.fromEntries(
+  LETTER_GROUPS.flatMap(([value, letters]) => [...letters].map(letter => [letter, value]))
+);
+
+const THAI_DIGITS = '๐๑๒๓๔๕๖๗๘๙';
+
+export const digitalRoot = (n: number): number => (n === 0 ? 0 : 1 + ((n - 1) % 9));
+
+const digitsOf = (text: string): number[] =>
+  [...text].flatMap(ch => {
+    if (/\d/.test(ch)) return [+ch];
+    const thai = THAI_DIGITS.indexOf(ch);
+    return thai >= 0 ? [thai] : [];
+  });
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+// "1987-03-16" -> "16032530"
+const beDateDigits = (isoDate: string): string => {
+  const [year, month, day] = isoDate.split('-');
+  return `${day}${month}${+year + 543}`;
+};
+
+// Value of each character of a plate: Thai letters by table, digits as themselves
+export const plateValues = (plate: string): { char: string; value: number }[] =>
+  [...plate].flatMap(char => {
+    if (char in LETTER_VALUES) return [{ char, value: LETTER_VALUES[char] }];
+    const digits = digitsOf(char);
+    return digits.length ? [{ char, value: digits[0] }] : [];
+  });
+
+export const birthDayOf = (isoDate: string): number => new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+
+export const validateNumerologyProfile = (profile: Partial<NumerologyProfile>): string[] => {
+  const errors: string[] = [];
+  if (!profile.name?.trim()) errors.push('กรุณาระบุชื่อโปรไฟล์');
+  if (!profile.birthDate || !/^\d{4}-\d{2}-\d{2}$/.test(profile.birthDate)) errors.push('วันเกิดไม่ถูกต้อง');
+  if (profile.birthDay === undefined || !BIRTH_DAYS.some(d => d.day === profile.birthDay)) errors.push('กรุณาเลือกวันเกิด');
+  if (profile.phone && !/^\d{9,10}$/.test(profile.phone)) errors.push('เบอร์โทรต้องเป็นตัวเลข 9-10 หลัก');
+  if (profile.plate && plateValues(profile.plate).length === 0) errors.push('ทะเบียนรถต้องมีตัวอักษรไทยหรือตัวเลข');
+  return errors;
+};
+
+export const buildNumerologySet = (
+  profile: NumerologyProfile,
+  draw: DrawInfo
+): Pick<LotterySet, 'prize1' | 'front3' | 'rear3' | 'rear2' | 'reasoning' | 'sources' | 'drawDate' | 'source'> => {
+  const steps: string[] = [];
+
+  const birthDigits = digitsOf(beDateDigits(profile.birthDate));
+  const life = digitalRoot(sum(birthDigits));
+  steps.push(`เลขวันเดือนปีเกิด (${formatThaiDate(profile.birthDate)}): ${birthDigits.join('+')} = ${sum(birthDigits)} → ${life}`);
+
+  const birthDay = BIRTH_DAYS.find(d => d.day === profile.birthDay)!;
+  const day = birthDay.number;
+  steps.push(`เลขประจำวันเกิด (${birthDay.label}) ตามทักษา = ${day}`);
+
+  const drawDigits = digitsOf(beDateDigits(draw.isoDate));
+  const target = digitalRoot(sum(drawDigits));
+  steps.push(`เลขงวด (${draw.label}): ${drawDigits.join('+')} = ${sum(drawDigits)} → ${target}`);
+
+  let phone: number;
+  if (profile.phone) {
+    const phoneDigits = digitsOf(profile.phone);
+    phone = digitalRoot(sum(phoneDigits));
+    steps.push(`ผลรวมเบอร์โทร ${profile.phone}: ${sum(phoneDigits)} → ${phone}`);
+  } else {
+    phone = digitalRoot(life + day);
+    steps.push(`ไม่มีเบอร์โทร ใช้เลขวันเดือนปีเกิด + เลขวันเกิด แทน: ${life}+${day} → ${phone}`);
+  }
+
+  let plate: number;
+  if (profile.plate) {
+    const values = plateValues(profile.plate);
+    plate = digitalRoot(sum(values.map(v => v.value)));
+    steps.push(`ผลรวมทะเบียน ${profile.plate}: ${values.map(v => `${v.char}(${v.value})`).join(' ')} = ${sum(values.map(v => v.value))} → ${plate}`);
+  } else {
+    plate = digitalRoot(day + target);
+    steps.push(`ไม่มีทะเบียนรถ ใช้เลขวันเกิด + เลขงวด แทน: ${day}+${target} → ${plate}`);
+  }
+
+  const lifeDraw = digitalRoot(life + target);
+  const dayDraw = digitalRoot(day + target);
+  const total = digitalRoot(life + day + phone + plate + target);
+
+  const rear2 = `${lifeDraw}${dayDraw}`;
+  const front3 = [`${life}${day}${target}`, `${phone}${plate}${target}`];
+  const rear3 = [`${day}${life}${lifeDraw}`, `${plate}${phone}${dayDraw}`];
+  const prize1 = `${life}${day}${phone}${plate}${target}${total}`;
+
+  steps.push(`เลขท้าย 2 ตัว = (เลขเกิด+เลขงวด)(เลขวัน+เลขงวด) = ${life}+${target} → ${lifeDraw}, ${day}+${target} → ${dayDraw} ได้ ${rear2}`);
+  steps.push(`เลขหน้า 3 ตัว = เลขเกิด·เลขวัน·เลขงวด และ เบอร์·ทะเบียน·เลขงวด ได้ ${front3.join(', ')}`);
+  steps.push(`เลขท้าย 3 ตัว = เลขวัน·เลขเกิด·(เลขเกิด+เลขงวด) และ ทะเบียน·เบอร์·(เลขวัน+เลขงวด) ได้ ${rear3.join(', ')}`);
+  steps.push(`รางวัลที่ 1 = เลขเกิด·เลขวัน·เบอร์·ทะเบียน·เลขงวด·ผลรวมทั้งหมด (${total}) ได้ ${prize1}`);
+
+  return {
+    prize1,
+    front3,
+    rear3,
+    rear2,
+    reasoning: steps.map((step, i) => `${i + 1}. ${step}`).join('\n'),
+    sources: [
+      `โปรไฟล์: ${profile.name}`,
+      `เลขเกิด ${life}`,
+      `เลขวัน ${day}`,
+      `เบอร์ ${phone}`,
+      `ทะเบียน ${plate}`,
+      `เลขงวด ${target}`,
+    ],
+    drawDate: draw.label,
+    source: 'NUMEROLOGY',
+  };
+};
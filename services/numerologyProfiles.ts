@@ -0,0 +1,19 @@
+import { NumerologyProfile } from "../types";
+import { STORES, getAll, newId, put, remove } from "./db";
+
+// Saved NUMEROLOGY inputs, one profile per person.
+
+export const listNumerologyProfiles = async (): Promise<NumerologyProfile[]> => {
+  const profiles = await getAll<NumerologyProfile>(STORES.NUMEROLOGY_PROFILES);
+  return profiles.sort((a, b) => a.name.localeCompare(b.name, 'th'));
+};
+
+export const saveNumerologyProfile = async (
+  profile: Omit<NumerologyProfile, 'id' | 'updatedAt'> & { id?: string }
+): Promise<NumerologyProfile> => {
+  const record: NumerologyProfile = { ...profile, id: profile.id || newId(), updatedAt: Date.now() };
+  await put(STORES.NUMEROLOGY_PROFILES, record);
+  return record;
+};
+
+export const deleteNumerologyProfile = (id: string): Promise<void> => remove(STORES.NUMEROLOGY_PROFILES, id);
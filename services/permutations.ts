@@ -0,0 +1,145 @@
+import { ExpansionKind, PlayNumber } from "../types";
+
+// Standard play expansions for 2 and 3 digit numbers. Every expansion returns
+// unique numbers; expandNumbers also dedupes across inputs and expansions.
+
+export interface ExpansionInfo {
+  kind: ExpansionKind;
+  label: string;
+  description: string;
+}
+
+export const EXPANSIONS: ExpansionInfo[] = [
+  { kind: 'PERMUTE', label: 'กลับเลข', description: 'ทุกการสลับหลัก: 6 กลับ, 3 กลับ เมื่อมีเลขเบิ้ล, หรือกลับ 2 ตัว' },
+  { kind: 'REVERSE2', label: 'กลับ 2 ตัว', description: '2 ตัวท้ายของเลขและเลขกลับ เช่น 123 ได้ 23 และ 32' },
+  { kind: 'DOORS19', label: '19 ประตู', description: 'เลข 2 ตัวทั้งหมดที่มีแต่ละหลักอยู่ (หลักละ 19 ตัว)' },
+  { kind: 'SWEEP_FRONT', label: 'รูดหน้า', description: 'แต่ละหลักเป็นหลักสิบ ตามด้วย 0-9' },
+  { kind: 'SWEEP_BACK', label: 'รูดหลัง', description: 'แต่ละหลักเป็นหลักหน่วย นำหน้าด้วย 0-9' },
+  { kind: 'SET2', label: 'เลขชุด 2 ตัว', description: 'เลข 2 ตัวทุกตัวที่เกิดจากหลักที่เลือก' },
+  { kind: 'SET3', label: 'เลขชุด 3 ตัว', description: 'เลข 3 ตัวทุกตัวที่เกิดจากหลักที่เลือก' },
+];
+
+const EXPANSION_LABELS = Object.fromEntries(EXPANSIONS.map(e => [e.kind, e.label])) as Record<ExpansionKind, string>;
+
+const DIGITS = '0123456789'.split('');
+
+const unique = (numbers: string[]): string[] => [...new Set(numbers)];
+
+const distinctDigits = (input: string): string[] => unique(input.split(''));
+
+// All orderings of the digits; doubles give fewer distinct numbers (3 กลับ)
+export const permutations = (input: string): string[] => {
+  if (input.length <= 1) return [input];
+  return unique(input.split('').flatMap((d, i) =>
+    permutations(input.slice(0, i) + input.slice(i + 1)).map(rest => d + rest)
+  ));
+};
+
+export const permutationLabel = (input: string): string => {
+  if (input.length === 2) return 'กลับ 2 ตัว';
+  const count = permutations(input).length;
+  return count === 6 ? '6 กลับ' : count === 3 ? '3 กลับ' : 'ตอง';
+};
+
+export const reverse2 = (input: string): string[] => {
+  const last2 = input.slice(-2);
+  return unique([last2, last2[1] + last2[0]]);
+};
+
+export const sweepFront = (digit: string): string[] => DIGITS.map(d => digit + d);
+
+export const sweepBack = (digit: string): string[] => DIGITS.map(d => d + digit);
+
+export const nineteenDoors = (digit: string): string[] => unique([...sweepFront(digit), ...sweepBack(digit)]);
+
+// Every number of `length` built from the digits; doubles (เลขเบิ้ล) repeat a digit
+export const digitSet = (digits: string[], length: number, includeDoubles: boolean): string[] => {
+  let numbers = [''];
+  for (let i = 0; i < length; i++) {
+    numbers = numbers.flatMap(n => digits.filter(d => includeDoubles || !n.includes(d)).map(d => n + d));
+  }
+  return unique(numbers);
+};
+
+// Why an input cannot be used for an expansion, or null if it can
+export const expansionInputError = (kind: ExpansionKind, input: string): string | null => {
+  if (!/^\d+$/.test(input)) return `${input} ไม่ใช่ตัวเลข`;
+  switch (kind) {
+    case 'PERMUTE':
+    case 'REVERSE2':
+      return input.length === 2 || input.length === 3 ? null : `${EXPANSION_LABELS[kind]}ใช้เลข 2 หรือ 3 หลัก (${input})`;
+    case 'DOORS19':
+    case 'SWEEP_FRONT':
+    case 'SWEEP_BACK':
+      return input.length <= 3 ? null : `${EXPANSION_LABELS[kind]}ใช้เลข 1-3 หลัก (${input})`;
+    case 'SET2':
+    case 'SET3':
+      return null;
+  }
+};
+
+export const expandOne = (kind: ExpansionKind, input: string, includeDoubles: boolean): string[] => {
+  switch (kind) {
+    case 'PERMUTE': return permutations(input);
+    case 'REVERSE2': return reverse2(input);
+    case 'DOORS19': return unique(distinctDigits(input).flatMap(nineteenDoors));
+    case 'SWEEP_FRONT': return unique(distinctDigits(input).flatMap(sweepFront));
+    case 'SWEEP_BACK': return unique(distinctDigits(input).flatMap(sweepBack));
+    case 'SET2': return digitSet(distinctDigits(input), 2, includeDoubles);
+    case 'SET3': return digitSet(distinctDigits(input), 3, includeDoubles);
+  }
+};
+
+// Numbers typed or picked by the user, separated by spaces, commas or dashes
+export const parseNumberList = (text: string): string[] => unique(text.split(/[\s,;/-]+/).filter(Boolean));
+
+export interface ExpansionResult {
+  numbers: PlayNumber[];   // Unique, 2 digit numbers first, each in ascending order
+  generated: number;       // Before removing duplicates
+  skipped: string[];       // Inputs an expansion could not use, with the reason
+}
+
+// เลขชุด treats all inputs together as one set of favourite digits
+export const expandNumbers = (kinds: ExpansionKind[], inputs: string[], includeDoubles: boolean): ExpansionResult => {
+  const result: ExpansionResult = { numbers: [], generated: 0, skipped: [] };
+  const origins = new Map<string, string>();
+
+  const add = (numbers: string[], origin: string) => {
+    result.generated += numbers.length;
+    numbers.forEach(n => !origins.has(n) && origins.set(n, origin));
+  };
+
+  for (const kind of kinds) {
+    const usable = inputs.filter(input => {
+      const error = expansionInputError(kind, input);
+      if (error) result.skipped.push(error);
+      return !error;
+    });
+
+    if (kind === 'SET2' || kind === 'SET3') {
+      const digits = distinctDigits(usable.join('')).sort().join('');
+      const length = kind === 'SET2' ? 2 : 3;
+      if (!includeDoubles && digits.length < length) {
+        result.skipped.push(`${EXPANSION_LABELS[kind]}แบบไม่เบิ้ลต้องมีอย่างน้อย ${length} หลักที่ต่างกัน`);
+      } else if (digits) {
+        add(expandOne(kind, digits, includeDoubles), `${EXPANSION_LABELS[kind]} ${digits}`);
+      }
+      continue;
+    }
+    for (const input of usable) {
+      const label = kind === 'PERMUTE' ? permutationLabel(input) : EXPANSION_LABELS[kind];
+      add(expandOne(kind, input, includeDoubles), `${label} ${input}`);
+    }
+  }
+
+  result.numbers = [...origins.entries()]
+    .map(([number, origin]) => ({ number, origin }))
+    .sort((a, b) => a.number.length - b.number.length || a.number.localeCompare(b.number));
+  return result;
+};
+
+// Adds new numbers to a list, keeping the existing entry for any number already in it
+export const mergePlayNumbers = (list: PlayNumber[], added: PlayNumber[]): PlayNumber[] => {
+  const known = new Set(list.map(p => p.number));
+  return [...list, ...added.filter(p => !known.has(p.number) && known.add(p.number))];
+};
@@ -0,0 +1,131 @@
+import { LedgerEntry, Pool, PoolContribution, PoolMember, PoolMemberShare, PoolStatement } from "../types";
+import { STORES, getAll, newId, put, remove } from "./db";
+
+// Group pools (กองกลาง). Each draw, members' stakes are their carried-over
+// balance plus what they put in; ticket cost and prizes are split by stake, and
+// whatever was not spent carries over to the next draw. Shares are apportioned
+// in satang so every statement adds up exactly.
+
+export const listPools = async (): Promise<Pool[]> => {
+  const pools = await getAll<Pool>(STORES.POOLS);
+  return pools.sort((a, b) => a.name.localeCompare(b.name, 'th'));
+};
+
+export const validatePool = (pool: Pick<Pool, 'name' | 'members'>): string[] => {
+  const errors: string[] = [];
+  if (!pool.name.trim()) errors.push('กรุณาตั้งชื่อกองกลาง');
+  if (pool.members.some(m => !m.name.trim())) errors.push('สมาชิกทุกคนต้องมีชื่อ');
+  const names = pool.members.map(m => m.name.trim());
+  if (names.some((name, i) => names.indexOf(name) !== i)) errors.push('ชื่อสมาชิกซ้ำกัน');
+  return errors;
+};
+
+export const savePool = async (pool: Omit<Pool, 'id' | 'updatedAt'> & { id?: string }): Promise<Pool> => {
+  const record: Pool = { ...pool, id: pool.id || newId(), updatedAt: Date.now() };
+  await put(STORES.POOLS, record);
+  return record;
+};
+
+// Contributions go with the pool; its tickets stay in the ledger without a pool
+export const deletePool = async (id: string, tickets: LedgerEntry[]): Promise<void> => {
+  const contributions = await listPoolContributions(id);
+  await Promise.all([
+    ...contributions.map(c => remove(STORES.POOL_CONTRIBUTIONS, c.id)),
+    ...tickets.filter(t => t.poolId === id).map(({ poolId, ...ticket }) => put(STORES.TICKETS, ticket)),
+  ]);
+  await remove(STORES.POOLS, id);
+};
+
+// Members who left stay in the pool record, so statements of the draws they were in never change
+export const isMemberIn = (member: PoolMember, drawIsoDate: string): boolean =>
+  !member.leftFrom || drawIsoDate < member.leftFrom;
+
+export const membersIn = (pool: Pool, drawIsoDate: string): PoolMember[] =>
+  pool.members.filter(m => isMemberIn(m, drawIsoDate));
+
+export const contributionId = (poolId: string, drawIsoDate: string) => `${poolId}|${drawIsoDate}`;
+
+export const listPoolContributions = async (poolId: string): Promise<PoolContribution[]> => {
+  const all = await getAll<PoolContribution>(STORES.POOL_CONTRIBUTIONS);
+  return all.filter(c => c.poolId === poolId).sort((a, b) => a.drawIsoDate.localeCompare(b.drawIsoDate));
+};
+
+export const savePoolContribution = async (poolId: string, drawIsoDate: string, amounts: Record<string, number>): Promise<PoolContribution> => {
+  const record: PoolContribution = { id: contributionId(poolId, drawIsoDate), poolId, drawIsoDate, amounts };
+  await put(STORES.POOL_CONTRIBUTIONS, record);
+  return record;
+};
+
+const toSatang = (baht: number) => Math.round(baht * 100);
+const toBaht = (satang: number) => satang / 100;
+
+// Splits `total` satang by weight with the largest-remainder method, so the parts
+// always sum to `total`. With no positive weight the split is even.
+export const apportion = (total: number, weights: number[]): number[] => {
+  if (weights.length === 0) return [];
+  const positive = weights.map(w => Math.max(0, w));
+  const sum = positive.reduce((a, b) => a + b, 0);
+  const basis = sum > 0 ? positive : positive.map(() => 1);
+  const basisSum = sum > 0 ? sum : basis.length;
+
+  const exact = basis.map(w => (total * w) / basisSum);
+  const parts = exact.map(Math.floor);
+  let left = total - parts.reduce((a, b) => a + b, 0);
+  exact
+    .map((value, i) => ({ i, remainder: value - parts[i] }))
+    .sort((a, b) => b.remainder - a.remainder || a.i - b.i)
+    .forEach(({ i }) => {
+      if (left-- > 0) parts[i]++;
+    });
+  return parts;
+};
+
+// Statements for every draw with contributions or pool tickets, oldest first.
+// Later draws depend on earlier ones through the carried-over balances. A member
+// who left keeps the balance carried out of their last draw; it is not shared out.
+export const buildPoolStatements = (pool: Pool, contributions: PoolContribution[], entries: LedgerEntry[]): PoolStatement[] => {
+  const tickets = entries.filter(e => e.poolId === pool.id);
+  const draws = [...new Set([...contributions.map(c => c.drawIsoDate), ...tickets.map(t => t.drawIsoDate)])].sort();
+  const contributionsByDraw = new Map(contributions.map(c => [c.drawIsoDate, c]));
+  const balances = new Map(pool.members.map(m => [m.id, 0]));   // Satang
+
+  return draws.map(drawIsoDate => {
+    const drawTickets = tickets.filter(t => t.drawIsoDate === drawIsoDate);
+    const spend = drawTickets.reduce((sum, t) => sum + toSatang(t.pricePaid) * t.quantity, 0);
+    const winnings = drawTickets.reduce((sum, t) => sum + toSatang(t.result?.winnings || 0), 0);
+    const amounts = contributionsByDraw.get(drawIsoDate)?.amounts || {};
+
+    const active = membersIn(pool, drawIsoDate);
+    const stakes = active.map(m => balances.get(m.id)! + toSatang(amounts[m.id] || 0));
+    const totalStake = stakes.reduce((a, b) => a + Math.max(0, b), 0);
+    const spendShares = apportion(spend, stakes);
+    const winShares = apportion(winnings, stakes);
+
+    const members: PoolMemberShare[] = active.map((m, i) => {
+      const carriedIn = balances.get(m.id)!;
+      const carriedOut = stakes[i] - spendShares[i];
+      balances.set(m.id, carriedOut);
+      return {
+        memberId: m.id,
+        name: m.name,
+        carriedIn: toBaht(carriedIn),
+        contribution: amounts[m.id] || 0,
+        stake: toBaht(stakes[i]),
+        share: totalStake > 0 ? Math.max(0, stakes[i]) / totalStake : 1 / active.length,
+        spend: toBaht(spendShares[i]),
+        winnings: toBaht(winShares[i]),
+        carriedOut: toBaht(carriedOut),
+      };
+    });
+
+    return {
+      poolId: pool.id,
+      drawIsoDate,
+      tickets: drawTickets,
+      spend: toBaht(spend),
+      winnings: toBaht(winnings),
+      pending: drawTickets.some(t => !t.result),
+      members,
+    };
+  });
+};
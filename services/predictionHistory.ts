@@ -0,0 +1,29 @@
+import { LotterySet, SavedPrediction } from "../types";
+import { STORES, getAll, getOne, newId, put, remove } from "./db";
+
+// Every generated LotterySet is kept locally so it can be found again later.
+
+export const savePrediction = async (set: LotterySet): Promise<SavedPrediction> => {
+  const record: SavedPrediction = { ...set, id: newId(), favorite: false, note: '' };
+  await put(STORES.PREDICTIONS, record);
+  return record;
+};
+
+// Newest first
+export const listPredictions = async (): Promise<SavedPrediction[]> => {
+  const records = await getAll<SavedPrediction>(STORES.PREDICTIONS);
+  return records.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const updatePrediction = async (
+  id: string,
+  changes: Partial<Pick<SavedPrediction, 'favorite' | 'note' | 'score'>>
+): Promise<SavedPrediction | undefined> => {
+  const existing = await getOne<SavedPrediction>(STORES.PREDICTIONS, id);
+  if (!existing) return undefined;
+  const updated = { ...existing, ...changes };
+  await put(STORES.PREDICTIONS, updated);
+  return updated;
+};
+
+export const deletePrediction = (id: string): Promise<void> => remove(STORES.PREDICTIONS, id);
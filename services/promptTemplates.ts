@@ -0,0 +1,148 @@
+import { AITask, GameId, PastDraw, PromptTemplate, PromptTemplateRef, PromptTemplateVersion } from "../types";
+import { GAMES } from "./games";
+
+// Prompt templates for every model task. The built-in text below is version 1;
+// edits are kept by the API server (server/promptStore.ts) as new versions.
+// Templates use {variables}, filled in when the prompt is sent.
+
+export const CUSTOM_PREFIX = 'custom:';
+export const MAX_PROMPT_LENGTH = 10_000;
+export const RECENT_DRAWS_COUNT = 10;
+
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  drawDate: 'วันออกรางวัลงวดถัดไป เช่น 16 มีนาคม 2568',
+  gameName: 'ชื่อเกมสำหรับโมเดล (ภาษาอังกฤษ)',
+  gameNameThai: 'ชื่อเกมภาษาไทย',
+  gurus: 'รายชื่อสำนักดังที่ติดตาม',
+  recentDraws: `ผลรางวัลล่าสุด ${RECENT_DRAWS_COUNT} งวด งวดละบรรทัด`,
+  layout: 'รูปแบบชุดเลขที่ต้องตอบตามเกม',
+  resultFields: 'รายการผลรางวัลที่ต้องค้นหาตามเกม',
+  summary: 'สรุปสถิติที่คำนวณในเครื่อง',
+  figures: 'ตัวเลขประกอบสถิติ บรรทัดละรายการ',
+};
+
+const COMMON_VARIABLES = ['drawDate', 'gameName', 'gameNameThai', 'gurus', 'recentDraws'];
+
+export const VARIABLES_BY_TASK: Record<AITask, string[]> = {
+  luckyNumbers: [...COMMON_VARIABLES, 'layout'],
+  phraseHistory: [...COMMON_VARIABLES, 'summary', 'figures'],
+  latestDraw: [...COMMON_VARIABLES, 'resultFields'],
+  guruStats: COMMON_VARIABLES,
+  dreamInterpretation: [],
+};
+
+const builtIn = (
+  id: string,
+  label: string,
+  description: string,
+  task: AITask,
+  prompt: string,
+  systemInstruction = ''
+): PromptTemplate => ({
+  id,
+  label,
+  description,
+  task,
+  custom: false,
+  versions: [{ version: 1, prompt, systemInstruction, note: 'ค่าเริ่มต้น', savedAt: 0 }],
+});
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  builtIn(
+    'AI',
+    'AI คำนวณ',
+    'โหมด AI: ให้โมเดลสร้างชุดเลข',
+    'luckyNumbers',
+    `Generate a definite set of lucky numbers for the {gameName} draw on {drawDate}. I need {layout}. Focus your mystical energy on the specific date {drawDate} to produce the most auspicious numbers. Populate the 'sources' field with "Astrology", "Numerology", or "Dream Interpretation".`,
+    "You are a mystical fortune teller using numerology and astrology."
+  ),
+  builtIn(
+    'GURU',
+    'รวมเลขสำนักดัง',
+    'โหมดสำนักดัง: ให้โมเดลรวมเลขจากสำนักต่าง ๆ เป็นชุดเดียว',
+    'luckyNumbers',
+    `Aggregate predictions for the upcoming {gameName} draw on {drawDate} from famous sources: {gurus}. Simulate the consensus of these gurus for the specific date of {drawDate}. Calculate a confidence percentage based on overlapping numbers. Return the definite set of numbers for this date: {layout}. Populate the 'sources' field with the specific names of the gurus or entities that most influenced this set of numbers.`,
+    "You are an expert Thai Lottery aggregator who tracks famous spiritual figures, monks, and supernatural sources."
+  ),
+  builtIn(
+    'HISTORY',
+    'สถิติย้อนหลัง',
+    'โหมดสถิติ: เรียบเรียงบทวิเคราะห์ที่คำนวณแล้ว ตัวเลขไม่ได้มาจากโมเดล',
+    'phraseHistory',
+    `Rewrite the following Thai lottery statistics summary as 2-3 clear sentences in Thai. Do not add, remove or change any number, and do not make predictions beyond what is stated.
+
+Summary: {summary}
+
+Figures:
+{figures}`,
+    "You are a professional data analyst who explains computed lottery statistics without inventing figures."
+  ),
+  builtIn(
+    'LATEST_DRAW',
+    'ค้นหาผลรางวัลล่าสุด',
+    'ค้นหาผลรางวัลงวดล่าสุดจากเว็บ ใช้ร่วมกันทุกผู้ใช้',
+    'latestDraw',
+    `Find the official results for the most recent {gameName} draw (ผล{gameNameThai} งวดล่าสุด). Return the draw date in Thai (e.g. 16 มีนาคม 2568), {resultFields}. Return strictly in JSON format.`
+  ),
+  builtIn(
+    'GURU_STATS',
+    'ค้นหาเลขเด็ดสำนักดัง',
+    'ค้นหาเลขเด็ดและผลงานของแต่ละสำนักจากเว็บ ใช้ร่วมกันทุกผู้ใช้',
+    'guruStats',
+    `Analyze famous Thai prediction sources for the upcoming {gameName} draw on {drawDate}.
+Sources: {gurus}.
+
+For each source, provide:
+1. Name, exactly as written in the list above
+2. Alias/Style (e.g. "ธูปปู่", "ใบแนวทาง", "AI คำนวณ")
+3. The accuracy percentage the source itself publicly claims, or 0 if it does not publish one. Do not estimate or invent this figure.
+4. A list of 2 recent "wins" or correct predictions (Date, Prize Type like '2 ตัวล่าง', Number as digits only). Crucial: Search for actual recent wins from the last 1-3 draws. Leave the list empty rather than guessing.
+5. A short description string.
+6. "nextDrawPrediction": Find or predict their lucky numbers for {drawDate}.
+   - "topPick": The single most prominent number (2 or 3 digits).
+   - "secondary": An array of 2-3 other lucky numbers they are giving (2 or 3 digits each).
+
+Return as a JSON array.`
+  ),
+];
+
+export const isCustomTemplate = (id: string): boolean => id.startsWith(CUSTOM_PREFIX);
+
+export const currentVersion = (template: PromptTemplate): PromptTemplateVersion =>
+  template.versions[template.versions.length - 1];
+
+export const templateRef = (template: PromptTemplate): PromptTemplateRef => ({
+  id: template.id,
+  label: template.label,
+  version: currentVersion(template).version,
+});
+
+// Variables used in `text` that the task cannot fill in
+export const unknownVariables = (text: string, task: AITask): string[] =>
+  [...text.matchAll(/\{(\w+)\}/g)]
+    .map(match => match[1])
+    .filter((name, i, all) => !VARIABLES_BY_TASK[task].includes(name) && all.indexOf(name) === i);
+
+// Unknown {names} are left as they are, so JSON examples in a prompt survive
+export const renderTemplate = (text: string, variables: Record<string, string>): string =>
+  text.replace(/\{(\w+)\}/g, (match, name: string) => (name in variables ? variables[name] : match));
+
+// One line of {recentDraws}
+export const formatDrawLine = (draw: PastDraw, game: GameId): string => {
+  const g = GAMES[game];
+  return [
+    `${draw.date}: ${g.prize1.label} ${draw.prize1}`,
+    ...(g.front3 ? [`${g.front3.label} ${draw.front3.join(' ')}`] : []),
+    ...(g.rear3.fromPrize1 ? [] : [`${g.rear3.label} ${draw.rear3.join(' ')}`]),
+    `${g.rear2.label} ${draw.rear2}`,
+  ].join(', ');
+};
+
+// Where templates come from. Built-ins by default; the API server plugs in its store.
+let source: (id: string) => PromptTemplate | undefined = id => BUILT_IN_TEMPLATES.find(t => t.id === id);
+
+export const getTemplate = (id: string): PromptTemplate | undefined => source(id);
+
+export const setTemplateSource = (next: (id: string) => PromptTemplate | undefined): void => {
+  source = next;
+};
@@ -0,0 +1,68 @@
+import { AITask, GuruStat, PastDraw } from "../../types";
+
+// Canned responses replayed by the mock provider. They are plain fixtures,
+// not real results, and are shaped exactly like the real model output.
+
+// Deterministic filler for the long prize lists
+const sixDigitList = (count: number, seed: number): string[] => {
+  let state = seed;
+  return Array.from({ length: count }, () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return (state % 1000000).toString().padStart(6, '0');
+  });
+};
+
+const latestDraw: Omit<PastDraw, 'sourceUrl'> = {
+  date: '1 มีนาคม 2568',
+  prize1: '123456',
+  front3: ['123', '456'],
+  rear3: ['789', '012'],
+  rear2: '34',
+  adjacent1: ['123455', '123457'],
+  prize2: sixDigitList(5, 2),
+  prize3: sixDigitList(10, 3),
+  prize4: sixDigitList(50, 4),
+  prize5: sixDigitList(100, 5),
+};
+
+const guruStats: GuruStat[] = [
+  {
+    id: 'mock-1',
+    name: 'แม่น้ำหนึ่ง',
+    alias: 'ธูปปู่',
+    accuracy: 0,
+    description: 'ข้อมูลจำลองสำหรับพัฒนาแบบออฟไลน์',
+    nextDrawPrediction: { topPick: '78', secondary: ['782', '59'] },
+    wins: [],
+  },
+  {
+    id: 'mock-2',
+    name: 'เจ๊ฟองเบียร์',
+    alias: 'ใบแนวทาง',
+    accuracy: 0,
+    description: 'ข้อมูลจำลองสำหรับพัฒนาแบบออฟไลน์',
+    nextDrawPrediction: { topPick: '34', secondary: ['340', '12'] },
+    wins: [],
+  },
+];
+
+const luckyNumbers = {
+  prize1: '246801',
+  front3: ['135', '579'],
+  rear3: ['246', '680'],
+  rear2: '19',
+  reasoning: 'ชุดตัวเลขจำลองจาก mock provider สำหรับทดสอบโดยไม่ต้องเชื่อมต่อเครือข่าย',
+  confidence: 50,
+  sources: ['Mock fixture'],
+};
+
+export const DEFAULT_FIXTURES: Record<AITask, unknown> = {
+  latestDraw,
+  guruStats,
+  luckyNumbers,
+  phraseHistory: 'สรุปผลการวิเคราะห์สถิติจากข้อมูลจำลอง ตัวเลขทั้งหมดมาจากการคำนวณในเครื่อง',
+  dreamInterpretation: {
+    symbolIds: [],
+    interpretation: 'คำทำนายจำลองจาก mock provider สำหรับทดสอบโดยไม่ต้องเชื่อมต่อเครือข่าย',
+  },
+};
@@ -0,0 +1,95 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { AIProvider, AIRequest, SchemaNode, StructuredRequest } from "../../types";
+
+const GEMINI_MODEL = 'gemini-3-flash-preview';
+
+const TYPE_MAP: Record<SchemaNode['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+};
+
+const toGeminiSchema = (node: SchemaNode): Schema => ({
+  type: TYPE_MAP[node.type],
+  description: node.description,
+  required: node.required,
+  items: node.items ? toGeminiSchema(node.items) : undefined,
+  properties: node.properties
+    ? Object.fromEntries(Object.entries(node.properties).map(([key, child]) => [key, toGeminiSchema(child)]))
+    : undefined,
+});
+
+export const createGeminiProvider = (apiKey: string | undefined): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const structuredConfig = (request: StructuredRequest) => ({
+    systemInstruction: request.systemInstruction,
+    responseMimeType: 'application/json',
+    responseSchema: toGeminiSchema(request.schema),
+    abortSignal: request.signal,
+  });
+
+  return {
+    name: 'gemini',
+
+    async generateStructured<T>(request: StructuredRequest): Promise<T> {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: request.prompt,
+        config: structuredConfig(request),
+      });
+      return JSON.parse(response.text || 'null');
+    },
+
+    async searchGrounded<T>(request: StructuredRequest) {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: request.prompt,
+        config: {
+          ...structuredConfig(request),
+          tools: [{ googleSearch: {} }],
+        },
+      });
+
+      // Extract web sources from grounding metadata
+      const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      const sourceUrls = groundingChunks
+        .map(chunk => chunk.web?.uri)
+        .filter((uri): uri is string => !!uri);
+
+      return { data: JSON.parse(response.text || 'null') as T, sourceUrls };
+    },
+
+    async generateText(request: AIRequest): Promise<string> {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: request.prompt,
+        config: { systemInstruction: request.systemInstruction, abortSignal: request.signal },
+      });
+      return response.text || '';
+    },
+
+    async *streamText(request: AIRequest): AsyncIterable<string> {
+      const stream = await ai.models.generateContentStream({
+        model: GEMINI_MODEL,
+        contents: request.prompt,
+        config: { systemInstruction: request.systemInstruction, abortSignal: request.signal },
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    async *streamStructured(request: StructuredRequest): AsyncIterable<string> {
+      const stream = await ai.models.generateContentStream({
+        model: GEMINI_MODEL,
+        contents: request.prompt,
+        config: structuredConfig(request),
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+};
@@ -0,0 +1,40 @@
+import { AIProvider } from "../../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+
+export { createGeminiProvider, createOpenAICompatibleProvider, createMockProvider };
+
+// AI_PROVIDER selects the implementation: "gemini", "openai" or "mock".
+// Without it, Gemini is used when an API key is configured and the mock otherwise.
+const createDefaultProvider = (): AIProvider => {
+  const geminiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  const choice = process.env.AI_PROVIDER || (geminiKey ? 'gemini' : 'mock');
+
+  switch (choice) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        model: process.env.OPENAI_MODEL || 'llama3.1',
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(geminiKey);
+  }
+};
+
+let provider: AIProvider | null = null;
+
+// Created lazily so importing a service never opens a client
+export const getProvider = (): AIProvider => {
+  if (!provider) provider = createDefaultProvider();
+  return provider;
+};
+
+// Swap the active provider, e.g. to the mock in tests or dev tools
+export const setProvider = (next: AIProvider): void => {
+  provider = next;
+};
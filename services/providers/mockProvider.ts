@@ -0,0 +1,56 @@
+import { AIProvider, AIRequest, AITask, StructuredRequest } from "../../types";
+import { DEFAULT_FIXTURES } from "./fixtures";
+
+// Deterministic provider that replays fixtures by task. Needs no network or API key.
+
+const fixtureFor = (fixtures: Partial<Record<AITask, unknown>>, task: AITask): unknown => {
+  if (!(task in fixtures)) throw new Error(`Mock provider has no fixture for "${task}"`);
+  // Clone so callers can never mutate the shared fixture
+  return JSON.parse(JSON.stringify(fixtures[task]));
+};
+
+// Replays text word by word to exercise streaming consumers, honouring the abort signal
+async function* words(text: string, signal?: AbortSignal): AsyncIterable<string> {
+  for (const word of text.split(/(?<=\s)/)) {
+    signal?.throwIfAborted();
+    yield word;
+  }
+}
+
+const textFor = (fixtures: Partial<Record<AITask, unknown>>, request: AIRequest): string => {
+  const fixture = fixtureFor(fixtures, request.task);
+  return typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+};
+
+export const createMockProvider = (
+  fixtures: Partial<Record<AITask, unknown>> = DEFAULT_FIXTURES
+): AIProvider => ({
+  name: 'mock',
+
+  async generateStructured<T>(request: StructuredRequest): Promise<T> {
+    request.signal?.throwIfAborted();
+    return fixtureFor(fixtures, request.task) as T;
+  },
+
+  async searchGrounded<T>(request: StructuredRequest) {
+    request.signal?.throwIfAborted();
+    return {
+      data: fixtureFor(fixtures, request.task) as T,
+      sourceUrls: [`mock://fixtures/${request.task}`],
+    };
+  },
+
+  async generateText(request: AIRequest): Promise<string> {
+    request.signal?.throwIfAborted();
+    return textFor(fixtures, request);
+  },
+
+  streamText(request: AIRequest): AsyncIterable<string> {
+    return words(textFor(fixtures, request), request.signal);
+  },
+
+  // Pretty-printed so the JSON arrives in several chunks, like a real model's
+  streamStructured(request: StructuredRequest): AsyncIterable<string> {
+    return words(JSON.stringify(fixtureFor(fixtures, request.task), null, 1), request.signal);
+  },
+});
@@ -0,0 +1,97 @@
+import { AIProvider, AIRequest, StructuredRequest } from "../../types";
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself,
+// Ollama (http://localhost:11434/v1), LM Studio, vLLM, llama.cpp server, ...
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+const messages = (request: AIRequest) => [
+  ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+  { role: 'user', content: request.prompt },
+];
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/$/, '');
+
+  const post = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: config.model, ...body }),
+    });
+    if (!response.ok) {
+      throw new Error(`${baseUrl} responded ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  };
+
+  const complete = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<string> => {
+    const json = await (await post(body, signal)).json();
+    return json.choices?.[0]?.message?.content || '';
+  };
+
+  const jsonFormat = (request: StructuredRequest) => ({
+    type: 'json_schema',
+    json_schema: { name: request.task, schema: request.schema },
+  });
+
+  // Server-sent events: one `data: {json}` line per delta, terminated by `data: [DONE]`
+  async function* deltas(body: Record<string, unknown>, signal?: AbortSignal): AsyncIterable<string> {
+    const response = await post({ ...body, stream: true }, signal);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!payload || payload === '[DONE]' || !line.startsWith('data:')) continue;
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+
+  const generateStructured = async <T>(request: StructuredRequest): Promise<T> => {
+    const content = await complete({ messages: messages(request), response_format: jsonFormat(request) }, request.signal);
+    return JSON.parse(content || 'null');
+  };
+
+  return {
+    name: 'openai-compatible',
+
+    generateStructured,
+
+    // These servers have no web search tool, so grounded lookups fall back to
+    // the model's own knowledge and report no sources.
+    async searchGrounded<T>(request: StructuredRequest) {
+      return { data: await generateStructured<T>(request), sourceUrls: [] };
+    },
+
+    async generateText(request: AIRequest): Promise<string> {
+      return complete({ messages: messages(request) }, request.signal);
+    },
+
+    streamText(request: AIRequest): AsyncIterable<string> {
+      return deltas({ messages: messages(request) }, request.signal);
+    },
+
+    streamStructured(request: StructuredRequest): AsyncIterable<string> {
+      return deltas({ messages: messages(request), response_format: jsonFormat(request) }, request.signal);
+    },
+  };
+};
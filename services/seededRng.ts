@@ -0,0 +1,142 @@
+import { DrawInfo, GameId, LotterySet, NumberConstraints } from "../types";
+import { ImpossibleConstraintsError, countCandidates, explainConstraints, hasConstraints, numberLengths, pickCandidates } from "./constraints";
+import { GAMES, drawKey, fitToGame, gameOf } from "./games";
+
+// Reproducible RNG mode. Digits are drawn from SHA-256 of the seed and draw key
+// in counter mode, so anyone holding the seed can regenerate and verify a set.
+// THAI draw keys are plain dates, so THAI sets from before multi-game support still verify.
+
+const SEED_BYTES = 8;
+
+type SetNumbers = Pick<LotterySet, 'prize1' | 'front3' | 'rear3' | 'rear2'>;
+
+// Independent 3-digit numbers; a 3 ตัวบน taken from prize1 is not drawn
+const drawnThrees = (game: GameId): number => {
+  const g = GAMES[game];
+  return (g.front3?.count || 0) + (g.rear3.fromPrize1 ? 0 : g.rear3.count);
+};
+
+// THAI: prize1 6 + front3 2×3 + rear3 2×3 + rear2 2 = 20
+const digitCount = (game: GameId): number => GAMES[game].prize1.digits + drawnThrees(game) * 3 + 2;
+
+// Crypto-random seed as 16 hex characters
+export const createSeed = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(SEED_BYTES)), b => b.toString(16).padStart(2, '0')).join('');
+
+// crypto.subtle only exists in secure contexts: https pages and localhost
+export class InsecureContextError extends Error {
+  constructor() {
+    super('โหมดสุ่มแบบตรวจสอบได้ต้องเปิดแอปผ่าน https หรือ localhost เบราว์เซอร์ไม่เปิดให้ใช้ SHA-256 บนหน้า http');
+    this.name = 'InsecureContextError';
+  }
+}
+
+const sha256 = async (text: string): Promise<Uint8Array> => {
+  if (!globalThis.crypto?.subtle) throw new InsecureContextError();
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+};
+
+// Bytes of 250 and above are skipped so every digit is equally likely
+export const seededDigits = async (seed: string, key: string, count: number): Promise<string> => {
+  let digits = '';
+  for (let block = 0; digits.length < count; block++) {
+    for (const byte of await sha256(`${seed}|${key}|${block}`)) {
+      if (byte < 250 && digits.length < count) digits += byte % 10;
+    }
+  }
+  return digits;
+};
+
+// Uniform integers below `max` from the same hash construction, kept apart from
+// seededDigits by the "pick" label. Rejection sampling avoids modulo bias.
+const createSeededRandom = (seed: string, key: string) => {
+  let block = 0;
+  let buffer = new Uint8Array(0);
+  let pos = 0;
+
+  const nextByte = async (): Promise<number> => {
+    if (pos >= buffer.length) {
+      buffer = await sha256(`${seed}|${key}|pick|${block++}`);
+      pos = 0;
+    }
+    return buffer[pos++];
+  };
+
+  const below = async (max: number): Promise<number> => {
+    const limit = Math.floor(2 ** 32 / max) * max;
+    for (;;) {
+      let value = 0;
+      for (let i = 0; i < 4; i++) value = value * 256 + await nextByte();
+      if (value < limit) return value % max;
+    }
+  };
+
+  return { below };
+};
+
+// Each number is the n-th valid candidate for its length, with n drawn from the seed
+const pickConstrained = async (seed: string, key: string, c: NumberConstraints, game: GameId): Promise<SetNumbers> => {
+  const reasons = explainConstraints(c, game);
+  if (reasons.length > 0) throw new ImpossibleConstraintsError(reasons);
+
+  const totals: Record<number, number> = Object.fromEntries(numberLengths(game).map(({ length }) => [length, countCandidates(length, c)]));
+  const empty = numberLengths(game).filter(({ length }) => totals[length] === 0);
+  if (empty.length > 0) {
+    throw new ImpossibleConstraintsError(empty.map(({ label }) => `ไม่มี${label}ที่ตรงทุกเงื่อนไขพร้อมกัน`));
+  }
+
+  const random = createSeededRandom(seed, key);
+  const pick = async (length: number, count: number) => {
+    const ranks: number[] = [];
+    for (let i = 0; i < count; i++) ranks.push(await random.below(totals[length]));
+    return pickCandidates(length, c, ranks);
+  };
+
+  const [prize1] = await pick(GAMES[game].prize1.digits, 1);
+  const threes = drawnThrees(game) > 0 ? await pick(3, drawnThrees(game)) : [];
+  const [rear2] = await pick(2, 1);
+  return splitThrees(game, prize1, threes, rear2);
+};
+
+// Front 3 takes the first of the drawn 3-digit numbers, rear 3 the rest or prize1's tail
+const splitThrees = (game: GameId, prize1: string, threes: string[], rear2: string): SetNumbers => {
+  const front3Count = GAMES[game].front3?.count || 0;
+  return fitToGame({ prize1, front3: threes.slice(0, front3Count), rear3: threes.slice(front3Count), rear2 }, game);
+};
+
+// Without constraints, digits are used in display order: prize1, front3, rear3, rear2
+export const buildSeededSet = async (
+  seed: string,
+  draw: DrawInfo,
+  constraints?: NumberConstraints
+): Promise<LotterySet> => {
+  const constrained = constraints && hasConstraints(constraints) ? constraints : undefined;
+  const key = drawKey(draw.game, draw.isoDate);
+  let numbers: SetNumbers;
+
+  if (constrained) {
+    numbers = await pickConstrained(seed, key, constrained, draw.game);
+  } else {
+    const d = await seededDigits(seed, key, digitCount(draw.game));
+    const p1 = GAMES[draw.game].prize1.digits;
+    const threes = Array.from({ length: drawnThrees(draw.game) }, (_, i) => d.slice(p1 + i * 3, p1 + i * 3 + 3));
+    numbers = splitThrees(draw.game, d.slice(0, p1), threes, d.slice(-2));
+  }
+
+  return {
+    ...numbers,
+    game: draw.game,
+    source: 'RNG',
+    seed,
+    constraints: constrained,
+    drawDate: draw.label,
+    drawIsoDate: draw.isoDate,
+    timestamp: Date.now()
+  };
+};
+
+// All numbers of a set as one digit string, in the same order the digits are drawn
+export const setDigits = (set: SetNumbers & Pick<LotterySet, 'game'>): string => {
+  const rear3 = GAMES[gameOf(set)].rear3.fromPrize1 ? [] : set.rear3;
+  return [set.prize1, ...set.front3, ...rear3, set.rear2].join('');
+};
@@ -0,0 +1,160 @@
+import { GameId, HistoryStats, LotterySet, NumberStat, StoredDraw } from "../types";
+import { DEFAULT_GAME, GAMES, fitToGame } from "./games";
+import { THAI_MONTHS } from "./thaiDate";
+
+// Deterministic statistics over the local draw archive. Everything here is pure:
+// the same draws and target date always produce the same numbers.
+
+export const RECENT_WINDOW = 24; // ~1 year of draws
+const TOP_N = 5;
+
+export class InsufficientHistoryError extends Error {
+  constructor() {
+    super("ยังไม่มีข้อมูลผลรางวัลย้อนหลังในเครื่อง กรุณานำเข้าไฟล์ผลรางวัลในส่วน 'คลังผลรางวัลย้อนหลัง' ก่อน");
+    this.name = 'InsufficientHistoryError';
+  }
+}
+
+// counts[position][digit] across all numbers of the given length
+export const positionCounts = (numbers: string[], length: number): number[][] => {
+  const counts = Array.from({ length }, () => Array(10).fill(0));
+  numbers
+    .filter(n => n.length === length)
+    .forEach(n => n.split('').forEach((d, pos) => counts[pos][+d]++));
+  return counts;
+};
+
+// Digits ordered by frequency, ties broken by the smaller digit
+export const rankDigits = (counts: number[]): number[] =>
+  counts
+    .map((count, digit) => ({ count, digit }))
+    .sort((a, b) => b.count - a.count || a.digit - b.digit)
+    .map(d => d.digit);
+
+const pickByRank = (positions: number[][], rank: number): string =>
+  positions.map(counts => rankDigits(counts)[rank]).join('');
+
+// `draws` must be sorted newest first
+const rear2Stats = (draws: StoredDraw[]): NumberStat[] =>
+  Array.from({ length: 100 }, (_, i) => {
+    const number = i.toString().padStart(2, '0');
+    const gapIdx = draws.findIndex(d => d.rear2 === number);
+    return {
+      number,
+      count: draws.filter(d => d.rear2 === number).length,
+      gap: gapIdx === -1 ? null : gapIdx,
+    };
+  });
+
+export const computeHistoryStats = (archive: StoredDraw[], targetIsoDate: string, game: GameId = DEFAULT_GAME): HistoryStats => {
+  // Only draws strictly before the target count, so backdated targets are not contaminated
+  const draws = archive
+    .filter(d => d.game === game && d.isoDate < targetIsoDate)
+    .sort((a, b) => b.isoDate.localeCompare(a.isoDate));
+
+  if (draws.length === 0) throw new InsufficientHistoryError();
+
+  const recent = draws.slice(0, RECENT_WINDOW);
+  const allStats = rear2Stats(draws);
+  const recentStats = rear2Stats(recent);
+
+  const hot = [...recentStats]
+    .filter(s => s.count > 0)
+    .sort((a, b) => b.count - a.count || a.number.localeCompare(b.number))
+    .slice(0, TOP_N);
+
+  // Never-drawn numbers are the coldest of all
+  const gapValue = (s: NumberStat) => (s.gap === null ? Infinity : s.gap);
+  const cold = [...allStats]
+    .sort((a, b) => gapValue(b) - gapValue(a) || a.number.localeCompare(b.number))
+    .slice(0, TOP_N);
+
+  const monthDay = targetIsoDate.slice(5);
+  const [month, day] = monthDay.split('-').map(Number);
+
+  return {
+    drawCount: draws.length,
+    firstDate: draws[draws.length - 1].isoDate,
+    lastDate: draws[0].isoDate,
+    recentWindow: recent.length,
+    prize1Positions: positionCounts(draws.map(d => d.prize1), GAMES[game].prize1.digits),
+    front3Positions: positionCounts(draws.flatMap(d => d.front3), 3),
+    rear3Positions: positionCounts(draws.flatMap(d => d.rear3), 3),
+    rear2Stats: allStats,
+    recentRear2Stats: recentStats,
+    hot,
+    cold,
+    sameDayLabel: `${day} ${THAI_MONTHS[month - 1]}`,
+    sameDayDraws: draws.filter(d => d.isoDate.slice(5) === monthDay),
+  };
+};
+
+// Rear 2 score: recent frequency plus a double weight for same-calendar-day draws.
+// Ties go to the higher all-time count, then the lower number.
+export const rankRear2 = (stats: HistoryStats): (NumberStat & { recent: number; sameDay: number; score: number })[] => {
+  return stats.rear2Stats
+    .map((s, i) => {
+      const sameDay = stats.sameDayDraws.filter(d => d.rear2 === s.number).length;
+      const recent = stats.recentRear2Stats[i].count;
+      return { ...s, recent, sameDay, score: recent + 2 * sameDay };
+    })
+    .sort((a, b) => b.score - a.score || b.count - a.count || a.number.localeCompare(b.number));
+};
+
+const describePositions = (positions: number[][]): string =>
+  positions
+    .map((counts, pos) => {
+      const top = rankDigits(counts)[0];
+      return `หลักที่ ${pos + 1}: ${top} (${counts[top]} ครั้ง)`;
+    })
+    .join(', ');
+
+const describeGap = (s: NumberStat) => (s.gap === null ? 'ไม่เคยออก' : `ไม่ออก ${s.gap} งวด`);
+
+// Build the set and the citations for every figure used to choose it.
+// 3-digit slots taken from prize1 (3 ตัวบน) follow the prize1 pick.
+export const buildHistorySet = (
+  stats: HistoryStats,
+  drawDate: string,
+  game: GameId = DEFAULT_GAME
+): Pick<LotterySet, 'game' | 'prize1' | 'front3' | 'rear3' | 'rear2' | 'reasoning' | 'sources' | 'drawDate' | 'source'> => {
+  const g = GAMES[game];
+  const rear2 = rankRear2(stats)[0];
+  const byRank = (positions: number[][], count: number) => Array.from({ length: count }, (_, rank) => pickByRank(positions, rank));
+  const numbers = fitToGame({
+    prize1: pickByRank(stats.prize1Positions, 0),
+    front3: byRank(stats.front3Positions, g.front3?.count || 0),
+    rear3: byRank(stats.rear3Positions, g.rear3.count),
+    rear2: rear2.number,
+  }, game);
+
+  const sameDayRear2 = stats.sameDayDraws.map(d => d.rear2);
+
+  const sources = [
+    `คลังผลรางวัล${g.shortName} ${stats.drawCount} งวด (${stats.firstDate} ถึง ${stats.lastDate})`,
+    `ความถี่รายหลัก${g.prize1.label}: ${describePositions(stats.prize1Positions)}`,
+    ...(g.front3 ? [`ความถี่รายหลัก${g.front3.label}: ${describePositions(stats.front3Positions)}`] : []),
+    ...(g.rear3.fromPrize1 ? [] : [`ความถี่รายหลัก${g.rear3.label}: ${describePositions(stats.rear3Positions)}`]),
+    `${g.rear2.label}ร้อน (${stats.recentWindow} งวดล่าสุด): ${stats.hot.map(s => `${s.number}×${s.count}`).join(', ') || '-'}`,
+    `${g.rear2.label}เย็น: ${stats.cold.map(s => `${s.number} (${describeGap(s)})`).join(', ')}`,
+    `งวดวันที่ ${stats.sameDayLabel} ย้อนหลัง ${stats.sameDayDraws.length} งวด: ${g.rear2.label} ${sameDayRear2.join(', ') || '-'}`,
+  ];
+
+  const reasoning = [
+    `วิเคราะห์จากผล${g.name}จริง ${stats.drawCount} งวดในคลังข้อมูล`,
+    `${g.prize1.label} ใช้เลขที่ออกบ่อยที่สุดในแต่ละหลัก ได้ ${numbers.prize1}`,
+    g.rear3.fromPrize1
+      ? `${g.rear3.label} คือ 3 หลักท้ายของ${g.prize1.label}`
+      : `เลขหน้า/ท้าย 3 ตัว ใช้เลขอันดับ 1 และ 2 ของแต่ละหลัก`,
+    `${g.rear2.label} ${rear2.number} ได้คะแนน ${rear2.score} (ออก ${rear2.recent} ครั้งใน ${stats.recentWindow} งวดล่าสุด, ออกในงวดวันที่ ${stats.sameDayLabel} ${rear2.sameDay} ครั้ง, ${describeGap(rear2)})`,
+  ].join(' ');
+
+  return {
+    ...numbers,
+    game,
+    reasoning,
+    sources,
+    drawDate,
+    source: 'HISTORY',
+  };
+};
@@ -0,0 +1,66 @@
+// Helpers for converting between Thai display dates ("16 มีนาคม 2568")
+// and ISO dates ("2025-03-16") used as stable keys.
+
+export const THAI_MONTHS = [
+  'มกราคม', 'กุมภาพันธ์', 'มีนาคม', 'เมษายน', 'พฤษภาคม', 'มิถุนายน',
+  'กรกฎาคม', 'สิงหาคม', 'กันยายน', 'ตุลาคม', 'พฤศจิกายน', 'ธันวาคม'
+];
+
+export const THAI_MONTHS_SHORT = [
+  'ม.ค.', 'ก.พ.', 'มี.ค.', 'เม.ย.', 'พ.ค.', 'มิ.ย.',
+  'ก.ค.', 'ส.ค.', 'ก.ย.', 'ต.ค.', 'พ.ย.', 'ธ.ค.'
+];
+
+const BE_OFFSET = 543;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export const toIsoDate = (year: number, month: number, day: number): string =>
+  `${year}-${pad(month)}-${pad(day)}`;
+
+// Buddhist Era years are > 2400; two-digit years are treated as BE (68 -> 2568).
+const normalizeYear = (year: number): number => {
+  if (year < 100) year += 2500;
+  return year > 2400 ? year - BE_OFFSET : year;
+};
+
+const isValidDay = (year: number, month: number, day: number): boolean => {
+  if (month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+// Accepts "2025-03-16", "16/03/2568", "16 มีนาคม 2568" or "16 มี.ค. 68".
+// Returns null when the string cannot be read as a calendar date.
+export const parseThaiDate = (input: string): string | null => {
+  const text = input.trim();
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    const [year, month, day] = [normalizeYear(+match[1]), +match[2], +match[3]];
+    return isValidDay(year, month, day) ? toIsoDate(year, month, day) : null;
+  }
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (match) {
+    const [day, month, year] = [+match[1], +match[2], normalizeYear(+match[3])];
+    return isValidDay(year, month, day) ? toIsoDate(year, month, day) : null;
+  }
+
+  match = text.match(/^(\d{1,2})\s*(\S+?)\s*(\d{2,4})$/);
+  if (match) {
+    const monthName = match[2].replace(/\s/g, '');
+    let monthIdx = THAI_MONTHS.indexOf(monthName);
+    if (monthIdx === -1) monthIdx = THAI_MONTHS_SHORT.indexOf(monthName);
+    if (monthIdx === -1) return null;
+    const [day, month, year] = [+match[1], monthIdx + 1, normalizeYear(+match[3])];
+    return isValidDay(year, month, day) ? toIsoDate(year, month, day) : null;
+  }
+
+  return null;
+};
+
+// "2025-03-16" -> "16 มีนาคม 2568"
+export const formatThaiDate = (isoDate: string): string => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return `${day} ${THAI_MONTHS[month - 1]} ${year + BE_OFFSET}`;
+};
@@ -0,0 +1,58 @@
+import { GameId, PastDraw, PrizeHit, PrizeRule, TicketCheckResult } from "../types";
+import { DEFAULT_GAME, GAMES, gameOf } from "./games";
+
+const part = (value: string, rule: PrizeRule) =>
+  rule.from === 'START' ? value.slice(0, rule.digits) : value.slice(-rule.digits);
+
+const fieldValues = (draw: PastDraw, rule: PrizeRule): string[] => {
+  const value = draw[rule.field];
+  return Array.isArray(value) ? value : [value];
+};
+
+// Split free-form input (newlines, commas, spaces) into tickets of the game's
+// lengths: 6 digits for THAI, 2-4 digit bets for the betting games.
+// Anything else is returned separately so the UI can flag it.
+export const parseTickets = (input: string, game: GameId = DEFAULT_GAME): { tickets: string[]; invalid: string[] } => {
+  const tokens = input.split(/[\s,;]+/).map(t => t.replace(/-/g, '')).filter(Boolean);
+  const lengths = GAMES[game].ticketLengths;
+  const tickets: string[] = [];
+  const invalid: string[] = [];
+
+  tokens.forEach(token => {
+    if (/^\d+$/.test(token) && lengths.includes(token.length)) {
+      if (!tickets.includes(token)) tickets.push(token);
+    } else {
+      invalid.push(token);
+    }
+  });
+
+  return { tickets, invalid };
+};
+
+// A ticket may win several prizes at once (e.g. prize 1 also matches rear 2),
+// so every matching tier is returned. In betting games a number only plays the
+// prizes of its own length, e.g. "57" is both a 2 ตัวบน and a 2 ตัวล่าง bet.
+export const checkTicket = (ticket: string, draw: PastDraw, game: GameId = gameOf(draw)): TicketCheckResult => {
+  const g = GAMES[game];
+  const hits: PrizeHit[] = [];
+
+  g.prizes
+    .filter(rule => (g.betting ? ticket.length === rule.digits : ticket.length >= rule.digits))
+    .forEach(rule => {
+      fieldValues(draw, rule)
+        .filter(value => value.length >= rule.digits && part(value, rule) === part(ticket, rule))
+        .forEach(() => hits.push({ type: rule.type, label: rule.label, amount: rule.amount }));
+    });
+
+  return {
+    ticket,
+    hits,
+    total: hits.reduce((sum, h) => sum + h.amount, 0),
+  };
+};
+
+export const checkTickets = (tickets: string[], draw: PastDraw, game: GameId = gameOf(draw)): TicketCheckResult[] =>
+  tickets.map(ticket => checkTicket(ticket, draw, game));
+
+export const formatBaht = (amount: number): string =>
+  `${amount.toLocaleString('th-TH')} บาท`;
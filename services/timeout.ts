@@ -0,0 +1,29 @@
+// Shared by the browser and the API server: runs `run` with a signal that
+// aborts when `signal` does or once `ms` have passed. A timeout surfaces as the
+// error from `timeoutError`, whatever the aborted call itself threw.
+export const withTimeout = async <T>(
+  ms: number,
+  timeoutError: () => Error,
+  run: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(timeoutError()), ms);
+  const forward = () => controller.abort(signal!.reason);
+  if (signal?.aborted) forward();
+  signal?.addEventListener('abort', forward, { once: true });
+
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted && !signal?.aborted) throw controller.signal.reason;
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forward);
+  }
+};
+
+// True for the error a fetch or model call throws once its signal is aborted
+export const isAbortError = (error: unknown, signal?: AbortSignal): boolean =>
+  !!signal?.aborted || (error instanceof Error && error.name === 'AbortError');
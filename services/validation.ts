@@ -0,0 +1,132 @@
+import { GameId, GuruPrediction, GuruStat, LotterySet, PastDraw } from "../types";
+import { DEFAULT_GAME, GAMES } from "./games";
+import { parseThaiDate } from "./thaiDate";
+
+export const isDigits = (value: unknown, length: number): value is string =>
+  typeof value === 'string' && value.length === length && /^\d+$/.test(value);
+
+const checkList = (
+  errors: string[],
+  field: string,
+  value: unknown,
+  digits: number,
+  allowedCounts: number[]
+) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${field}: ต้องเป็นรายการตัวเลข`);
+    return;
+  }
+  if (!allowedCounts.includes(value.length)) {
+    errors.push(`${field}: ต้องมี ${allowedCounts.join(' หรือ ')} รายการ (พบ ${value.length})`);
+  }
+  value.forEach((n, i) => {
+    if (!isDigits(n, digits)) errors.push(`${field}[${i}]: "${n}" ไม่ใช่เลข ${digits} หลัก`);
+  });
+};
+
+// Returns a list of human-readable problems; an empty list means the draw is valid.
+// Prize 2-5 and adjacent lists may be empty when only the headline results are known,
+// and must be empty for games without them.
+// THAI rear 3 allows 4 entries because draws before 2558 had no front 3 and four rear 3 numbers.
+export const validatePastDraw = (draw: Partial<PastDraw>, game: GameId = DEFAULT_GAME): string[] => {
+  const errors: string[] = [];
+  const g = GAMES[game];
+  const p1 = g.prize1.digits;
+
+  if (!draw.date || typeof draw.date !== 'string') errors.push('date: ไม่มีวันที่งวด');
+  if (!isDigits(draw.prize1, p1)) errors.push(`prize1: "${draw.prize1}" ไม่ใช่เลข ${p1} หลัก`);
+  if (!isDigits(draw.rear2, 2)) errors.push(`rear2: "${draw.rear2}" ไม่ใช่เลข 2 หลัก`);
+
+  checkList(errors, 'front3', draw.front3, 3, g.front3 ? [0, g.front3.count] : [0]);
+  checkList(errors, 'rear3', draw.rear3, 3, game === 'THAI' ? [2, 4] : [g.rear3.count]);
+  checkList(errors, 'adjacent1', draw.adjacent1, p1, g.fullTable ? [0, 2] : [0]);
+  checkList(errors, 'prize2', draw.prize2, p1, g.fullTable ? [0, 5] : [0]);
+  checkList(errors, 'prize3', draw.prize3, p1, g.fullTable ? [0, 10] : [0]);
+  checkList(errors, 'prize4', draw.prize4, p1, g.fullTable ? [0, 50] : [0]);
+  checkList(errors, 'prize5', draw.prize5, p1, g.fullTable ? [0, 100] : [0]);
+
+  return errors;
+};
+
+// The latest draw as reported by the model: THAI front 3 exists since 2558, so
+// every 3-digit list must have exactly its game's count, and the date must be readable.
+export const validateLatestDraw = (draw: Partial<PastDraw>, game: GameId = DEFAULT_GAME): string[] => {
+  const errors = validatePastDraw(draw, game);
+  const g = GAMES[game];
+  const front3Count = g.front3?.count || 0;
+
+  if (typeof draw.date === 'string' && !parseThaiDate(draw.date)) {
+    errors.push(`date: "${draw.date}" ไม่ใช่วันที่ที่อ่านได้`);
+  }
+  if (Array.isArray(draw.front3) && draw.front3.length !== front3Count) {
+    errors.push(`front3: ต้องมี ${front3Count} รายการ (พบ ${draw.front3.length})`);
+  }
+  if (Array.isArray(draw.rear3) && draw.rear3.length !== g.rear3.count) {
+    errors.push(`rear3: ต้องมี ${g.rear3.count} รายการ (พบ ${draw.rear3.length})`);
+  }
+
+  return errors;
+};
+
+export const validateLotterySet = (set: Partial<LotterySet>, game: GameId = DEFAULT_GAME): string[] => {
+  const errors: string[] = [];
+  const g = GAMES[game];
+
+  if (!isDigits(set.prize1, g.prize1.digits)) errors.push(`prize1: "${set.prize1}" ไม่ใช่เลข ${g.prize1.digits} หลัก`);
+  if (!isDigits(set.rear2, 2)) errors.push(`rear2: "${set.rear2}" ไม่ใช่เลข 2 หลัก`);
+  checkList(errors, 'front3', set.front3, 3, [g.front3?.count || 0]);
+  checkList(errors, 'rear3', set.rear3, 3, [g.rear3.count]);
+
+  if (typeof set.reasoning !== 'string' || !set.reasoning.trim()) errors.push('reasoning: ไม่มีคำอธิบาย');
+  if (set.confidence !== undefined && set.confidence !== null
+    && (typeof set.confidence !== 'number' || set.confidence < 0 || set.confidence > 100)) {
+    errors.push(`confidence: "${set.confidence}" ต้องเป็นตัวเลข 0-100`);
+  }
+  if (set.sources !== undefined && set.sources !== null
+    && (!Array.isArray(set.sources) || set.sources.some(s => typeof s !== 'string'))) {
+    errors.push('sources: ต้องเป็นรายการข้อความ');
+  }
+
+  return errors;
+};
+
+// Guru picks are 2 or 3 digit numbers; reported wins may be any prize from 2 to 6 digits.
+const isPick = (value: unknown): value is string => isDigits(value, 2) || isDigits(value, 3);
+const isWinNumber = (value: unknown): boolean =>
+  typeof value === 'string' && /^\d{2,6}$/.test(value);
+
+// Looked up or typed in by hand, a guru's picks are checked the same way
+export const validateGuruPrediction = (prediction: Partial<GuruPrediction> | undefined): string[] => {
+  if (!prediction) return ['nextDrawPrediction: ไม่มีเลขงวดนี้'];
+  const errors: string[] = [];
+  if (!isPick(prediction.topPick)) errors.push(`topPick: "${prediction.topPick}" ไม่ใช่เลข 2 หรือ 3 หลัก`);
+  if (!Array.isArray(prediction.secondary)) {
+    errors.push('secondary: ต้องเป็นรายการตัวเลข');
+  } else {
+    prediction.secondary.forEach((n, i) => {
+      if (!isPick(n)) errors.push(`secondary[${i}]: "${n}" ไม่ใช่เลข 2 หรือ 3 หลัก`);
+    });
+  }
+  return errors;
+};
+
+export const validateGuruStat = (guru: Partial<GuruStat>): string[] => {
+  const errors: string[] = [];
+
+  if (typeof guru.name !== 'string' || !guru.name.trim()) errors.push('name: ไม่มีชื่อสำนัก');
+  if (typeof guru.accuracy !== 'number' || guru.accuracy < 0 || guru.accuracy > 100) {
+    errors.push(`accuracy: "${guru.accuracy}" ต้องเป็นตัวเลข 0-100`);
+  }
+
+  errors.push(...validateGuruPrediction(guru.nextDrawPrediction));
+
+  if (!Array.isArray(guru.wins)) {
+    errors.push('wins: ต้องเป็นรายการ');
+  } else {
+    guru.wins.forEach((win, i) => {
+      if (!win || !isWinNumber(win.number)) errors.push(`wins[${i}].number: "${win?.number}" ไม่ใช่ตัวเลข`);
+    });
+  }
+
+  return errors;
+};
@@ -1,23 +1,279 @@
 export interface LotterySet {
-  prize1: string;     // 6 digits
+  game?: GameId;      // Absent for sets saved before multi-game support, which are all THAI
+  prize1: string;     // 6 digits for THAI; other games per their definition
   front3: string[];   // Array of 3 digits (usually 2 numbers)
   rear3: string[];    // Array of 3 digits (usually 2 numbers)
   rear2: string;      // 2 digits
-  source: 'RNG' | 'AI' | 'HISTORY' | 'GURU';
-  reasoning?: string; // Only for AI/HISTORY/GURU
+  source: 'RNG' | 'AI' | 'HISTORY' | 'GURU' | 'DREAM' | 'NUMEROLOGY' | 'CUSTOM';
+  reasoning?: string; // Only for AI/HISTORY/GURU/DREAM/NUMEROLOGY/CUSTOM
+  promptTemplate?: PromptTemplateRef; // Model-generated sets: the prompt version that produced them
   confidence?: number; // Percentage (0-100) for GURU mode
   drawDate?: string;  // The specific date these numbers are predicted for
+  drawIsoDate?: string; // Same draw as YYYY-MM-DD
   sources?: string[]; // List of data sources/gurus consulted
+  seed?: string;      // RNG mode: regenerates the set together with drawIsoDate
+  constraints?: NumberConstraints; // RNG mode: rules the seeded numbers had to satisfy
   timestamp: number;
 }
 
+export type RepeatRule = 'ANY' | 'NO_REPEAT' | 'DOUBLES';
+
+// Rules for constrained RNG sets. They apply to the numbers whose length is in `appliesTo`.
+export interface NumberConstraints {
+  appliesTo: number[];         // Number lengths: prize 1 (6 for THAI), 3 front/rear 3, 2 rear 2
+  excludeDigits: number[];
+  includeDigits: number[];     // Each must appear in every number
+  pinned: (number | null)[];   // [units, tens, hundreds] (หน่วย, สิบ, ร้อย), counted from the right
+  repeat: RepeatRule;          // DOUBLES means at least one digit appears twice (เลขเบิ้ล)
+  sumMin: number | null;       // Digit-sum range, inclusive
+  sumMax: number | null;
+  avoidRecentDraws: number;    // Skip numbers from the last N stored draws; 0 turns it off
+  avoidNumbers?: string[];     // Those numbers, resolved when the set was generated
+}
+
+export interface SavedPrediction extends LotterySet {
+  id: string;
+  favorite: boolean;
+  note: string;
+  score?: PredictionScore; // Filled in once the draw result is in the archive
+}
+
+export interface PredictionScore {
+  drawIsoDate: string;
+  prizeHits: PrizeHit[];  // Prizes the predicted prize1 would have won as a ticket
+  digitMatches: number;   // Positions of prize1 matching the actual prize1 (0-6 for THAI)
+  front3Hits: number;     // Predicted front 3 numbers found in the actual front 3
+  rear3Hits: number;      // Predicted rear 3 numbers found in the actual rear 3
+  rear2Hit: boolean;
+  scoredAt: number;
+  drawSavedAt?: number;   // savedAt of the archived draw it was scored against, see StoredDraw
+}
+
+export interface ModeBacktest {
+  mode: string;
+  sets: number;
+  draws: number;
+  prizeHitRate: number;       // Share of sets whose prize1 won any prize
+  rear2HitRate: number;
+  threeDigitHitsPerSet: number;
+  avgDigitMatches: number;
+}
+
+export type GameId = 'THAI' | 'LAO' | 'HANOI' | 'HANOI_SPECIAL' | 'HANOI_VIP' | 'GSB';
+
+export type DrawSchedule =
+  | { kind: 'THAI_GOVERNMENT' }                   // 1st and 16th, moved by the override rules in drawCalendar
+  | { kind: 'MONTH_DAYS'; days: number[] }        // Fixed days of every month
+  | { kind: 'WEEKDAYS'; weekdays: number[] };     // 0 = Sunday … 6 = Saturday
+
+// How one prize is matched: the same number of digits is taken from the start
+// or end of both the player's number and each number in the draw field.
+export interface PrizeRule {
+  type: PrizeType;
+  label: string;
+  amount: number;
+  field: 'prize1' | 'adjacent1' | 'prize2' | 'prize3' | 'prize4' | 'prize5' | 'front3' | 'rear3' | 'rear2';
+  digits: number;
+  from: 'START' | 'END';
+}
+
+// Everything that differs between lottery games. Results and sets keep the
+// LotterySet/PastDraw shape; a game says which of those slots it uses and what they are called.
+export interface GameDefinition {
+  id: GameId;
+  name: string;                 // Thai display name
+  shortName: string;
+  schedule: DrawSchedule;
+  drawTime: { hour: number; minute: number };   // Asia/Bangkok
+  salesCloseMinutes: number;    // How long before the draw tickets or bets stop being sold
+  salesCloseLabel: string;
+  prize1: { label: string; digits: number };
+  front3: { label: string; count: number } | null;
+  rear3: { label: string; count: number; fromPrize1: boolean };  // fromPrize1: the last 3 digits of prize1 (3 ตัวบน)
+  rear2: { label: string };
+  fullTable: boolean;           // Prize 2-5 and the adjacent numbers exist (THAI only)
+  betting: boolean;             // Players pick 2-4 digit numbers per prize instead of buying whole tickets
+  ticketLengths: number[];      // Number lengths the checker accepts
+  prizes: PrizeRule[];
+  officialSource: string;
+  prompt: { name: string; results: string; layout: string };   // English wording for model prompts
+}
+
+export interface DrawInfo {
+  game: GameId;
+  isoDate: string; // YYYY-MM-DD in Asia/Bangkok
+  at: Date;        // Draw start instant (16:00 Bangkok for THAI)
+  iso: string;     // `at` as an ISO 8601 timestamp
+  label: string;   // Thai display string, e.g. "16 มีนาคม 2568"
+}
+
 export interface PastDraw {
+  game?: GameId;       // Absent means THAI
   date: string;
   prize1: string;
   front3: string[];
   rear3: string[];
   rear2: string;
+  adjacent1: string[]; // 2 numbers either side of prize 1 (ข้างเคียงรางวัลที่ 1)
+  prize2: string[];    // 5 numbers
+  prize3: string[];    // 10 numbers
+  prize4: string[];    // 50 numbers
+  prize5: string[];    // 100 numbers
   sourceUrl?: string;
+  degraded?: boolean;  // True when no valid results could be fetched; the number fields are empty
+}
+
+export interface StoredDraw extends PastDraw {
+  id: string;                  // Primary key in the local archive, see drawKey()
+  game: GameId;
+  isoDate: string;             // YYYY-MM-DD
+  origin: 'IMPORT' | 'FETCH';  // How the record entered the archive
+  savedAt: number;
+}
+
+export interface ImportSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+  errors: string[];
+}
+
+export type PrizeType =
+  | 'PRIZE1'
+  | 'ADJACENT1'
+  | 'PRIZE2'
+  | 'PRIZE3'
+  | 'PRIZE4'
+  | 'PRIZE5'
+  | 'FRONT3'
+  | 'REAR3'
+  | 'REAR2'
+  | 'DIGIT4'    // Betting games: 4 ตัวตรง
+  | 'TOP3'      // 3 ตัวบน
+  | 'TOP2'      // 2 ตัวบน
+  | 'BOTTOM2';  // 2 ตัวล่าง
+
+export interface PrizeHit {
+  type: PrizeType;
+  label: string;
+  amount: number; // Baht per ticket, or per baht staked in betting games
+}
+
+export interface TicketCheckResult {
+  ticket: string;
+  hits: PrizeHit[];
+  total: number;
+}
+
+// A ticket actually bought, recorded in the purchase ledger
+export interface LedgerEntry {
+  id: string;
+  drawIsoDate: string;
+  number: string;       // 6 digits
+  quantity: number;
+  pricePaid: number;    // Baht per ticket actually paid; often above the 80-baht face value
+  place: string;        // Where it was bought, e.g. a vendor or the official app
+  poolId?: string;      // Set when the ticket was bought with a group pool's money
+  createdAt: number;
+  result?: LedgerResult; // Filled in once the draw result is in the archive
+}
+
+export interface LedgerResult {
+  hits: PrizeHit[];     // Prizes won per ticket
+  winnings: number;     // For the whole quantity
+  checkedAt: number;
+  drawSavedAt?: number; // savedAt of the archived draw it was checked against, see StoredDraw
+}
+
+// Ledger totals for one draw, with running totals up to and including it
+export interface LedgerPeriod {
+  drawIsoDate: string;
+  tickets: number;
+  spend: number;
+  winnings: number;
+  net: number;
+  roi: number | null;   // net / spend, null when nothing was spent or results are pending
+  pending: number;      // Entries still waiting for the draw result
+  cumulativeSpend: number;
+  cumulativeWinnings: number;
+  cumulativeNet: number;
+  cumulativeRoi: number | null;
+}
+
+// A buying group (กองกลาง). Amounts are in baht.
+export interface Pool {
+  id: string;
+  name: string;
+  members: PoolMember[];
+  updatedAt: number;
+}
+
+export interface PoolMember {
+  id: string;
+  name: string;
+  leftFrom?: string;     // First draw (ISO date) the member is no longer in; earlier statements still include them
+}
+
+// What each member put in for one draw; keyed by pool and draw
+export interface PoolContribution {
+  id: string;            // `${poolId}|${drawIsoDate}`
+  poolId: string;
+  drawIsoDate: string;
+  amounts: Record<string, number>;   // Member id to baht
+}
+
+// One member's line in a draw statement
+export interface PoolMemberShare {
+  memberId: string;
+  name: string;
+  carriedIn: number;     // Balance left from earlier draws; negative means the member owes the pool
+  contribution: number;
+  stake: number;         // carriedIn + contribution, which sets the member's share
+  share: number;         // Fraction of the pool, 0-1
+  spend: number;         // Share of the tickets bought
+  winnings: number;      // Share of the prizes, paid out
+  carriedOut: number;    // stake - spend, kept for the next draw
+}
+
+export interface PoolStatement {
+  poolId: string;
+  drawIsoDate: string;
+  tickets: LedgerEntry[];
+  spend: number;
+  winnings: number;
+  pending: boolean;      // Some tickets are still waiting for the draw result
+  members: PoolMemberShare[];
+}
+
+// Opt-in browser notifications, kept in localStorage
+export interface NotificationSettings {
+  enabled: boolean;
+  salesReminder: boolean;     // Before ticket sales close
+  reminderLeadHours: number;
+  results: boolean;           // New results, plus wins on saved tickets and favorite predictions
+}
+
+export interface NumberStat {
+  number: string;
+  count: number;
+  gap: number | null; // Draws since last appearance (0 = latest draw), null if never drawn
+}
+
+export interface HistoryStats {
+  drawCount: number;
+  firstDate: string;
+  lastDate: string;
+  recentWindow: number;
+  // counts[position][digit]
+  prize1Positions: number[][];
+  front3Positions: number[][];
+  rear3Positions: number[][];
+  rear2Stats: NumberStat[];  // All 100 two-digit numbers, whole archive
+  recentRear2Stats: NumberStat[]; // All 100 two-digit numbers, recent window only
+  hot: NumberStat[];         // Most frequent rear 2 in the recent window
+  cold: NumberStat[];        // Longest-absent rear 2
+  sameDayLabel: string;      // e.g. "16 มกราคม"
+  sameDayDraws: PastDraw[];
 }
 
 export interface WinRecord {
@@ -35,17 +291,147 @@ export interface GuruStat {
   id: string;
   name: string;
   alias: string;
-  accuracy: number;
-  wins: WinRecord[];
+  accuracy: number;    // Accuracy claimed by the source itself (unverified), 0 if none published
+  wins: WinRecord[];   // Wins reported by the model (unverified)
   description: string;
   nextDrawPrediction: GuruPrediction;
+  degraded?: boolean;  // True for placeholder data used when the lookup failed
+  manual?: boolean;    // nextDrawPrediction was typed in by hand, not looked up
+}
+
+// A tracked prediction source. `id` is assigned when the guru is added and never changes.
+export interface GuruProfile {
+  id: string;
+  name: string;
+  alias: string;
+  description: string;
+  lookup: boolean;     // Let AI search for this guru's numbers; otherwise they are only typed in by hand
+}
+
+// Numbers typed in by hand for one guru and draw; they take precedence over the AI lookup
+export interface ManualGuruPrediction {
+  id: string;          // `${guruId}|${drawKey}`
+  guruId: string;
+  game: GameId;
+  drawIsoDate: string;
+  prediction: GuruPrediction;
+  enteredAt: number;
+}
+
+export type GuruHitType = 'TOP3' | 'TOP2' | 'FRONT3' | 'REAR3' | 'REAR2';
+
+export interface GuruHit {
+  number: string;
+  type: GuruHitType;
+}
+
+// One guru's published numbers for one draw, verified once the result is known
+export interface GuruPredictionRecord {
+  id: string;          // `${guruKey}|${drawKey}`
+  game?: GameId;       // Absent means THAI
+  guruKey: string;
+  guruName: string;
+  drawIsoDate: string;
+  prediction: GuruPrediction;
+  recordedAt: number;
+  hits?: GuruHit[];    // Present once verified
+  verifiedAt?: number;
+}
+
+export interface GuruMeasuredStats {
+  attempts: number;    // Verified draws with a recorded prediction
+  hits: number;        // Verified draws where any number hit
+  accuracy: number | null;
+  byType: Record<GuruHitType, number>;
+  currentStreak: number;
+  bestStreak: number;
+  wins: WinRecord[];   // Verified wins, newest first
 }
 
 export enum GeneratorMode {
   RNG = 'RNG',
   AI = 'AI',
   HISTORY = 'HISTORY',
-  GURU = 'GURU'
+  GURU = 'GURU',
+  DREAM = 'DREAM',
+  NUMEROLOGY = 'NUMEROLOGY',
+  CUSTOM = 'CUSTOM'   // Generation from a user-made prompt template
+}
+
+// Entry of the editable dream dictionary (ตำราเลขฝัน)
+export interface DreamEntry {
+  id: string;
+  symbol: string;      // What was seen in the dream, in Thai
+  keywords: string[];  // Thai or English words that identify the symbol in a dream description
+  numbers: string[];   // Traditional 2 or 3 digit numbers for the symbol
+  meaning: string;
+  custom?: boolean;    // Added or edited by the user
+}
+
+// Personal inputs for NUMEROLOGY mode, one per family member
+export interface NumerologyProfile {
+  id: string;
+  name: string;
+  birthDate: string;   // YYYY-MM-DD (Gregorian), entered in either era
+  birthDay: number;    // 0 Sunday … 6 Saturday, 7 Wednesday night (พุธกลางคืน)
+  phone: string;
+  plate: string;       // Car licence plate, e.g. "1กข 2345"
+  updatedAt: number;
+}
+
+export interface DreamMatch {
+  entry: DreamEntry;
+  keyword: string;     // Keyword found in the dream, or "AI" when suggested by the model
+}
+
+// Play expansions of 2 and 3 digit numbers (กลับเลข, 19 ประตู, รูดหน้า/รูดหลัง, เลขชุด)
+export type ExpansionKind = 'PERMUTE' | 'REVERSE2' | 'DOORS19' | 'SWEEP_FRONT' | 'SWEEP_BACK' | 'SET2' | 'SET3';
+
+// A 2 or 3 digit number to play, with the expansion it came from
+export interface PlayNumber {
+  number: string;
+  origin: string;      // e.g. "6 กลับ 123"
+}
+
+// --- Consensus ranking ---
+
+// Modes whose latest set for the upcoming draw feeds the consensus
+export type ConsensusMode = 'RNG' | 'AI' | 'HISTORY' | 'GURU';
+
+export interface ConsensusSettings {
+  modeWeights: Record<ConsensusMode, number>;
+  guruWeight: number;        // Applies to every guru card
+  byAccuracy: boolean;       // Scale each weight by the source's measured hit rate
+}
+
+// One source's numbers with how strongly it backs each of them
+export interface ConsensusSource {
+  id: string;                // Mode name, or `guru:${guruKey}`
+  label: string;
+  kind: 'MODE' | 'GURU';
+  weight: number;            // Configured weight times the accuracy factor
+  accuracyFactor: number;    // 1 when accuracy weighting is off or nothing was measured yet
+  numbers: { number: string; strength: number }[];
+}
+
+export interface ConsensusBacker {
+  sourceId: string;
+  label: string;
+  kind: 'MODE' | 'GURU';
+  contribution: number;      // weight × strength
+}
+
+export interface ConsensusEntry {
+  number: string;
+  score: number;             // Sum of the backers' contributions
+  share: number;             // score / the total weight of all sources, 0-1
+  backers: ConsensusBacker[];
+}
+
+export interface ConsensusRanking {
+  three: ConsensusEntry[];
+  two: ConsensusEntry[];
+  totalWeight: number;
 }
 
 export interface NumberDisplayProps {
@@ -54,4 +440,82 @@ export interface NumberDisplayProps {
   subLabel: string;
   color?: string;
   animate?: boolean;
-}
\ No newline at end of file
+}
+
+// --- Prompt templates ---
+
+// One saved revision. Rollback saves an older revision again as the newest one.
+export interface PromptTemplateVersion {
+  version: number;
+  prompt: string;
+  systemInstruction: string;
+  note: string;
+  savedAt: number;
+}
+
+// The model prompt of a built-in task or of a custom generation mode. Text may
+// use {variables}; the ones allowed depend on the task.
+export interface PromptTemplate {
+  id: string;          // Built-in: AI, GURU, HISTORY, LATEST_DRAW, GURU_STATS; custom: `custom:${uuid}`
+  label: string;
+  description: string;
+  task: AITask;
+  custom: boolean;
+  versions: PromptTemplateVersion[];   // Oldest first; the last one is in use
+}
+
+export interface PromptTemplateRef {
+  id: string;
+  label: string;
+  version: number;
+}
+
+// --- AI providers ---
+
+// Identifies what a request is for, so providers such as the mock can pick a fixture
+export type AITask = 'latestDraw' | 'guruStats' | 'luckyNumbers' | 'phraseHistory' | 'dreamInterpretation';
+
+// Provider-neutral subset of JSON Schema used for structured output
+export interface SchemaNode {
+  type: 'object' | 'array' | 'string' | 'number';
+  description?: string;
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+  required?: string[];
+}
+
+export interface AIRequest {
+  task: AITask;
+  prompt: string;
+  systemInstruction?: string;
+  signal?: AbortSignal;   // Aborts the model call, e.g. when the browser cancels or the timeout passes
+}
+
+export interface StructuredRequest extends AIRequest {
+  schema: SchemaNode;
+}
+
+export interface GroundedResult<T> {
+  data: T;
+  sourceUrls: string[];
+}
+
+export interface AIProvider {
+  name: string;
+  // JSON output matching `schema`
+  generateStructured<T>(request: StructuredRequest): Promise<T>;
+  // Structured output backed by a web search, with the pages it used
+  searchGrounded<T>(request: StructuredRequest): Promise<GroundedResult<T>>;
+  generateText(request: AIRequest): Promise<string>;
+  streamText(request: AIRequest): AsyncIterable<string>;
+  // Raw JSON text matching `schema`, as it is generated
+  streamStructured(request: StructuredRequest): AsyncIterable<string>;
+}
+
+// Progress of a streamed generation, sent by the API server as one JSON object per line.
+// `restart` means the answer was rejected and is being generated again.
+export type GenerationEvent =
+  | { type: 'reasoning'; text: string }
+  | { type: 'restart' }
+  | { type: 'result'; data: unknown }
+  | { type: 'error'; status: number; error: string };
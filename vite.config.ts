@@ -8,12 +8,13 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Model calls go through the API server (npm run server) so keys stay server-side
+        proxy: {
+          // xfwd passes the visitor's address on, for the server's TRUST_PROXY
+          '/api': { target: `http://localhost:${env.API_PORT || 8787}`, xfwd: true },
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),